@@ -0,0 +1,18 @@
+import { getFirestore, QueryDocumentSnapshot, WriteBatch } from "firebase-admin/firestore";
+
+// Firestore batched writes are limited to 500 operations
+const BATCH_SIZE = 500;
+
+// Apply a write to every document, committing in batches that stay under the limit
+export const commitInBatches = async (
+    docs: QueryDocumentSnapshot[],
+    write: (batch: WriteBatch, doc: QueryDocumentSnapshot) => void
+): Promise<void> => {
+    const db = getFirestore();
+
+    for (let i = 0; i < docs.length; i += BATCH_SIZE) {
+        const batch = db.batch();
+        docs.slice(i, i + BATCH_SIZE).forEach(doc => write(batch, doc));
+        await batch.commit();
+    }
+};
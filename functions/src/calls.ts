@@ -0,0 +1,17 @@
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { commitInBatches } from "./batch";
+
+// Mark calls still ringing past their expiry as missed, e.g. when the caller closed
+// the tab while ringing; returns how many were marked
+export const markMissedCalls = async (now: number = Date.now()): Promise<number> => {
+    const snapshot = await getFirestore().collection("callInvitations")
+        .where("status", "==", "pending")
+        .where("expiresAt", "<", Timestamp.fromMillis(now))
+        .get();
+
+    await commitInBatches(snapshot.docs, (batch, doc) => {
+        batch.update(doc.ref, { status: "missed", respondedAt: Timestamp.fromMillis(now) });
+    });
+
+    return snapshot.size;
+};
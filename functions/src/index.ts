@@ -0,0 +1,83 @@
+import { initializeApp } from "firebase-admin/app";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { HttpsError, onCall, onRequest } from "firebase-functions/v2/https";
+import { defineInt, defineSecret, defineString } from "firebase-functions/params";
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import * as logger from "firebase-functions/logger";
+import { sweepStalePresence } from "./presence";
+import { closeStaleRooms, deleteRoomSignaling } from "./rooms";
+import { markMissedCalls } from "./calls";
+import { expireMatchTickets } from "./matchQueue";
+import { createTurnRestCredentials, parseUrlList } from "./turn";
+
+initializeApp();
+
+// The TURN server's static-auth-secret; set it with `firebase functions:secrets:set TURN_SECRET`
+const turnSecret = defineSecret("TURN_SECRET");
+const turnUrls = defineString("TURN_URLS", { default: "" });
+const turnCredentialTtl = defineInt("TURN_CREDENTIAL_TTL", { default: 24 * 60 * 60 });
+
+// Hand signed-in users time-limited TURN credentials, so the secret stays on the server
+export const getTurnCredentials = onCall({ secrets: [turnSecret] }, (request) => {
+    if (!request.auth) {
+        throw new HttpsError("unauthenticated", "Sign in to get TURN credentials");
+    }
+
+    return createTurnRestCredentials(
+        turnSecret.value(),
+        request.auth.uid,
+        turnCredentialTtl.value(),
+        parseUrlList(turnUrls.value())
+    );
+});
+
+// Mark users offline once their client stops heartbeating (closed tab, lost network)
+export const presenceSweeper = onSchedule("every 1 minutes", async () => {
+    const count = await sweepStalePresence();
+    logger.info(`Marked ${count} stale users offline`);
+});
+
+// Close rooms left open by participants who disappeared without hanging up
+export const roomSweeper = onSchedule("every 1 minutes", async () => {
+    const count = await closeStaleRooms();
+    logger.info(`Closed ${count} stale rooms`);
+});
+
+// Calls ring for a limited time; catch the ones whose caller left before marking them missed
+export const callSweeper = onSchedule("every 1 minutes", async () => {
+    const count = await markMissedCalls();
+    logger.info(`Marked ${count} unanswered calls missed`);
+});
+
+// Searchers who left without cancelling leave waiting tickets behind; expire them
+export const matchQueueSweeper = onSchedule("every 1 minutes", async () => {
+    const count = await expireMatchTickets();
+    logger.info(`Expired ${count} abandoned match tickets`);
+});
+
+// Once a room ends, however it ended, its signaling data is no longer needed
+export const roomSignalingCleanup = onDocumentUpdated("rooms/{roomId}", async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    if (!before?.isActive || after?.isActive !== false) return;
+
+    const count = await deleteRoomSignaling(event.params.roomId);
+    logger.info(`Deleted ${count} signaling documents for room ${event.params.roomId}`);
+});
+
+// The emulator does not trigger scheduled functions by itself; call this to run the sweeps locally
+export const sweepNow = onRequest(async (req, res) => {
+    if (process.env.FUNCTIONS_EMULATOR !== "true") {
+        res.status(404).send("Not found");
+        return;
+    }
+
+    const [users, rooms, calls, tickets] = await Promise.all([
+        sweepStalePresence(),
+        closeStaleRooms(),
+        markMissedCalls(),
+        expireMatchTickets()
+    ]);
+    logger.info(`Marked ${users} stale users offline, closed ${rooms} stale rooms, marked ${calls} calls missed and expired ${tickets} match tickets`);
+    res.json({ users, rooms, calls, tickets });
+});
@@ -0,0 +1,17 @@
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { commitInBatches } from "./batch";
+
+// Mark waiting tickets past their expiry as expired, e.g. when the searcher closed the
+// tab without cancelling; returns how many were marked
+export const expireMatchTickets = async (now: number = Date.now()): Promise<number> => {
+    const snapshot = await getFirestore().collection("matchQueue")
+        .where("status", "==", "waiting")
+        .where("expiresAt", "<=", Timestamp.fromMillis(now))
+        .get();
+
+    await commitInBatches(snapshot.docs, (batch, doc) => {
+        batch.update(doc.ref, { status: "expired" });
+    });
+
+    return snapshot.size;
+};
@@ -0,0 +1,23 @@
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { commitInBatches } from "./batch";
+
+// Users whose last heartbeat is older than this are considered offline.
+// Keep in sync with PRESENCE_TIMEOUT_MS in src/lib/userService.ts.
+export const PRESENCE_TIMEOUT_MS = 90 * 1000;
+
+// Flip users offline whose presence heartbeat has lapsed; returns how many were swept
+export const sweepStalePresence = async (now: number = Date.now()): Promise<number> => {
+    const cutoff = Timestamp.fromMillis(now - PRESENCE_TIMEOUT_MS);
+
+    const snapshot = await getFirestore().collection("users")
+        .where("isOnline", "==", true)
+        .where("lastActive", "<", cutoff)
+        .orderBy("lastActive", "desc")
+        .get();
+
+    await commitInBatches(snapshot.docs, (batch, doc) => {
+        batch.update(doc.ref, { isOnline: false });
+    });
+
+    return snapshot.size;
+};
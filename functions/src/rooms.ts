@@ -0,0 +1,81 @@
+import { getFirestore, Timestamp, QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { commitInBatches } from "./batch";
+
+// Keep in sync with ROOM_HEARTBEAT_TIMEOUT_MS and ROOM_RETENTION_MS in src/lib/roomService.ts
+export const ROOM_HEARTBEAT_TIMEOUT_MS = 60 * 1000;
+export const ROOM_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Per-room signaling documents that are useless once the call is over
+const SIGNALING_COLLECTIONS = ["iceCandidates", "sessionDescriptions"];
+
+const DELETE_PAGE_SIZE = 500;
+
+// End each room in its own transaction, skipping rooms a participant ended since the
+// query ran, so the reason they wrote is kept like endRoom does on the client; returns
+// how many were ended
+const endRooms = async (docs: QueryDocumentSnapshot[], reason: "abandoned" | "expired", now: number) => {
+    const db = getFirestore();
+    let ended = 0;
+
+    for (const doc of docs) {
+        const closed = await db.runTransaction(async (transaction) => {
+            const room = await transaction.get(doc.ref);
+            if (!room.exists || room.get("isActive") !== true) return false;
+
+            transaction.update(doc.ref, {
+                isActive: false,
+                endedAt: Timestamp.fromMillis(now),
+                endReason: reason,
+                purgeAt: Timestamp.fromMillis(now + ROOM_RETENTION_MS)
+            });
+            return true;
+        });
+        if (closed) ended++;
+    }
+
+    return ended;
+};
+
+// Close active rooms that neither participant has heartbeated in recently, or that
+// have outlived their TTL; returns how many were closed
+export const closeStaleRooms = async (now: number = Date.now()): Promise<number> => {
+    const rooms = getFirestore().collection("rooms");
+
+    const [abandoned, expired] = await Promise.all([
+        rooms.where("isActive", "==", true)
+            .where("lastHeartbeatAt", "<", Timestamp.fromMillis(now - ROOM_HEARTBEAT_TIMEOUT_MS))
+            .get(),
+        rooms.where("isActive", "==", true)
+            .where("expiresAt", "<", Timestamp.fromMillis(now))
+            .get()
+    ]);
+
+    const abandonedIds = new Set(abandoned.docs.map(doc => doc.id));
+    const expiredOnly = expired.docs.filter(doc => !abandonedIds.has(doc.id));
+
+    return await endRooms(abandoned.docs, "abandoned", now) + await endRooms(expiredOnly, "expired", now);
+};
+
+// Delete the ICE candidates and session descriptions of a room; returns how many were deleted
+export const deleteRoomSignaling = async (roomId: string): Promise<number> => {
+    const db = getFirestore();
+    let deleted = 0;
+
+    for (const collectionName of SIGNALING_COLLECTIONS) {
+        // Page through so rooms with many candidates never load them all at once
+        for (;;) {
+            const snapshot = await db.collection(collectionName)
+                .where("roomId", "==", roomId)
+                .limit(DELETE_PAGE_SIZE)
+                .get();
+            if (snapshot.empty) break;
+
+            await commitInBatches(snapshot.docs, (batch, doc) => {
+                batch.delete(doc.ref);
+            });
+            deleted += snapshot.size;
+        }
+    }
+
+    return deleted;
+};
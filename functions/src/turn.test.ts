@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { createTurnRestCredentials, parseUrlList } from "./turn";
+
+test("signs the username with the shared secret", () => {
+    const credentials = createTurnRestCredentials("north", "alice", 3600, ["turn:turn.example.com:3478"], 1700000000000);
+
+    assert.deepEqual(credentials, {
+        username: "1700003600:alice",
+        // base64(HMAC-SHA1("north", "1700003600:alice")), as coturn computes it
+        password: "wjwSXO2ch1B6VaLTLMy2Avn5O9o=",
+        ttl: 3600,
+        uris: ["turn:turn.example.com:3478"]
+    });
+});
+
+test("different secrets and users give different passwords", () => {
+    const base = createTurnRestCredentials("north", "alice", 3600, [], 0).password;
+
+    assert.notEqual(createTurnRestCredentials("south", "alice", 3600, [], 0).password, base);
+    assert.notEqual(createTurnRestCredentials("north", "bob", 3600, [], 0).password, base);
+});
+
+test("reads comma-separated TURN URLs", () => {
+    assert.deepEqual(parseUrlList(" turn:a:3478, ,turns:a:5349 "), ["turn:a:3478", "turns:a:5349"]);
+    assert.deepEqual(parseUrlList(""), []);
+});
@@ -0,0 +1,30 @@
+import { createHmac } from "crypto";
+
+// Time-limited TURN credentials in the draft-uberti-behave-turn-rest response shape,
+// which the client's iceConfig.ts also accepts from a REST endpoint
+export interface TurnRestCredentials {
+    username: string;
+    password: string;
+    // Seconds the credentials stay valid
+    ttl: number;
+    uris: string[];
+}
+
+export const parseUrlList = (value: string): string[] =>
+    value.split(",").map(url => url.trim()).filter(url => url.length > 0);
+
+// Sign credentials the way coturn's use-auth-secret mode checks them: the username is
+// "<expiry>:<userId>" and the password is base64(HMAC-SHA1(secret, username)). Only the
+// server knows the secret, so only signed-in users can get a working relay account.
+export const createTurnRestCredentials = (
+    secret: string,
+    userId: string,
+    ttlSeconds: number,
+    uris: string[],
+    now: number = Date.now()
+): TurnRestCredentials => {
+    const username = `${Math.floor(now / 1000) + ttlSeconds}:${userId}`;
+    const password = createHmac("sha1", secret).update(username).digest("base64");
+
+    return { username, password, ttl: ttlSeconds, uris };
+};
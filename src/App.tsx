@@ -1,14 +1,18 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { onAuthStateChanged } from 'firebase/auth';
 import { BrowserRouter as Router, Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { auth } from './lib/firebase';
 import { getUserById, UserData } from './lib/userService';
 import { checkIsAdmin, AdminData } from './lib/adminService';
+import { startPresence, PresenceHandle } from './lib/presenceService';
+import { getUnacknowledgedWarnings, isBanned, Sanction } from './lib/sanctionService';
 import Login from './components/Login';
 import Register from './components/Register';
 import Profile from './components/Profile';
 import VideoChat from './components/VideoChat';
 import AdminDashboard from './components/AdminDashboard';
+import IncomingCallModal from './components/IncomingCallModal';
+import WarningNotice from './components/WarningNotice';
 import logo from './logo.svg';
 import LoadingSpinner from './components/LoadingSpinner';
 
@@ -28,11 +32,12 @@ const AuthLayout = ({ children }: { children: React.ReactNode }) => {
   );
 };
 
-const MainLayout = ({ children, user, isAdmin, adminData }: {
+const MainLayout = ({ children, user, isAdmin, adminData, onLogout }: {
   children: React.ReactNode,
   user: any,
   isAdmin: boolean,
-  adminData: AdminData | null
+  adminData: AdminData | null,
+  onLogout: () => void
 }) => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -81,7 +86,7 @@ const MainLayout = ({ children, user, isAdmin, adminData }: {
               </button>
             )}
             <button
-              onClick={() => auth.signOut()}
+              onClick={onLogout}
               className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-all duration-200 shadow-md"
             >
               Logout
@@ -93,6 +98,9 @@ const MainLayout = ({ children, user, isAdmin, adminData }: {
       <div className="container mx-auto mt-8 px-4 pb-12">
         {children}
       </div>
+
+      {/* Friends can ring the user on any page */}
+      {user && <IncomingCallModal user={user} />}
     </div>
   );
 };
@@ -133,18 +141,39 @@ const App: React.FC = () => {
   const [isAdmin, setIsAdmin] = useState<boolean>(false);
   const [adminData, setAdminData] = useState<AdminData | null>(null);
   const [registrationSuccess, setRegistrationSuccess] = useState<string>('');
+  const [accountNotice, setAccountNotice] = useState<string>('');
+  const [warnings, setWarnings] = useState<Sanction[]>([]);
+  const presenceRef = useRef<PresenceHandle | null>(null);
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setLoading(true);
       if (user) {
         console.log('User is signed in:', user.email);
-        setUser(user);
 
         // Load user profile from Firestore
         const profile = await getUserById(user.uid);
+
+        // Banned accounts are signed straight back out
+        if (profile && isBanned(profile)) {
+          console.log('User is banned');
+          setAccountNotice('This account has been banned for violating our community guidelines.');
+          await auth.signOut();
+          return;
+        }
+
+        setAccountNotice('');
+        setUser(user);
         setUserProfile(profile);
 
+        // Heartbeat presence for as long as the user stays signed in
+        if (!presenceRef.current) {
+          presenceRef.current = startPresence(user.uid);
+        }
+
+        // Warnings are shown once, the next time the user signs in
+        setWarnings(await getUnacknowledgedWarnings(user.uid));
+
         // Check if user is an admin - try with both email and username (if available)
         if (user.email) {
           let adminResult: AdminData | null = null;
@@ -165,17 +194,34 @@ const App: React.FC = () => {
         }
       } else {
         console.log('User is signed out');
+        // Signed out elsewhere (e.g. another tab); the sweeper marks the user offline
+        presenceRef.current?.stop();
+        presenceRef.current = null;
         setUser(null);
         setUserProfile(null);
         setIsAdmin(false);
         setAdminData(null);
+        setWarnings([]);
       }
       setLoading(false);
     });
 
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+      presenceRef.current?.stop();
+      presenceRef.current = null;
+    };
   }, []);
 
+  // Mark the user offline while still authenticated, then sign out
+  const handleLogout = async () => {
+    if (presenceRef.current) {
+      await presenceRef.current.stop();
+      presenceRef.current = null;
+    }
+    await auth.signOut();
+  };
+
   // Handle registration success message
   const handleRegistrationSuccess = (message: string) => {
     setRegistrationSuccess(message);
@@ -202,6 +248,12 @@ const App: React.FC = () => {
 
   return (
     <Router>
+      {user && (
+        <WarningNotice
+          warnings={warnings}
+          onAcknowledged={(sanctionId) => setWarnings(prev => prev.filter(warning => warning.id !== sanctionId))}
+        />
+      )}
       <Routes>
         {/* Auth routes (accessible when logged out) */}
         <Route path="/login" element={
@@ -209,6 +261,7 @@ const App: React.FC = () => {
             <AuthLayout>
               <Login
                 registrationMessage={registrationSuccess}
+                accountNotice={accountNotice}
               />
             </AuthLayout>
           )
@@ -225,7 +278,7 @@ const App: React.FC = () => {
         {/* Protected routes (require authentication) */}
         <Route path="/videoChat" element={
           <RequireAuth>
-            <MainLayout user={user} isAdmin={isAdmin} adminData={adminData}>
+            <MainLayout user={user} isAdmin={isAdmin} adminData={adminData} onLogout={handleLogout}>
               <VideoChat user={user} userProfile={userProfile} />
             </MainLayout>
           </RequireAuth>
@@ -233,7 +286,7 @@ const App: React.FC = () => {
 
         <Route path="/profile" element={
           <RequireAuth>
-            <MainLayout user={user} isAdmin={isAdmin} adminData={adminData}>
+            <MainLayout user={user} isAdmin={isAdmin} adminData={adminData} onLogout={handleLogout}>
               <Profile user={user} />
             </MainLayout>
           </RequireAuth>
@@ -241,7 +294,7 @@ const App: React.FC = () => {
 
         <Route path="/admin" element={
           <RequireAuth>
-            <MainLayout user={user} isAdmin={isAdmin} adminData={adminData}>
+            <MainLayout user={user} isAdmin={isAdmin} adminData={adminData} onLogout={handleLogout}>
               {isAdmin ? <AdminDashboard user={user} /> : <Navigate to="/videoChat" replace />}
             </MainLayout>
           </RequireAuth>
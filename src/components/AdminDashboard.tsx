@@ -2,10 +2,13 @@
 /* eslint-disable react-hooks/exhaustive-deps */
 import React, { useState, useEffect } from 'react';
 import { User } from 'firebase/auth';
-import { getAllUsers, UserData, setAllUsersOnline } from '../lib/userService';
+import { getAllUsers, UserData } from '../lib/userService';
 import { getAllAdmins, AdminData } from '../lib/adminService';
 import { doc, setDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import ReportQueue from './ReportQueue';
+import SanctionPanel from './SanctionPanel';
+import { isBanned, isSuspended } from '../lib/sanctionService';
 
 interface AdminDashboardProps {
     user: User;
@@ -18,7 +21,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
     const [error, setError] = useState<string | null>(null);
     const [refreshInterval, setRefreshInterval] = useState<number>(30); // seconds
     const [autoRefresh, setAutoRefresh] = useState<boolean>(true);
-    const [activeTab, setActiveTab] = useState<'users' | 'admins'>('users');
+    const [activeTab, setActiveTab] = useState<'users' | 'admins' | 'reports'>('users');
 
     // Admin add form state
     const [newAdminEmail, setNewAdminEmail] = useState('');
@@ -26,6 +29,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
     const [newAdminRole, setNewAdminRole] = useState<'admin' | 'superadmin'>('admin');
     const [addingAdmin, setAddingAdmin] = useState(false);
 
+    // User whose sanctions are open in the users table
+    const [moderatedUserId, setModeratedUserId] = useState<string | null>(null);
+
     // Function to load all users
     const loadUsers = async () => {
         try {
@@ -73,22 +79,6 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
         };
     }, [autoRefresh, refreshInterval, activeTab]);
 
-    // Make all users online for testing
-    const handleSetAllUsersOnline = async () => {
-        try {
-            setLoading(true);
-            await setAllUsersOnline();
-            await loadUsers();
-            setError('All users have been set as online for testing');
-            setTimeout(() => setError(null), 3000);
-        } catch (err) {
-            console.error('Error setting all users online:', err);
-            setError('Failed to set all users online');
-        } finally {
-            setLoading(false);
-        }
-    };
-
     // Add a new admin
     const handleAddAdmin = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -178,11 +168,17 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
                         Users
                     </button>
                     <button
-                        className={`px-4 py-2 rounded-t-lg ${activeTab === 'admins' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
+                        className={`px-4 py-2 rounded-t-lg mr-2 ${activeTab === 'admins' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
                         onClick={() => setActiveTab('admins')}
                     >
                         Admins
                     </button>
+                    <button
+                        className={`px-4 py-2 rounded-t-lg ${activeTab === 'reports' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300'}`}
+                        onClick={() => setActiveTab('reports')}
+                    >
+                        Reports
+                    </button>
                 </div>
 
                 {activeTab === 'users' && (
@@ -194,16 +190,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
                             <div className="flex items-center">
                                 <button
                                     onClick={loadUsers}
-                                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded mr-2"
+                                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded"
                                 >
                                     Refresh
                                 </button>
-                                <button
-                                    onClick={() => setAllUsersOnline()}
-                                    className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded"
-                                >
-                                    Set All Online
-                                </button>
                             </div>
                         </div>
 
@@ -215,33 +205,58 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
                                         <th className="px-4 py-2 text-left">Email</th>
                                         <th className="px-4 py-2 text-left">Status</th>
                                         <th className="px-4 py-2 text-left">Last Active</th>
+                                        <th className="px-4 py-2 text-left">Moderation</th>
                                     </tr>
                                 </thead>
                                 <tbody>
                                     {loading ? (
                                         <tr>
-                                            <td colSpan={4} className="px-4 py-8 text-center">
+                                            <td colSpan={5} className="px-4 py-8 text-center">
                                                 <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500 mx-auto"></div>
                                             </td>
                                         </tr>
                                     ) : users.length === 0 ? (
                                         <tr>
-                                            <td colSpan={4} className="px-4 py-4 text-center">No users found</td>
+                                            <td colSpan={5} className="px-4 py-4 text-center">No users found</td>
                                         </tr>
                                     ) : (
-                                        users.map(user => (
-                                            <tr key={user.uid} className="border-t border-gray-600">
-                                                <td className="px-4 py-2">{user.username || 'N/A'}</td>
-                                                <td className="px-4 py-2">{user.email}</td>
-                                                <td className="px-4 py-2">
-                                                    <span className={`px-2 py-1 rounded-full text-xs ${user.isOnline ? 'bg-green-500' : 'bg-red-500'}`}>
-                                                        {user.isOnline ? 'Online' : 'Offline'}
-                                                    </span>
-                                                </td>
-                                                <td className="px-4 py-2">
-                                                    {user.lastActive ? new Date(user.lastActive.toDate()).toLocaleString() : 'N/A'}
-                                                </td>
-                                            </tr>
+                                        users.map(listedUser => (
+                                            <React.Fragment key={listedUser.uid}>
+                                                <tr className="border-t border-gray-600">
+                                                    <td className="px-4 py-2">{listedUser.username || 'N/A'}</td>
+                                                    <td className="px-4 py-2">{listedUser.email}</td>
+                                                    <td className="px-4 py-2">
+                                                        <span className={`px-2 py-1 rounded-full text-xs ${listedUser.isOnline ? 'bg-green-500' : 'bg-red-500'}`}>
+                                                            {listedUser.isOnline ? 'Online' : 'Offline'}
+                                                        </span>
+                                                    </td>
+                                                    <td className="px-4 py-2">
+                                                        {listedUser.lastActive ? new Date(listedUser.lastActive.toDate()).toLocaleString() : 'N/A'}
+                                                    </td>
+                                                    <td className="px-4 py-2">
+                                                        {isBanned(listedUser) ? (
+                                                            <span className="px-2 py-1 rounded-full text-xs bg-red-600 mr-2">Banned</span>
+                                                        ) : isSuspended(listedUser) && (
+                                                            <span className="px-2 py-1 rounded-full text-xs bg-yellow-500 text-black mr-2">
+                                                                Suspended until {listedUser.suspendedUntil?.toDate().toLocaleDateString()}
+                                                            </span>
+                                                        )}
+                                                        <button
+                                                            onClick={() => setModeratedUserId(moderatedUserId === listedUser.uid ? null : listedUser.uid)}
+                                                            className="bg-gray-600 hover:bg-gray-500 text-white px-3 py-1 rounded text-sm"
+                                                        >
+                                                            {moderatedUserId === listedUser.uid ? 'Close' : 'Sanctions'}
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                                {moderatedUserId === listedUser.uid && (
+                                                    <tr>
+                                                        <td colSpan={5} className="p-4 bg-gray-800">
+                                                            <SanctionPanel user={user} target={listedUser} onIssued={() => loadUsers()} />
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </React.Fragment>
                                         ))
                                     )}
                                 </tbody>
@@ -354,6 +369,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user }) => {
                         </div>
                     </div>
                 )}
+
+                {activeTab === 'reports' && <ReportQueue user={user} users={users} />}
             </div>
         </div>
     );
@@ -0,0 +1,102 @@
+import React from 'react';
+import { CallStats, CandidateType, formatBitrate, isRelayed, RtpStreamStats } from '../lib/callStats';
+
+interface CallStatsPanelProps {
+    stats: CallStats | null;
+}
+
+const CANDIDATE_LABELS: Record<CandidateType, string> = {
+    host: 'host',
+    srflx: 'srflx (through NAT)',
+    prflx: 'prflx (through NAT)',
+    relay: 'relay (TURN server)'
+};
+
+const STREAMS: { label: string; pick: (stats: CallStats) => RtpStreamStats | null }[] = [
+    { label: 'Video sent', pick: stats => stats.sent.video },
+    { label: 'Video received', pick: stats => stats.received.video },
+    { label: 'Audio sent', pick: stats => stats.sent.audio },
+    { label: 'Audio received', pick: stats => stats.received.audio }
+];
+
+const orDash = (value: number | string | null, unit = ''): string =>
+    value === null ? '—' : `${typeof value === 'number' ? Math.round(value) : value}${unit}`;
+
+const resolution = (stream: RtpStreamStats): string =>
+    stream.width !== null && stream.height !== null ? `${stream.width}×${stream.height}` : '—';
+
+const percent = (rate: number | null): string =>
+    rate === null ? '—' : `${(rate * 100).toFixed(1)}%`;
+
+const candidateLabel = (type: CandidateType | null): string =>
+    type ? CANDIDATE_LABELS[type] : 'unknown';
+
+// The numbers behind the signal bars, for working out why a call was choppy
+const CallStatsPanel: React.FC<CallStatsPanelProps> = ({ stats }) => {
+    if (!stats) {
+        return <p className="text-sm text-gray-400">Collecting connection stats…</p>;
+    }
+
+    const { candidatePair } = stats;
+
+    return (
+        <div className="text-xs text-gray-300 space-y-3">
+            <div className="flex flex-wrap gap-x-6 gap-y-1">
+                <span>Round trip: <span className="text-white">{orDash(stats.rttMs, ' ms')}</span></span>
+                <span>
+                    Route:{' '}
+                    <span className="text-white">
+                        {candidatePair
+                            ? `${candidateLabel(candidatePair.localType)} → ${candidateLabel(candidatePair.remoteType)}`
+                            : '—'}
+                        {candidatePair?.protocol ? ` over ${candidatePair.protocol.toUpperCase()}` : ''}
+                    </span>
+                </span>
+                {isRelayed(candidatePair) && (
+                    <span className="text-yellow-400">Relayed, so expect extra delay</span>
+                )}
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead className="text-gray-400">
+                        <tr>
+                            <th className="pr-4 font-normal"></th>
+                            <th className="pr-4 font-normal">Codec</th>
+                            <th className="pr-4 font-normal">Resolution</th>
+                            <th className="pr-4 font-normal">FPS</th>
+                            <th className="pr-4 font-normal">Bitrate</th>
+                            <th className="pr-4 font-normal">Loss</th>
+                            <th className="font-normal">Jitter</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {STREAMS.map(({ label, pick }) => {
+                            const stream = pick(stats);
+
+                            return (
+                                <tr key={label} className="text-white">
+                                    <td className="pr-4 text-gray-400">{label}</td>
+                                    {stream ? (
+                                        <>
+                                            <td className="pr-4">{orDash(stream.codec)}</td>
+                                            <td className="pr-4">{resolution(stream)}</td>
+                                            <td className="pr-4">{orDash(stream.framesPerSecond)}</td>
+                                            <td className="pr-4">{formatBitrate(stream.bitrate)}</td>
+                                            <td className="pr-4">{percent(stream.packetLossRate)}</td>
+                                            <td>{orDash(stream.jitterMs, ' ms')}</td>
+                                        </>
+                                    ) : (
+                                        <td colSpan={6} className="text-gray-500">Not flowing</td>
+                                    )}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default CallStatsPanel;
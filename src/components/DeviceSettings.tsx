@@ -0,0 +1,56 @@
+import React from 'react';
+import {
+    AvailableDevices,
+    deviceLabel,
+    devicesFor,
+    MediaDevicePreferences,
+    MediaDeviceRole,
+    preferredDeviceId,
+    supportsSpeakerSelection
+} from '../lib/mediaDevices';
+
+interface DeviceSettingsProps {
+    devices: AvailableDevices;
+    preferences: MediaDevicePreferences;
+    onChange: (role: MediaDeviceRole, deviceId: string | null) => void;
+}
+
+const ROLES: { role: MediaDeviceRole; label: string }[] = [
+    { role: 'camera', label: 'Camera' },
+    { role: 'microphone', label: 'Microphone' },
+    { role: 'speaker', label: 'Speaker' }
+];
+
+// Pickers for the camera, microphone and speaker; changes apply straight away, even mid-call
+const DeviceSettings: React.FC<DeviceSettingsProps> = ({ devices, preferences, onChange }) => {
+    const roles = ROLES.filter(({ role }) => role !== 'speaker' || supportsSpeakerSelection());
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+            {roles.map(({ role, label }) => {
+                const options = devicesFor(devices, role);
+
+                return (
+                    <label key={role} className="flex flex-col text-gray-300">
+                        {label}
+                        <select
+                            value={preferredDeviceId(preferences, role) || ''}
+                            onChange={(e) => onChange(role, e.target.value || null)}
+                            disabled={options.length === 0}
+                            className="mt-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white disabled:opacity-50"
+                        >
+                            <option value="">{options.length === 0 ? `No ${label.toLowerCase()} found` : 'System default'}</option>
+                            {options.map((device, index) => (
+                                <option key={device.deviceId} value={device.deviceId}>
+                                    {deviceLabel(device, index, role)}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                );
+            })}
+        </div>
+    );
+};
+
+export default DeviceSettings;
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { User } from 'firebase/auth';
+import { getUserById, UserData } from '../lib/userService';
+import {
+    Friendship,
+    getFriendId,
+    removeFriendship,
+    respondToFriendRequest
+} from '../lib/friendService';
+
+interface FriendsListProps {
+    user: User;
+    friendships: Friendship[];
+    onlineUserIds: Set<string>;
+    // Calling is unavailable while already in a call or search
+    callDisabled: boolean;
+    onCall: (friend: UserData) => void;
+}
+
+const FriendsList: React.FC<FriendsListProps> = ({ user, friendships, onlineUserIds, callDisabled, onCall }) => {
+    const [profiles, setProfiles] = useState<{ [uid: string]: UserData }>({});
+    const [error, setError] = useState<string | null>(null);
+    // Profiles already loaded or on their way, so each one is fetched once
+    const requestedProfileIds = useRef(new Set<string>());
+
+    // Load the profile of everyone we have a friendship or request with
+    useEffect(() => {
+        const missing = friendships
+            .map(friendship => getFriendId(friendship, user.uid))
+            .filter(uid => !requestedProfileIds.current.has(uid));
+        if (missing.length === 0) return;
+
+        missing.forEach(uid => requestedProfileIds.current.add(uid));
+
+        Promise.all(missing.map(uid => getUserById(uid))).then(loaded => {
+            setProfiles(prevProfiles => loaded.reduce(
+                (next, profile) => profile ? { ...next, [profile.uid]: profile } : next,
+                prevProfiles
+            ));
+        });
+    }, [friendships, user.uid]);
+
+    const displayName = (uid: string) => {
+        const profile = profiles[uid];
+        return profile?.username || profile?.email || 'Someone';
+    };
+
+    const handleRespond = async (friendship: Friendship, accept: boolean) => {
+        setError(null);
+        if (!await respondToFriendRequest(friendship.id, user.uid, accept)) {
+            setError('Could not answer the request. Please try again.');
+        }
+    };
+
+    const handleRemove = async (friendId: string) => {
+        setError(null);
+        if (!await removeFriendship(user.uid, friendId)) {
+            setError('Could not update your friends. Please try again.');
+        }
+    };
+
+    const incoming = friendships.filter(f => f.status === 'pending' && f.addresseeId === user.uid);
+    const outgoing = friendships.filter(f => f.status === 'pending' && f.requesterId === user.uid);
+    const friends = friendships
+        .filter(f => f.status === 'accepted')
+        .map(f => getFriendId(f, user.uid))
+        .sort((a, b) => Number(onlineUserIds.has(b)) - Number(onlineUserIds.has(a)));
+
+    return (
+        <div className="bg-gray-800 rounded-lg overflow-hidden mt-6">
+            <div className="p-4 bg-gray-700">
+                <h3 className="text-lg font-medium text-white">Friends</h3>
+            </div>
+
+            <div className="p-4 space-y-4">
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                {incoming.length > 0 && (
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-300 mb-2">Requests</h4>
+                        {incoming.map(friendship => (
+                            <div key={friendship.id} className="flex items-center justify-between py-1">
+                                <span className="text-white">{displayName(friendship.requesterId)}</span>
+                                <div className="space-x-2">
+                                    <button
+                                        onClick={() => handleRespond(friendship, true)}
+                                        className="px-2 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 transition"
+                                    >
+                                        Accept
+                                    </button>
+                                    <button
+                                        onClick={() => handleRespond(friendship, false)}
+                                        className="px-2 py-1 bg-gray-600 text-white rounded text-xs hover:bg-gray-500 transition"
+                                    >
+                                        Decline
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {friends.length > 0 ? (
+                    <div>
+                        {friends.map(friendId => {
+                            const isOnline = onlineUserIds.has(friendId);
+                            return (
+                                <div key={friendId} className="flex items-center justify-between py-1">
+                                    <div className="flex items-center">
+                                        <div className={`h-2 w-2 rounded-full mr-2 ${isOnline ? 'bg-green-500' : 'bg-gray-500'}`}></div>
+                                        <span className="text-white">{displayName(friendId)}</span>
+                                    </div>
+                                    <div className="space-x-2">
+                                        <button
+                                            onClick={() => profiles[friendId] && onCall(profiles[friendId])}
+                                            disabled={!isOnline || callDisabled || !profiles[friendId]}
+                                            className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition disabled:opacity-50"
+                                        >
+                                            Call
+                                        </button>
+                                        <button
+                                            onClick={() => handleRemove(friendId)}
+                                            className="px-2 py-1 text-gray-400 text-xs hover:text-white"
+                                        >
+                                            Remove
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-400">
+                        No friends yet. Add the people you enjoy talking to from the bar under the video.
+                    </p>
+                )}
+
+                {outgoing.length > 0 && (
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-300 mb-2">Sent requests</h4>
+                        {outgoing.map(friendship => (
+                            <div key={friendship.id} className="flex items-center justify-between py-1">
+                                <span className="text-gray-300">{displayName(friendship.addresseeId)}</span>
+                                <button
+                                    onClick={() => handleRemove(friendship.addresseeId)}
+                                    className="px-2 py-1 text-gray-400 text-xs hover:text-white"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default FriendsList;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { User } from 'firebase/auth';
+import { useNavigate } from 'react-router-dom';
+import { getUserById } from '../lib/userService';
+import {
+    CallInvitation,
+    isCallExpired,
+    respondToCallInvitation,
+    subscribeToIncomingCalls
+} from '../lib/callService';
+import { MatchResult } from '../lib/matchmakingService';
+
+interface IncomingCallModalProps {
+    user: User;
+}
+
+// Rings on every page while a friend is calling; accepting moves to the video chat to join them
+const IncomingCallModal: React.FC<IncomingCallModalProps> = ({ user }) => {
+    const navigate = useNavigate();
+    const [invitations, setInvitations] = useState<CallInvitation[]>([]);
+    const [callerNames, setCallerNames] = useState<{ [uid: string]: string }>({});
+    const [now, setNow] = useState(Date.now());
+    const [error, setError] = useState<string | null>(null);
+    // Callers already looked up or being looked up, so each is fetched once
+    const requestedCallerIds = useRef(new Set<string>());
+
+    useEffect(() => {
+        return subscribeToIncomingCalls(user.uid, setInvitations);
+    }, [user.uid]);
+
+    // Look up who is calling so the modal can name them
+    useEffect(() => {
+        invitations
+            .filter(invitation => !requestedCallerIds.current.has(invitation.callerId))
+            .forEach(invitation => {
+                requestedCallerIds.current.add(invitation.callerId);
+                getUserById(invitation.callerId).then(profile => {
+                    setCallerNames(prevNames => ({
+                        ...prevNames,
+                        [invitation.callerId]: profile?.username || profile?.email || 'A friend'
+                    }));
+                });
+            });
+    }, [invitations]);
+
+    // Tick while ringing so the countdown runs and timed out calls drop off
+    const isRinging = invitations.length > 0;
+    useEffect(() => {
+        if (!isRinging) return;
+
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isRinging]);
+
+    // One call at a time, oldest first
+    const invitation = invitations
+        .filter(ringing => !isCallExpired(ringing, now))
+        .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis())[0];
+
+    if (!invitation) return null;
+
+    const callerName = callerNames[invitation.callerId] || 'A friend';
+    const secondsLeft = Math.max(0, Math.ceil((invitation.expiresAt.toMillis() - now) / 1000));
+
+    const handleAccept = async () => {
+        setError(null);
+        if (!await respondToCallInvitation(invitation.id, true)) {
+            setError(`${callerName} is no longer calling.`);
+            return;
+        }
+
+        const acceptedCall: MatchResult = {
+            roomId: invitation.roomId,
+            partnerId: invitation.callerId,
+            isInitiator: false
+        };
+        navigate('/videoChat', { state: { acceptedCall } });
+    };
+
+    const handleDecline = async () => {
+        setError(null);
+        await respondToCallInvitation(invitation.id, false);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+            <div className="bg-gray-800 border border-green-500 rounded-xl shadow-2xl p-6 w-full max-w-sm text-center">
+                <div className="h-4 w-4 bg-green-500 rounded-full mx-auto mb-4 animate-ping"></div>
+                <h3 className="text-xl font-bold text-white mb-1">{callerName} is calling</h3>
+                <p className="text-gray-400 text-sm mb-6">Missed in {secondsLeft}s</p>
+                {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+                <div className="flex justify-center space-x-4">
+                    <button
+                        onClick={handleAccept}
+                        className="px-6 py-2 bg-green-600 text-white rounded-full hover:bg-green-700 transition"
+                    >
+                        Accept
+                    </button>
+                    <button
+                        onClick={handleDecline}
+                        className="px-6 py-2 bg-red-600 text-white rounded-full hover:bg-red-700 transition"
+                    >
+                        Decline
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default IncomingCallModal;
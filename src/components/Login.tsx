@@ -9,9 +9,11 @@ import { db } from '../lib/firebase';
 interface LoginProps {
     onLogin?: () => void;
     registrationMessage?: string;
+    // Why the user was signed out, e.g. a ban
+    accountNotice?: string;
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin, registrationMessage }) => {
+const Login: React.FC<LoginProps> = ({ onLogin, registrationMessage, accountNotice }) => {
     const [loginId, setLoginId] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -26,6 +28,12 @@ const Login: React.FC<LoginProps> = ({ onLogin, registrationMessage }) => {
         }
     }, [registrationMessage]);
 
+    useEffect(() => {
+        if (accountNotice) {
+            setError(accountNotice);
+        }
+    }, [accountNotice]);
+
     const handleEmailAuth = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { MediaErrorExplanation, playTestSound, startLevelMeter } from '../lib/mediaDiagnostics';
+
+interface PreCallLobbyProps {
+    // The microphone to meter; the camera preview is the page's own local video
+    audioTrack: MediaStreamTrack | null;
+    speakerId: string | null;
+    mediaError: MediaErrorExplanation | null;
+    onRetry: () => void;
+    // What to show once everything works: the start button and matching options
+    children: React.ReactNode;
+}
+
+// Checks before matching: a live mic level, a test sound, and help when the camera fails
+const PreCallLobby: React.FC<PreCallLobbyProps> = ({ audioTrack, speakerId, mediaError, onRetry, children }) => {
+    const [level, setLevel] = useState(0);
+    const [playingTestSound, setPlayingTestSound] = useState(false);
+
+    useEffect(() => {
+        if (!audioTrack) return;
+
+        const stopMeter = startLevelMeter(audioTrack, setLevel);
+        return () => {
+            stopMeter();
+            setLevel(0);
+        };
+    }, [audioTrack]);
+
+    const handleTestSound = async () => {
+        setPlayingTestSound(true);
+        await playTestSound(speakerId);
+        setTimeout(() => setPlayingTestSound(false), 1500);
+    };
+
+    if (mediaError) {
+        return (
+            <div className="text-left">
+                <h3 className="text-2xl font-bold text-white mb-2">{mediaError.title}</h3>
+                <p className="text-gray-300 mb-4">{mediaError.message}</p>
+                <ol className="list-decimal list-inside space-y-2 text-sm text-gray-300 mb-6">
+                    {mediaError.steps.map(step => (
+                        <li key={step}>{step}</li>
+                    ))}
+                </ol>
+                <button
+                    onClick={onRetry}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition"
+                >
+                    {mediaError.kind === 'overconstrained' ? 'Use Default Devices' : 'Try Again'}
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            {children}
+            <div className="mt-6 text-left text-sm">
+                <div className="flex items-center text-gray-300">
+                    <span className="w-24">Microphone</span>
+                    <div className="flex-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full transition-all duration-100 ${level > 0.8 ? 'bg-yellow-400' : 'bg-green-500'}`}
+                            style={{ width: `${Math.round(level * 100)}%` }}
+                        />
+                    </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-400">
+                    {audioTrack ? 'Say something; the bar should move.' : 'Waiting for your microphone...'}
+                </p>
+                <button
+                    onClick={handleTestSound}
+                    disabled={playingTestSound}
+                    className="mt-3 px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-500 transition disabled:opacity-60"
+                >
+                    {playingTestSound ? 'Playing...' : 'Play Test Sound'}
+                </button>
+            </div>
+        </>
+    );
+};
+
+export default PreCallLobby;
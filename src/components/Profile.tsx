@@ -3,6 +3,8 @@
 import React, { useState, useEffect } from 'react';
 import { User } from 'firebase/auth';
 import { upsertUser, getUserById, UserData } from '../lib/userService';
+import { parseInterestTags, MATCH_LANGUAGES, MATCH_REGIONS } from '../lib/matchingPreferences';
+import { Block, subscribeToBlocks, unblockUser } from '../lib/blockService';
 
 interface ProfileProps {
     user: User;
@@ -13,11 +15,15 @@ const Profile: React.FC<ProfileProps> = ({ user }) => {
     const [avatarUrl, setAvatarUrl] = useState('');
     const [gender, setGender] = useState('');
     const [interests, setInterests] = useState('');
+    const [language, setLanguage] = useState('');
+    const [region, setRegion] = useState('');
     const [isEditing, setIsEditing] = useState(false);
     const [success, setSuccess] = useState(false);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [userProfile, setUserProfile] = useState<UserData | null>(null);
+    const [blocks, setBlocks] = useState<Block[]>([]);
+    const [blockedNames, setBlockedNames] = useState<{ [uid: string]: string }>({});
 
     // Load user data
     useEffect(() => {
@@ -30,6 +36,8 @@ const Profile: React.FC<ProfileProps> = ({ user }) => {
                     setAvatarUrl(userData.avatarUrl || '');
                     setGender(userData.gender || '');
                     setInterests(userData.interests || '');
+                    setLanguage(userData.language || '');
+                    setRegion(userData.region || '');
                 } else {
                     // If user doesn't exist, initialize with email
                     setUsername(user.displayName || user.email?.split('@')[0] || '');
@@ -46,6 +54,31 @@ const Profile: React.FC<ProfileProps> = ({ user }) => {
         loadUserData();
     }, [user]);
 
+    // Keep the block list current, with a name for each blocked user
+    useEffect(() => {
+        return subscribeToBlocks(user.uid, setBlocks);
+    }, [user]);
+
+    useEffect(() => {
+        blocks
+            .filter(block => !blockedNames[block.blockedId])
+            .forEach(block => {
+                getUserById(block.blockedId).then(profile => {
+                    setBlockedNames(prevNames => ({
+                        ...prevNames,
+                        [block.blockedId]: profile?.username || profile?.email || 'Unknown user'
+                    }));
+                });
+            });
+    }, [blocks]);
+
+    const handleUnblock = async (blockedId: string) => {
+        setError(null);
+        if (!await unblockUser(user.uid, blockedId)) {
+            setError('Failed to unblock user');
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
@@ -58,7 +91,9 @@ const Profile: React.FC<ProfileProps> = ({ user }) => {
                 username,
                 avatarUrl,
                 gender,
-                interests
+                interests,
+                language,
+                region
             });
 
             if (success) {
@@ -161,6 +196,36 @@ const Profile: React.FC<ProfileProps> = ({ user }) => {
                                 <option value="other">Other</option>
                             </select>
                         </div>
+
+                        <div>
+                            <label className="block text-gray-300 mb-2">Language</label>
+                            <select
+                                value={language}
+                                onChange={(e) => setLanguage(e.target.value)}
+                                disabled={!isEditing}
+                                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded text-white disabled:opacity-60"
+                            >
+                                <option value="">Not specified</option>
+                                {MATCH_LANGUAGES.map(option => (
+                                    <option key={option.code} value={option.code}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div>
+                            <label className="block text-gray-300 mb-2">Region</label>
+                            <select
+                                value={region}
+                                onChange={(e) => setRegion(e.target.value)}
+                                disabled={!isEditing}
+                                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded text-white disabled:opacity-60"
+                            >
+                                <option value="">Not specified</option>
+                                {MATCH_REGIONS.map(option => (
+                                    <option key={option.code} value={option.code}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
                     </div>
 
                     <div className="mb-6">
@@ -172,6 +237,15 @@ const Profile: React.FC<ProfileProps> = ({ user }) => {
                             className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded text-white h-32 disabled:opacity-60"
                             placeholder="Music, Travel, Movies, etc."
                         />
+                        {parseInterestTags(interests).length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                                {parseInterestTags(interests).map(tag => (
+                                    <span key={tag} className="px-2 py-1 bg-blue-600 text-white text-xs rounded-full">
+                                        #{tag}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
                     </div>
 
                     {isEditing && (
@@ -215,6 +289,34 @@ const Profile: React.FC<ProfileProps> = ({ user }) => {
                         </div>
                     </div>
                 )}
+
+                <div className="mt-8">
+                    <h3 className="text-xl font-semibold text-white mb-4">Blocked Users</h3>
+                    {blocks.length > 0 ? (
+                        <div className="bg-gray-700 rounded divide-y divide-gray-600">
+                            {blocks.map(block => (
+                                <div key={block.id} className="flex items-center justify-between p-4">
+                                    <div>
+                                        <p className="text-white">{blockedNames[block.blockedId] || 'Loading...'}</p>
+                                        <p className="text-gray-400 text-sm">
+                                            Blocked {block.createdAt.toDate().toLocaleDateString()}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => handleUnblock(block.blockedId)}
+                                        className="px-3 py-1 bg-gray-600 text-white rounded text-sm hover:bg-gray-500 transition"
+                                    >
+                                        Unblock
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-gray-400">
+                            You haven't blocked anyone. Blocked users are never matched with you and can't call you.
+                        </p>
+                    )}
+                </div>
             </div>
         </div>
     );
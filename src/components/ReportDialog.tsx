@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { REPORT_CATEGORIES, ReportCategory } from '../lib/reportService';
+
+export interface ReportSubmission {
+    category: ReportCategory;
+    reason: string;
+    includeChat: boolean;
+    includeSnapshot: boolean;
+}
+
+interface ReportDialogProps {
+    partnerName: string;
+    // Frame of the partner's video taken when the dialog opened
+    snapshot: string | null;
+    chatMessageCount: number;
+    onSubmit: (submission: ReportSubmission) => Promise<boolean>;
+    onCancel: () => void;
+}
+
+const ReportDialog: React.FC<ReportDialogProps> = ({ partnerName, snapshot, chatMessageCount, onSubmit, onCancel }) => {
+    const [category, setCategory] = useState<ReportCategory | ''>('');
+    const [reason, setReason] = useState('');
+    const [includeChat, setIncludeChat] = useState(chatMessageCount > 0);
+    const [includeSnapshot, setIncludeSnapshot] = useState(!!snapshot);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!category) {
+            setError('Please choose what went wrong.');
+            return;
+        }
+
+        setSubmitting(true);
+        setError(null);
+        if (!await onSubmit({ category, reason: reason.trim(), includeChat, includeSnapshot })) {
+            setError('Failed to send the report. Please try again.');
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+            <form onSubmit={handleSubmit} className="bg-gray-800 rounded-xl shadow-2xl p-6 w-full max-w-md">
+                <h3 className="text-xl font-bold text-white mb-4">Report {partnerName}</h3>
+
+                <label className="block text-gray-300 mb-2">What happened?</label>
+                <select
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value as ReportCategory)}
+                    className="w-full px-3 py-2 mb-4 bg-gray-700 border border-gray-600 rounded text-white"
+                >
+                    <option value="">Choose a category</option>
+                    {REPORT_CATEGORIES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+
+                <label className="block text-gray-300 mb-2">Details (optional)</label>
+                <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    maxLength={1000}
+                    rows={3}
+                    className="w-full px-3 py-2 mb-4 bg-gray-700 border border-gray-600 rounded text-white"
+                />
+
+                <label className="flex items-center text-sm text-gray-300 mb-2">
+                    <input
+                        type="checkbox"
+                        checked={includeChat}
+                        onChange={(e) => setIncludeChat(e.target.checked)}
+                        disabled={chatMessageCount === 0}
+                        className="mr-2"
+                    />
+                    Include the recent chat messages (never the off-the-record ones)
+                </label>
+                <label className="flex items-center text-sm text-gray-300 mb-2">
+                    <input
+                        type="checkbox"
+                        checked={includeSnapshot}
+                        onChange={(e) => setIncludeSnapshot(e.target.checked)}
+                        disabled={!snapshot}
+                        className="mr-2"
+                    />
+                    Include a snapshot of their video
+                </label>
+                {snapshot && includeSnapshot && (
+                    <img src={snapshot} alt="Snapshot of the partner's video" className="w-40 rounded mb-2" />
+                )}
+                <p className="text-xs text-gray-400 mb-4">Only moderators can see your report.</p>
+
+                {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+                <div className="flex justify-end space-x-2">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={submitting}
+                        className="px-4 py-2 bg-yellow-600 text-white rounded hover:bg-yellow-700 transition disabled:opacity-60"
+                    >
+                        {submitting ? 'Sending...' : 'Send Report'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default ReportDialog;
@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { User } from 'firebase/auth';
+import { UserData } from '../lib/userService';
+import {
+    addReportNote,
+    Report,
+    REPORT_CATEGORIES,
+    ReportStatus,
+    subscribeToReports,
+    updateReportStatus
+} from '../lib/reportService';
+import SanctionPanel from './SanctionPanel';
+
+interface ReportQueueProps {
+    user: User;
+    users: UserData[];
+}
+
+const STATUS_FILTERS: { value: ReportStatus | 'all'; label: string }[] = [
+    { value: 'pending', label: 'Pending' },
+    { value: 'reviewed', label: 'Reviewed' },
+    { value: 'actioned', label: 'Actioned' },
+    { value: 'rejected', label: 'Rejected' },
+    { value: 'all', label: 'All' }
+];
+
+const STATUS_BADGES: Record<ReportStatus, string> = {
+    pending: 'bg-yellow-500 text-black',
+    reviewed: 'bg-blue-500',
+    actioned: 'bg-green-500',
+    rejected: 'bg-gray-500'
+};
+
+// The moderator queue: triage reports, keep notes and record what was done
+const ReportQueue: React.FC<ReportQueueProps> = ({ user, users }) => {
+    const [statusFilter, setStatusFilter] = useState<ReportStatus | 'all'>('pending');
+    const [reports, setReports] = useState<Report[]>([]);
+    const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
+    const [noteDraft, setNoteDraft] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        return subscribeToReports(setReports, statusFilter === 'all' ? undefined : statusFilter);
+    }, [statusFilter]);
+
+    const displayName = (uid: string) => {
+        const profile = users.find(u => u.uid === uid);
+        return profile?.username || profile?.email || uid;
+    };
+
+    const categoryLabel = (report: Report) =>
+        REPORT_CATEGORIES.find(option => option.value === report.category)?.label || 'Uncategorized';
+
+    const handleStatusChange = async (report: Report, status: ReportStatus) => {
+        setError(null);
+        if (!await updateReportStatus(report.id, status, user.uid)) {
+            setError('Failed to update the report. Please try again.');
+        }
+    };
+
+    // A sanction issued from a report closes it, with a note saying what was done
+    const handleSanctionIssued = async (report: Report, summary: string) => {
+        setError(null);
+        const saved = await addReportNote(report.id, user.uid, `Action: ${summary}`)
+            && await updateReportStatus(report.id, 'actioned', user.uid);
+        if (!saved) {
+            setError('The sanction was issued, but the report could not be updated.');
+        }
+    };
+
+    const reportedUser = (report: Report): UserData =>
+        users.find(u => u.uid === report.reportedUserId) || { uid: report.reportedUserId, email: '' };
+
+    const handleAddNote = async (e: React.FormEvent, report: Report) => {
+        e.preventDefault();
+        if (!noteDraft.trim()) return;
+
+        setError(null);
+        if (await addReportNote(report.id, user.uid, noteDraft.trim())) {
+            setNoteDraft('');
+        } else {
+            setError('Failed to add the note. Please try again.');
+        }
+    };
+
+    const renderReportDetails = (report: Report) => (
+        <div className="p-4 bg-gray-800 space-y-4">
+            <div>
+                <h4 className="font-medium mb-1">Details</h4>
+                <p className="text-gray-300 whitespace-pre-wrap">{report.reason || 'No details given'}</p>
+                {report.evidence?.roomId && (
+                    <p className="text-gray-400 text-sm mt-1">Room: {report.evidence.roomId}</p>
+                )}
+            </div>
+
+            {report.evidence?.chatExcerpt && report.evidence.chatExcerpt.length > 0 && (
+                <div>
+                    <h4 className="font-medium mb-1">Recent chat <span className="text-gray-400 text-sm font-normal">(submitted by reporter, unverified)</span></h4>
+                    <div className="bg-gray-700 rounded p-3 space-y-1 max-h-60 overflow-y-auto text-sm">
+                        {report.evidence.chatExcerpt.map((line, index) => (
+                            <p key={index}>
+                                <span className="text-gray-400">
+                                    {new Date(line.sentAt).toLocaleTimeString()} {displayName(line.senderId)}:
+                                </span>{' '}
+                                {line.content}
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {report.evidence?.snapshot && (
+                <div>
+                    <h4 className="font-medium mb-1">Video snapshot <span className="text-gray-400 text-sm font-normal">(submitted by reporter, unverified)</span></h4>
+                    <img src={report.evidence.snapshot} alt="Reported user's video" className="w-64 rounded" />
+                </div>
+            )}
+
+            <div>
+                <h4 className="font-medium mb-1">Notes</h4>
+                {report.notes && report.notes.length > 0 ? (
+                    <ul className="space-y-1 text-sm mb-2">
+                        {report.notes.map((note, index) => (
+                            <li key={index} className="text-gray-300">
+                                <span className="text-gray-400">
+                                    {note.createdAt.toDate().toLocaleString()} {displayName(note.adminId)}:
+                                </span>{' '}
+                                {note.text}
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-gray-400 text-sm mb-2">No notes yet</p>
+                )}
+                <form onSubmit={(e) => handleAddNote(e, report)} className="flex">
+                    <input
+                        type="text"
+                        value={noteDraft}
+                        onChange={(e) => setNoteDraft(e.target.value)}
+                        placeholder="Add a note"
+                        className="flex-1 px-3 py-2 bg-gray-600 text-white rounded-l"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!noteDraft.trim()}
+                        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-r disabled:opacity-50"
+                    >
+                        Add Note
+                    </button>
+                </form>
+            </div>
+
+            <div className="flex space-x-2">
+                <button
+                    onClick={() => handleStatusChange(report, 'reviewed')}
+                    disabled={report.status === 'reviewed'}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm disabled:opacity-50"
+                >
+                    Mark Reviewed
+                </button>
+                <button
+                    onClick={() => handleStatusChange(report, 'rejected')}
+                    disabled={report.status === 'rejected'}
+                    className="bg-gray-600 hover:bg-gray-500 text-white px-3 py-1 rounded text-sm disabled:opacity-50"
+                >
+                    Reject
+                </button>
+            </div>
+
+            <div>
+                <h4 className="font-medium mb-1">Take action against {displayName(report.reportedUserId)}</h4>
+                <SanctionPanel
+                    user={user}
+                    target={reportedUser(report)}
+                    reportId={report.id}
+                    onIssued={(sanctionId, summary) => handleSanctionIssued(report, summary)}
+                />
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold">
+                    Reports ({reports.length})
+                </h2>
+                <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as ReportStatus | 'all')}
+                    className="px-3 py-2 bg-gray-600 text-white rounded"
+                >
+                    {STATUS_FILTERS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {error && <div className="p-4 rounded mb-4 bg-red-500">{error}</div>}
+
+            <div className="overflow-x-auto">
+                <table className="min-w-full bg-gray-700 rounded">
+                    <thead>
+                        <tr>
+                            <th className="px-4 py-2 text-left">Reported</th>
+                            <th className="px-4 py-2 text-left">Category</th>
+                            <th className="px-4 py-2 text-left">Reported User</th>
+                            <th className="px-4 py-2 text-left">Reporter</th>
+                            <th className="px-4 py-2 text-left">Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {reports.length === 0 ? (
+                            <tr>
+                                <td colSpan={5} className="px-4 py-4 text-center">No reports found</td>
+                            </tr>
+                        ) : (
+                            reports.map(report => (
+                                <React.Fragment key={report.id}>
+                                    <tr
+                                        onClick={() => {
+                                            setSelectedReportId(selectedReportId === report.id ? null : report.id);
+                                            setNoteDraft('');
+                                        }}
+                                        className="border-t border-gray-600 cursor-pointer hover:bg-gray-600"
+                                    >
+                                        <td className="px-4 py-2">{report.timestamp.toDate().toLocaleString()}</td>
+                                        <td className="px-4 py-2">{categoryLabel(report)}</td>
+                                        <td className="px-4 py-2">{displayName(report.reportedUserId)}</td>
+                                        <td className="px-4 py-2">{displayName(report.reporterId)}</td>
+                                        <td className="px-4 py-2">
+                                            <span className={`px-2 py-1 rounded-full text-xs ${STATUS_BADGES[report.status]}`}>
+                                                {report.status}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                    {selectedReportId === report.id && (
+                                        <tr>
+                                            <td colSpan={5}>{renderReportDetails(report)}</td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default ReportQueue;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { User } from 'firebase/auth';
+import { UserData } from '../lib/userService';
+import {
+    issueSanction,
+    revokeSanction,
+    Sanction,
+    SanctionType,
+    subscribeToSanctions,
+    SUSPENSION_DURATIONS
+} from '../lib/sanctionService';
+
+interface SanctionPanelProps {
+    user: User;
+    target: UserData;
+    // Set when acting on a report, so the sanction links back to it
+    reportId?: string;
+    onIssued?: (sanctionId: string, summary: string) => void;
+}
+
+const SANCTION_LABELS: Record<SanctionType, string> = {
+    warning: 'Warning',
+    suspension: 'Suspension',
+    ban: 'Ban'
+};
+
+// A user's sanction history, with controls to issue and revoke sanctions
+const SanctionPanel: React.FC<SanctionPanelProps> = ({ user, target, reportId, onIssued }) => {
+    const [sanctions, setSanctions] = useState<Sanction[]>([]);
+    const [type, setType] = useState<SanctionType>('warning');
+    const [durationMs, setDurationMs] = useState(SUSPENSION_DURATIONS[0].ms);
+    const [reason, setReason] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        return subscribeToSanctions(target.uid, setSanctions);
+    }, [target.uid]);
+
+    const handleIssue = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!reason.trim()) {
+            setError('Please give a reason the user will see.');
+            return;
+        }
+        if (type === 'ban' && !window.confirm(`Permanently ban ${target.username || target.email}?`)) {
+            return;
+        }
+
+        setSaving(true);
+        setError(null);
+        const sanctionId = await issueSanction({
+            userId: target.uid,
+            type,
+            reason: reason.trim(),
+            issuedBy: user.uid,
+            ...(type === 'suspension' ? { durationMs } : {}),
+            ...(reportId ? { reportId } : {})
+        });
+        setSaving(false);
+
+        if (!sanctionId) {
+            setError('Failed to issue the sanction. Please try again.');
+            return;
+        }
+
+        const duration = SUSPENSION_DURATIONS.find(option => option.ms === durationMs)?.label;
+        setReason('');
+        onIssued?.(sanctionId, type === 'suspension'
+            ? `${SANCTION_LABELS[type]} (${duration}): ${reason.trim()}`
+            : `${SANCTION_LABELS[type]}: ${reason.trim()}`);
+    };
+
+    const handleRevoke = async (sanction: Sanction) => {
+        if (!window.confirm(`Revoke this ${SANCTION_LABELS[sanction.type].toLowerCase()}?`)) return;
+
+        setError(null);
+        if (!await revokeSanction(sanction, user.uid)) {
+            setError('Failed to revoke the sanction. Please try again.');
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <h4 className="font-medium mb-1">Sanction history</h4>
+                {sanctions.length > 0 ? (
+                    <ul className="space-y-1 text-sm">
+                        {sanctions.map(sanction => (
+                            <li key={sanction.id} className="flex items-center justify-between">
+                                <span className={sanction.revokedAt ? 'text-gray-500 line-through' : 'text-gray-300'}>
+                                    {sanction.issuedAt.toDate().toLocaleString()} · {SANCTION_LABELS[sanction.type]}
+                                    {sanction.expiresAt && ` until ${sanction.expiresAt.toDate().toLocaleString()}`}
+                                    {' · '}{sanction.reason}
+                                    {sanction.type === 'warning' && !sanction.revokedAt && (sanction.acknowledgedAt ? ' (seen)' : ' (not seen yet)')}
+                                </span>
+                                {!sanction.revokedAt && (
+                                    <button
+                                        onClick={() => handleRevoke(sanction)}
+                                        className="ml-2 text-blue-400 hover:text-blue-300 underline"
+                                    >
+                                        Revoke
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-gray-400 text-sm">No sanctions</p>
+                )}
+            </div>
+
+            <form onSubmit={handleIssue} className="flex flex-wrap items-center gap-2">
+                <select
+                    value={type}
+                    onChange={(e) => setType(e.target.value as SanctionType)}
+                    className="px-3 py-2 bg-gray-600 text-white rounded"
+                >
+                    <option value="warning">Warn</option>
+                    <option value="suspension">Suspend</option>
+                    <option value="ban">Ban</option>
+                </select>
+                {type === 'suspension' && (
+                    <select
+                        value={durationMs}
+                        onChange={(e) => setDurationMs(Number(e.target.value))}
+                        className="px-3 py-2 bg-gray-600 text-white rounded"
+                    >
+                        {SUSPENSION_DURATIONS.map(option => (
+                            <option key={option.ms} value={option.ms}>{option.label}</option>
+                        ))}
+                    </select>
+                )}
+                <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason shown to the user"
+                    className="flex-1 px-3 py-2 bg-gray-600 text-white rounded"
+                />
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded disabled:opacity-50"
+                >
+                    {saving ? 'Saving...' : 'Apply'}
+                </button>
+            </form>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+export default SanctionPanel;
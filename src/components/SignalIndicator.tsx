@@ -0,0 +1,37 @@
+import React from 'react';
+import { MAX_SIGNAL_BARS } from '../lib/callStats';
+
+interface SignalIndicatorProps {
+    // From signalBars(); null while there is nothing to go on yet
+    bars: number | null;
+    expanded: boolean;
+    onToggle: () => void;
+}
+
+const LABELS = ['Poor', 'Fair', 'Good', 'Excellent'];
+const COLORS = ['bg-red-500', 'bg-orange-400', 'bg-yellow-400', 'bg-green-500'];
+
+// Signal-strength bars for the call bar; clicking them opens the connection stats
+const SignalIndicator: React.FC<SignalIndicatorProps> = ({ bars, expanded, onToggle }) => {
+    const label = bars === null ? 'Measuring connection…' : `${LABELS[bars - 1]} connection`;
+
+    return (
+        <button
+            onClick={onToggle}
+            title={`${label}. ${expanded ? 'Hide' : 'Show'} connection stats`}
+            aria-label={label}
+            aria-expanded={expanded}
+            className="flex items-end h-4 space-x-0.5 px-1 rounded hover:bg-gray-700 transition"
+        >
+            {Array.from({ length: MAX_SIGNAL_BARS }, (_, index) => (
+                <span
+                    key={index}
+                    className={`w-1 rounded-sm ${bars !== null && index < bars ? COLORS[bars - 1] : 'bg-gray-600'}`}
+                    style={{ height: `${((index + 1) / MAX_SIGNAL_BARS) * 100}%` }}
+                />
+            ))}
+        </button>
+    );
+};
+
+export default SignalIndicator;
@@ -2,35 +2,80 @@
 /* eslint-disable react-hooks/exhaustive-deps */
 import React, { useState, useEffect, useRef } from 'react';
 import { User } from 'firebase/auth';
+import { useLocation, useNavigate } from 'react-router-dom';
 import {
-    updateUserOnlineStatus,
-    getAllUsers,
+    getOnlineUsers,
     UserData,
-    setAllUsersOnline,
-    subscribeToUsers
+    subscribeToOnlineUsers,
+    getUserById
 } from '../lib/userService';
 import {
     createRoom,
-    updateRoomStatus,
-    sendChatMessage,
-    getChatMessagesForRoom,
-    subscribeToChatMessages,
-    ChatMessage,
-    addOfferToRoom,
-    addAnswerToRoom,
-    addIceCandidate,
-    subscribeToRoom,
-    subscribeToIceCandidates,
-    Room,
-    subscribeToRoomMessages,
-    subscribeToOffers,
-    subscribeToAnswers,
-    subscribeToUserIceCandidates,
-    findOrCreateRoom,
-    createRoomWithUser
+    endRoom,
+    RoomEndReason,
+    startRoomHeartbeat,
+    subscribeToRoom
 } from '../lib/roomService';
-import { reportUser } from '../lib/reportService';
+import { startMatchmaking, buildMatchCriteria, MatchmakingHandle, MatchResult } from '../lib/matchmakingService';
+import {
+    MatchPreferences,
+    GenderPreference,
+    DEFAULT_MATCH_PREFERENCES,
+    MATCH_LANGUAGES,
+    MATCH_REGIONS
+} from '../lib/matchingPreferences';
+import { buildChatExcerpt, captureVideoSnapshot, ReportChatLine, reportUser } from '../lib/reportService';
+import { blockUser, getBlockedUserIds } from '../lib/blockService';
+import { isSuspended } from '../lib/sanctionService';
+import { FILE_CHANNEL_LABEL, MEDIA_CHANNEL_LABEL, PeerSession } from '../lib/peerSession';
+import { DEFAULT_MEDIA_STATE, MediaState, MediaStateChannel } from '../lib/mediaStateChannel';
+import {
+    AvailableDevices,
+    chooseDevice,
+    devicesFor,
+    listDevices,
+    loadDevicePreferences,
+    MediaDevicePreferences,
+    MediaDeviceRole,
+    NO_DEVICES,
+    openMediaStream,
+    preferredDeviceId,
+    saveDevicePreferences,
+    setSpeaker,
+    subscribeToDeviceChanges,
+    switchDevice,
+    withPreferredDevice
+} from '../lib/mediaDevices';
+import { explainMediaError, isMediaAccessError, MediaErrorExplanation } from '../lib/mediaDiagnostics';
+import {
+    loadQualityPreset,
+    QUALITY_PRESETS,
+    QualityController,
+    QualityPreset,
+    saveQualityPreset
+} from '../lib/qualityController';
+import { CallStats, CallStatsMonitor, signalBars } from '../lib/callStats';
+import { FirestoreSignalingTransport } from '../lib/firestoreSignaling';
+import {
+    canModifyChatMessage,
+    ChatChannel,
+    ChatChannelMessage,
+    ChatDeliveryStatus,
+    CHAT_REACTIONS
+} from '../lib/chatChannel';
+import { FirestoreChatStore } from '../lib/firestoreChatStore';
+import { DEFAULT_FILE_TRANSFER_LIMITS, FileTransfer, FileTransferChannel } from '../lib/fileTransfer';
+import { createChatModeration, DEFAULT_ROOM_CONTENT_POLICY } from '../lib/moderationService';
+import { getRtcConfiguration, RelayUnavailableError } from '../lib/iceConfig';
+import { Friendship, getFriendshipId, sendFriendRequest, subscribeToFriendships } from '../lib/friendService';
+import { CallEndStatus, CallHandle, startCall } from '../lib/callService';
 import LoadingSpinner from './LoadingSpinner';
+import FriendsList from './FriendsList';
+import ReportDialog, { ReportSubmission } from './ReportDialog';
+import DeviceSettings from './DeviceSettings';
+import PreCallLobby from './PreCallLobby';
+import SignalIndicator from './SignalIndicator';
+import CallStatsPanel from './CallStatsPanel';
 
 interface VideoChatProps {
     user: User;
@@ -41,14 +86,37 @@ enum ChatState {
     IDLE = 'idle',
     SEARCHING = 'searching',
     CONNECTED = 'connected',
+    RECONNECTING = 'reconnecting',
 }
 
+const DELIVERY_STATUS_LABELS: Record<ChatDeliveryStatus, string> = {
+    sending: 'Sending…',
+    delivered: 'Delivered',
+    stored: 'Sent',
+    read: 'Seen',
+    failed: 'Not delivered'
+};
+
+// A file shared in the chat, with an object URL once its contents are available
+type SharedFile = FileTransfer & { url?: string };
+
+// Chat panel entries, messages and files interleaved by time
+type ChatItem =
+    | { kind: 'message'; sentAt: number; message: ChatChannelMessage }
+    | { kind: 'file'; sentAt: number; file: SharedFile };
+
 const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
     const [chatState, setChatState] = useState<ChatState>(ChatState.IDLE);
     const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
     const [partnerProfile, setPartnerProfile] = useState<UserData | null>(null);
     const [message, setMessage] = useState('');
-    const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+    const [chatMessages, setChatMessages] = useState<ChatChannelMessage[]>([]);
+    const [ephemeralChat, setEphemeralChat] = useState(false);
+    const [partnerTyping, setPartnerTyping] = useState(false);
+    const [sharedFiles, setSharedFiles] = useState<SharedFile[]>([]);
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+    const [editDraft, setEditDraft] = useState('');
+    const [reactionPickerId, setReactionPickerId] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [availableUsers, setAvailableUsers] = useState<UserData[]>([]);
     const [isInitiator, setIsInitiator] = useState(false);
@@ -58,45 +126,71 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
     const [partnerUid, setPartnerUid] = useState<string | null>(null);
     const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
     const [isSearching, setIsSearching] = useState(false);
+    const [matchPreferences, setMatchPreferences] = useState<MatchPreferences>(DEFAULT_MATCH_PREFERENCES);
+    const [privacyMode, setPrivacyMode] = useState(false);
+    const [reconnectAttempt, setReconnectAttempt] = useState<{ attempt: number; maxAttempts: number } | null>(null);
+    const [friendships, setFriendships] = useState<Friendship[]>([]);
+    // Evidence captured the moment the user opened the report dialog
+    const [reportDraft, setReportDraft] = useState<{
+        partner: UserData;
+        roomId: string | null;
+        snapshot: string | null;
+        chatExcerpt: ReportChatLine[];
+    } | null>(null);
+    // Name of the friend we are ringing, while they have not answered yet
+    const [callingName, setCallingName] = useState<string | null>(null);
+    const [screenSharing, setScreenSharing] = useState(false);
+    const [partnerMediaState, setPartnerMediaState] = useState<MediaState>(DEFAULT_MEDIA_STATE);
+    const [audioMuted, setAudioMuted] = useState(false);
+    const [videoOff, setVideoOff] = useState(false);
+    const [devices, setDevices] = useState<AvailableDevices>(NO_DEVICES);
+    const [devicePreferences, setDevicePreferences] = useState<MediaDevicePreferences>(loadDevicePreferences);
+    const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+    // Why the camera or microphone could not be opened, shown in the lobby
+    const [mediaError, setMediaError] = useState<MediaErrorExplanation | null>(null);
+    // The microphone the lobby's level meter listens to
+    const [localAudioTrack, setLocalAudioTrack] = useState<MediaStreamTrack | null>(null);
+    const [qualityPreset, setQualityPreset] = useState<QualityPreset>(loadQualityPreset);
+    const [callStats, setCallStats] = useState<CallStats | null>(null);
+    const [showCallStats, setShowCallStats] = useState(false);
 
     const localVideoRef = useRef<HTMLVideoElement>(null);
     const remoteVideoRef = useRef<HTMLVideoElement>(null);
-    const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+    const sessionRef = useRef<PeerSession | null>(null);
+    const chatChannelRef = useRef<ChatChannel | null>(null);
+    const fileChannelRef = useRef<FileTransferChannel | null>(null);
+    const mediaStateChannelRef = useRef<MediaStateChannel | null>(null);
+    const qualityControllerRef = useRef<QualityController | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // The current room's rules for links, emails and phone numbers in chat
+    const contentPolicyRef = useRef(DEFAULT_ROOM_CONTENT_POLICY);
+    // Object URLs created for shared files, revoked when the chat ends
+    const fileUrlsRef = useRef(new Map<string, string>());
     const localStreamRef = useRef<MediaStream | null>(null);
-    const chatMessagesUnsubscribeRef = useRef<(() => void) | null>(null);
+    // Set while the camera and microphone are being requested
+    const openingStreamRef = useRef<Promise<MediaStream> | null>(null);
+    // The shared screen, sent in place of the camera while it lasts
+    const screenStreamRef = useRef<MediaStream | null>(null);
     const usersUnsubscribeRef = useRef<(() => void) | null>(null);
-    const roomUnsubscribeRef = useRef<(() => void) | null>(null);
-    const iceCandidatesUnsubscribeRef = useRef<(() => void) | null>(null);
-    const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
     const unsubscribeRefs = useRef<(() => void)[]>([]);
+    const matchmakingRef = useRef<MatchmakingHandle | null>(null);
+    // Mirrors currentRoomId for callbacks and cleanup that would otherwise see a stale value
+    const roomIdRef = useRef<string | null>(null);
+    // The friend we are ringing, until they answer
+    const outgoingCallRef = useRef<CallHandle | null>(null);
+
+    const location = useLocation();
+    const navigate = useNavigate();
 
     // Add this as a function before the first useEffect
     const initializeLocalVideo = async () => {
         try {
             console.log("Initializing local video stream");
-            const constraints = {
-                audio: true,
-                video: {
-                    width: { ideal: 640 },
-                    height: { ideal: 480 }
-                }
-            };
-
-            const stream = await navigator.mediaDevices.getUserMedia(constraints);
-            localStreamRef.current = stream;
-
-            if (localVideoRef.current) {
-                localVideoRef.current.srcObject = stream;
-                console.log("Setting local video stream");
-                await localVideoRef.current.play().catch(err => {
-                    console.error("Error playing local video:", err);
-                });
-            }
-
+            await openLocalStream();
             console.log("Local video initialized successfully");
         } catch (error) {
+            // The lobby explains what went wrong and how to fix it
             console.error('Error accessing media devices:', error);
-            setError('Camera or microphone access denied. Please check your permissions.');
         }
     };
 
@@ -104,9 +198,9 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
     const fetchAvailableUsers = async () => {
         try {
             console.log("Fetching available users");
-            const users = await getAllUsers();
-            // Filter out current user
-            const filteredUsers = users.filter(u => u.uid !== user.uid);
+            const [users, blockedIds] = await Promise.all([getOnlineUsers(), getBlockedUserIds(user.uid)]);
+            // Filter out current user and anyone they blocked
+            const filteredUsers = users.filter(u => u.uid !== user.uid && !blockedIds.includes(u.uid));
             setAvailableUsers(filteredUsers);
             console.log(`Found ${filteredUsers.length} available users`);
         } catch (error) {
@@ -117,29 +211,20 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
 
     // Update the main useEffect that runs on component mount
     useEffect(() => {
-        // Set user online status when component mounts
-        const setUserOnline = async () => {
-            if (user?.uid) {
-                await updateUserOnlineStatus(user.uid, true);
-                console.log("User set as online:", user.uid);
-            }
-        };
-
-        // Initialize component
+        // Initialize component. Online status is kept up by the presence heartbeat in App.
         const initialize = async () => {
-            await setUserOnline();
             await initializeLocalVideo();
             fetchAvailableUsers();
         };
 
         initialize();
 
-        // Set up subscription to users
-        const unsubUsers = subscribeToUsers((users) => {
+        // Set up subscription to online users
+        const unsubUsers = subscribeToOnlineUsers((users) => {
             const filteredUsers = users.filter(u => u.uid !== user?.uid);
             setAvailableUsers(filteredUsers);
             setIsLoading(false);
-        });
+        }, user.uid);
 
         // Clean up on unmount
         return () => {
@@ -149,144 +234,106 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
             endChat();
 
             // Stop local stream tracks
-            if (localStreamRef.current) {
-                localStreamRef.current.getTracks().forEach(track => {
-                    track.stop();
-                });
-                localStreamRef.current = null;
-            }
+            stopLocalStream();
 
             // Unsubscribe from users
             if (unsubUsers) unsubUsers();
         };
     }, [user]);
 
-    // Remove the duplicate initializeLocalVideo inside the useEffect
     useEffect(() => {
-        if (chatState === ChatState.IDLE) {
-            stopLocalStream();
-            return;
-        }
-
-        initializeLocalVideo();
-    }, [chatState]);
+        return subscribeToFriendships(user.uid, setFriendships);
+    }, [user]);
 
-    // Subscribe to chat messages when connected
+    // Follow devices being plugged in and out: move to the preferred camera or microphone
+    // when it appears, and off one that disappeared
     useEffect(() => {
-        if (chatState === ChatState.CONNECTED && currentRoomId) {
-            // Initial fetch
-            getChatMessagesForRoom(currentRoomId).then(messages => {
-                setChatMessages(messages);
-            });
+        return subscribeToDeviceChanges(async (available) => {
+            setDevices(available);
 
-            // Subscribe to real-time updates
-            const unsubscribe = subscribeToChatMessages(currentRoomId, (messages) => {
-                setChatMessages(messages);
-            });
+            const stream = localStreamRef.current;
+            if (!stream) return;
 
-            chatMessagesUnsubscribeRef.current = unsubscribe;
-        }
+            const preferences = loadDevicePreferences();
+            for (const role of ['camera', 'microphone'] as const) {
+                const track = role === 'camera' ? stream.getVideoTracks()[0] : stream.getAudioTracks()[0];
+                const currentId = track?.readyState === 'live' ? track.getSettings().deviceId : undefined;
+                const deviceId = chooseDevice(devicesFor(available, role), preferredDeviceId(preferences, role), currentId);
 
-        return () => {
-            if (chatMessagesUnsubscribeRef.current) {
-                chatMessagesUnsubscribeRef.current();
+                if (deviceId && deviceId !== currentId) {
+                    console.log(`Devices changed, switching ${role}`);
+                    await switchLocalDevice(role, deviceId);
+                }
             }
-        };
-    }, [chatState, currentRoomId]);
+        });
+    }, []);
 
-    // Subscribe to room changes for WebRTC signaling
+    // The partner is heard through the chosen speaker
     useEffect(() => {
-        if (currentRoomId && chatState === ChatState.CONNECTED) {
-            // Subscribe to the room for SDP offer/answer exchange
-            const unsubscribeRoom = subscribeToRoom(currentRoomId, (room) => {
-                if (!room) return;
+        if (remoteVideoRef.current) {
+            setSpeaker(remoteVideoRef.current, devicePreferences.speakerId);
+        }
+    }, [devicePreferences.speakerId]);
 
-                handleRoomSignaling(room);
-            });
+    // A call accepted from the ringing modal arrives with the navigation to this page
+    useEffect(() => {
+        const acceptedCall = (location.state as { acceptedCall?: MatchResult } | null)?.acceptedCall;
+        if (!acceptedCall) return;
 
-            // Subscribe to ICE candidates
-            const unsubscribeICE = subscribeToIceCandidates(
-                currentRoomId,
-                user.uid,
-                (candidates) => {
-                    if (!peerConnectionRef.current) return;
-
-                    candidates.forEach(async (candidate) => {
-                        try {
-                            if (candidate.candidate && peerConnectionRef.current) {
-                                await peerConnectionRef.current.addIceCandidate(
-                                    new RTCIceCandidate(candidate.candidate)
-                                );
-                                console.log("Added remote ICE candidate");
-                            }
-                        } catch (err) {
-                            console.error("Error adding received ice candidate", err);
-                        }
-                    });
-                }
-            );
+        // Consume it so going back or reloading does not join the room again
+        navigate(location.pathname, { replace: true, state: null });
+        joinAcceptedCall(acceptedCall);
+    }, [location.state]);
 
-            roomUnsubscribeRef.current = unsubscribeRoom;
-            iceCandidatesUnsubscribeRef.current = unsubscribeICE;
-        }
+    // Closing the tab ends the room right away instead of waiting for its heartbeat to lapse
+    useEffect(() => {
+        if (!currentRoomId) return;
 
-        return () => {
-            if (roomUnsubscribeRef.current) {
-                roomUnsubscribeRef.current();
-            }
-            if (iceCandidatesUnsubscribeRef.current) {
-                iceCandidatesUnsubscribeRef.current();
-            }
+        const handleBeforeUnload = () => {
+            endRoom(currentRoomId, 'hangup', user.uid);
         };
-    }, [currentRoomId, chatState, user.uid]);
 
-    const handleRoomSignaling = async (room: Room) => {
-        if (!peerConnectionRef.current) return;
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [currentRoomId]);
 
-        try {
-            // If we are the initiator and there's an answer, set the remote description
-            if (isInitiator && room.answer && !peerConnectionRef.current.currentRemoteDescription) {
-                console.log("Setting remote description with answer", room.answer);
-                await peerConnectionRef.current.setRemoteDescription(new RTCSessionDescription(room.answer));
+    // Send read receipts for whatever the user can actually see
+    useEffect(() => {
+        const markRead = () => {
+            if (document.visibilityState === 'visible') {
+                chatChannelRef.current?.markRead();
             }
+        };
 
-            // If we are not the initiator and there's an offer, create and send an answer
-            if (!isInitiator && room.offer && !peerConnectionRef.current.currentRemoteDescription) {
-                console.log("Setting remote description with offer", room.offer);
-                await peerConnectionRef.current.setRemoteDescription(new RTCSessionDescription(room.offer));
-
-                console.log("Creating answer");
-                const answer = await peerConnectionRef.current.createAnswer();
-                await peerConnectionRef.current.setLocalDescription(answer);
+        markRead();
+        document.addEventListener('visibilitychange', markRead);
+        return () => document.removeEventListener('visibilitychange', markRead);
+    }, [chatMessages]);
 
-                // Send the answer to the other peer
-                if (currentRoomId) {
-                    await addAnswerToRoom(currentRoomId, answer);
-                    console.log("Answer sent to room");
-                }
-            }
-        } catch (err) {
-            console.error("Error in handleRoomSignaling:", err);
-            setError("Error establishing video connection. Please try again.");
+    // The lobby previews the camera between chats, so keep it open on this page
+    useEffect(() => {
+        if (!localStreamRef.current) {
+            initializeLocalVideo();
         }
-    };
+    }, [chatState]);
 
-    const startRandomChat = async () => {
-        setIsChatting(true);
-        setIsSearching(true);
-        setChatMessages([]);
-        setError(null);
+    // Make sure we have access to camera and mic before joining a room. Callers asking
+    // at the same time share one request, so the camera is never opened twice.
+    const openLocalStream = (preferences: MediaDevicePreferences = devicePreferences): Promise<MediaStream> => {
+        if (localStreamRef.current) return Promise.resolve(localStreamRef.current);
+        if (openingStreamRef.current) return openingStreamRef.current;
 
-        try {
-            // Make sure we have access to camera and mic first
-            if (!localStreamRef.current) {
+        const opening = (async () => {
+            try {
                 console.log("Getting local media stream");
-                const stream = await navigator.mediaDevices.getUserMedia({
-                    video: true,
-                    audio: true
-                });
+                const stream = await openMediaStream(preferences);
 
                 localStreamRef.current = stream;
+                setLocalAudioTrack(stream.getAudioTracks()[0] || null);
+                applyCapturePreset(loadQualityPreset());
+                setMediaError(null);
+                // Device names are only available once access has been granted
+                listDevices().then(setDevices);
 
                 if (localVideoRef.current) {
                     localVideoRef.current.srcObject = stream;
@@ -294,64 +341,394 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
                         console.error("Error playing local video:", err);
                     });
                 }
+                return stream;
+            } catch (error) {
+                setMediaError(explainMediaError(error));
+                throw error;
+            } finally {
+                openingStreamRef.current = null;
             }
+        })();
+
+        openingStreamRef.current = opening;
+        return opening;
+    };
+
+    // Try the camera again from the lobby, dropping device choices it could not satisfy
+    const handleRetryMedia = async () => {
+        let preferences = devicePreferences;
+        if (mediaError?.kind === 'overconstrained') {
+            preferences = { ...preferences, cameraId: null, microphoneId: null };
+            setDevicePreferences(preferences);
+            saveDevicePreferences(preferences);
+        }
 
-            // Search for partner
-            console.log("Searching for chat partner");
-            let roomData;
+        try {
+            await openLocalStream(preferences);
+        } catch (error) {
+            console.error('Error accessing media devices:', error);
+        }
+    };
 
-            if (selectedUserId) {
-                console.log(`Connecting with selected user: ${selectedUserId}`);
-                roomData = await createRoomWithUser(user.uid, selectedUserId);
-                setIsInitiator(true);
+    // Privacy mode only works through a TURN relay; find out before anyone is matched or rung
+    const checkRelayAvailable = async () => {
+        if (!privacyMode) return;
+        await getRtcConfiguration(user.uid, { privacyMode, authToken: await user.getIdToken() });
+    };
+
+    const startRandomChat = async () => {
+        // Picking someone rings them like calling a friend, so they can accept, decline or miss it
+        if (selectedUserId) {
+            const selectedUser = availableUsers.find(u => u.uid === selectedUserId) || await getUserById(selectedUserId);
+            if (selectedUser) {
+                await handleCallFriend(selectedUser);
             } else {
-                console.log("Finding random partner");
-                roomData = await findOrCreateRoom(user.uid);
-                setIsInitiator(roomData.isInitiator);
+                setError('That user is no longer available.');
             }
+            return;
+        }
+
+        setIsChatting(true);
+        setIsSearching(true);
+        setChatMessages([]);
+        setError(null);
 
+        try {
+            await openLocalStream();
+            await checkRelayAvailable();
+
+            // Suspended users can't be matched until the suspension ends
+            const profile = await getUserById(user.uid);
+            if (profile && isSuspended(profile)) {
+                setError(`Your account is suspended until ${profile.suspendedUntil?.toDate().toLocaleString()}.`);
+                setIsSearching(false);
+                setIsChatting(false);
+                setChatState(ChatState.IDLE);
+                return;
+            }
+
+            // Enter the matchmaking queue and wait to be paired
+            console.log("Finding partner with preferences:", matchPreferences);
+            setChatState(ChatState.SEARCHING);
+            matchmakingRef.current = startMatchmaking(user.uid, {
+                onMatched: (result) => {
+                    matchmakingRef.current = null;
+                    joinRoom(result);
+                },
+                onError: (err) => {
+                    matchmakingRef.current = null;
+                    console.error("Matchmaking error:", err);
+                    setError('Failed to find a partner. Please try again.');
+                    setIsSearching(false);
+                    setChatState(ChatState.IDLE);
+                }
+            }, buildMatchCriteria(profile, matchPreferences));
+        } catch (error) {
+            console.error("Error starting chat:", error);
+            // Camera problems are explained by the lobby instead
+            setError(isMediaAccessError(error)
+                ? null
+                : error instanceof RelayUnavailableError ? error.message : 'Failed to start chat. Please try again.');
+            setIsSearching(false);
+            setChatState(ChatState.IDLE);
+            closePeerConnection();
+        }
+    };
+
+    // Set up signaling and media once a room has been assigned
+    const joinRoom = async (roomData: MatchResult) => {
+        try {
+            setIsInitiator(roomData.isInitiator);
             setCurrentRoomId(roomData.roomId);
+            roomIdRef.current = roomData.roomId;
             setPartnerUid(roomData.partnerId);
 
             console.log("Room created/joined:", roomData);
             console.log("Is initiator:", roomData.isInitiator);
 
+            getUserById(roomData.partnerId).then(profile => {
+                setPartnerProfile(profile);
+            });
+
+            if (!localStreamRef.current) {
+                throw new Error("Camera access is required for video chat");
+            }
+
             // Set up peer connection
-            await initiatePeerConnection();
-
-            // Subscribe to necessary signaling channels
-            const unsubscribeOffers = await subscribeToRoomOffers(roomData.roomId);
-            const unsubscribeAnswers = await subscribeToRoomAnswers(roomData.roomId);
-            const unsubscribePartnerCandidates = await handleIceCandidates(
-                roomData.roomId,
-                roomData.partnerId
-            );
+            closePeerConnection();
+            const configuration = await getRtcConfiguration(user.uid, {
+                privacyMode,
+                authToken: await user.getIdToken()
+            });
+            const session = new PeerSession({
+                transport: new FirestoreSignalingTransport(roomData.roomId, user.uid, roomData.partnerId),
+                isInitiator: roomData.isInitiator,
+                localStream: localStreamRef.current,
+                configuration
+            });
+            sessionRef.current = session;
+
+            session.on('remoteTrack', ({ stream }) => {
+                const remoteVideo = remoteVideoRef.current;
+                if (!remoteVideo || remoteVideo.srcObject === stream) return;
+
+                console.log("Setting remote video stream");
+                remoteVideo.srcObject = stream;
+                remoteVideo.onloadedmetadata = () => {
+                    remoteVideo.play().catch(err => {
+                        console.error("Error playing remote video:", err);
+                    });
+                };
+            });
 
-            // Subscribe to room messages
-            const unsubscribeMessages = await subscribeToRoomMessages(
-                roomData.roomId,
-                (message) => {
-                    setChatMessages(prevMessages => [...prevMessages, message]);
+            session.on('stateChange', (state) => {
+                if (state === 'reconnecting') {
+                    setChatState(ChatState.RECONNECTING);
+                } else if (state === 'connected') {
+                    setReconnectAttempt(null);
+                    setChatState(ChatState.CONNECTED);
+                } else if (state === 'failed') {
+                    // Every ICE restart failed; give up on this room
+                    setError("Connection lost. Please try again.");
+                    endChat('connection-failed');
+                    setChatState(ChatState.IDLE);
                 }
-            );
+            });
+
+            session.on('reconnectAttempt', (attempt) => {
+                setReconnectAttempt(attempt);
+            });
+
+            session.on('error', () => {
+                setError("Error establishing video connection. Please try again.");
+            });
+
+            // Chat goes over the session's data channel, falling back to Firestore
+            const moderate = createChatModeration();
+            const chatChannel = new ChatChannel({
+                localUserId: user.uid,
+                partnerId: roomData.partnerId,
+                store: new FirestoreChatStore(roomData.roomId),
+                moderate: (content, senderId, direction) => moderate(content, {
+                    senderId,
+                    direction,
+                    policy: contentPolicyRef.current,
+                    now: Date.now()
+                })
+            });
+            chatChannelRef.current = chatChannel;
+            unsubscribeRefs.current = [() => chatChannel.close()];
+
+            chatChannel.on('message', (chatMessage) => {
+                setChatMessages(prevMessages => [...prevMessages, chatMessage]);
+            });
+            chatChannel.on('status', ({ id, status }) => {
+                setChatMessages(prevMessages => prevMessages.map(msg => msg.id === id ? { ...msg, status } : msg));
+            });
+            chatChannel.on('update', ({ id, changes }) => {
+                setChatMessages(prevMessages => prevMessages.map(msg => msg.id === id ? { ...msg, ...changes } : msg));
+            });
+            chatChannel.on('partnerTyping', setPartnerTyping);
+
+            // Files only ever travel peer-to-peer on their own channel
+            const fileChannel = new FileTransferChannel({ localUserId: user.uid });
+            fileChannelRef.current = fileChannel;
+            unsubscribeRefs.current.push(() => fileChannel.close());
+
+            fileChannel.on('transfer', (transfer) => {
+                let url = fileUrlsRef.current.get(transfer.id);
+                if (!url && transfer.blob) {
+                    url = URL.createObjectURL(transfer.blob);
+                    fileUrlsRef.current.set(transfer.id, url);
+                }
+                const sharedFile: SharedFile = { ...transfer, url };
+
+                setSharedFiles(prevFiles => prevFiles.some(file => file.id === transfer.id)
+                    ? prevFiles.map(file => file.id === transfer.id ? sharedFile : file)
+                    : [...prevFiles, sharedFile]);
+            });
+            // Lets the partner know when our video is a shared screen
+            const mediaStateChannel = new MediaStateChannel();
+            mediaStateChannelRef.current = mediaStateChannel;
+            unsubscribeRefs.current.push(() => mediaStateChannel.close());
+            mediaStateChannel.on('partnerState', setPartnerMediaState);
+            // Stay muted, or with the camera off, from one partner to the next
+            mediaStateChannel.update({
+                audioMuted: localStreamRef.current.getAudioTracks().some(track => !track.enabled),
+                videoOff: localStreamRef.current.getVideoTracks().some(track => !track.enabled)
+            });
+
+            session.on('dataChannel', (channel) => {
+                if (channel.label === FILE_CHANNEL_LABEL) {
+                    fileChannel.attach(channel);
+                } else if (channel.label === MEDIA_CHANNEL_LABEL) {
+                    mediaStateChannel.attach(channel);
+                } else {
+                    chatChannel.attach(channel);
+                }
+            });
+
+            await session.start();
+
+            // Feeds the signal bars, the stats panel and the quality controller
+            const peerConnection = session.getPeerConnection();
+            if (peerConnection) {
+                const statsMonitor = new CallStatsMonitor({ source: peerConnection });
+                statsMonitor.on('stats', setCallStats);
+
+                // Adapt what we send to the connection, within the user's chosen preset
+                const videoSender = session.getSender('video');
+                if (videoSender) {
+                    const qualityController = new QualityController({ sender: videoSender, preset: loadQualityPreset() });
+                    qualityControllerRef.current = qualityController;
+                    statsMonitor.on('report', report => qualityController.handleReport(report));
+                    qualityController.start();
+                    unsubscribeRefs.current.push(() => qualityController.stop());
+                }
+
+                statsMonitor.start();
+                unsubscribeRefs.current.push(() => statsMonitor.stop());
+            }
+
+            // Leave too when the partner ends the room or the server closes it
+            const unsubscribeRoom = subscribeToRoom(roomData.roomId, (room) => {
+                contentPolicyRef.current = room?.contentPolicy || DEFAULT_ROOM_CONTENT_POLICY;
+                if (room && room.isActive) return;
+
+                if (room?.endedBy !== user.uid) {
+                    setError(room?.endReason === 'abandoned' || room?.endReason === 'expired'
+                        ? "This chat has ended."
+                        : "Your partner left the chat.");
+                }
+                endChat();
+                setChatState(ChatState.IDLE);
+            });
+
+            // Keep the room alive while we are in it
+            const stopHeartbeat = startRoomHeartbeat(roomData.roomId, user.uid);
 
             // Store unsubscribe functions
-            unsubscribeRefs.current = [
-                unsubscribeOffers || (() => { }),
-                unsubscribeAnswers || (() => { }),
-                unsubscribePartnerCandidates || (() => { }),
-                unsubscribeMessages || (() => { })
-            ];
+            unsubscribeRefs.current.push(unsubscribeRoom, stopHeartbeat);
 
             // Update UI state
             setIsSearching(false);
             setConnected(true);
+            setChatState(ChatState.CONNECTED);
+        } catch (error) {
+            console.error("Error joining room:", error);
+            // End the room too, so the partner is not left waiting on it
+            endChat('connection-failed');
+            setError(error instanceof RelayUnavailableError ? error.message : 'Failed to start chat. Please try again.');
+            setChatState(ChatState.IDLE);
+        }
+    };
+
+    // Leave the matchmaking queue without being paired
+    const cancelSearch = async () => {
+        const matchmaking = matchmakingRef.current;
+        matchmakingRef.current = null;
 
+        setIsSearching(false);
+        setIsChatting(false);
+        setChatState(ChatState.IDLE);
+
+        if (matchmaking) {
+            await matchmaking.cancel();
+        }
+    };
+
+    // Stop ringing the friend we called, whether or not they answered
+    const stopOutgoingCall = () => {
+        const outgoingCall = outgoingCallRef.current;
+        outgoingCallRef.current = null;
+        setCallingName(null);
+        return outgoingCall;
+    };
+
+    // Ring a friend in a room of our own; the call starts once they accept
+    const handleCallFriend = async (friend: UserData) => {
+        const friendName = friend.username || friend.email || 'Your friend';
+        setIsChatting(true);
+        setChatMessages([]);
+        setError(null);
+
+        const endMessages: Record<CallEndStatus, string | null> = {
+            declined: `${friendName} can't talk right now.`,
+            missed: `${friendName} didn't answer.`,
+            cancelled: null
+        };
+
+        try {
+            await openLocalStream();
+            await checkRelayAvailable();
+
+            setCallingName(friendName);
+            setChatState(ChatState.SEARCHING);
+
+            outgoingCallRef.current = startCall(user.uid, friend.uid, {
+                onAccepted: (invitation) => {
+                    stopOutgoingCall();
+                    joinRoom({ roomId: invitation.roomId, partnerId: invitation.calleeId, isInitiator: true });
+                },
+                onEnded: (status) => {
+                    stopOutgoingCall();
+                    setError(endMessages[status]);
+                    setIsChatting(false);
+                    setChatState(ChatState.IDLE);
+                },
+                onError: () => {
+                    stopOutgoingCall();
+                    setError(`Failed to call ${friendName}. Please try again.`);
+                    setIsChatting(false);
+                    setChatState(ChatState.IDLE);
+                }
+            });
         } catch (error) {
-            console.error("Error starting chat:", error);
-            setError('Failed to start chat. Please try again.');
-            setIsSearching(false);
-            closePeerConnection();
+            console.error("Error calling friend:", error);
+            setError(isMediaAccessError(error)
+                ? null
+                : error instanceof RelayUnavailableError ? error.message : `Failed to call ${friendName}. Please try again.`);
+            setIsChatting(false);
+            setChatState(ChatState.IDLE);
+        }
+    };
+
+    // Hang up before the friend we called has answered
+    const cancelOutgoingCall = async () => {
+        const outgoingCall = stopOutgoingCall();
+
+        setIsChatting(false);
+        setChatState(ChatState.IDLE);
+
+        if (outgoingCall) {
+            await outgoingCall.cancel();
+        }
+    };
+
+    // Join a friend's call the user accepted, leaving whatever they were doing
+    const joinAcceptedCall = async (call: MatchResult) => {
+        endChat();
+        setIsChatting(true);
+        setError(null);
+
+        try {
+            await openLocalStream();
+            await joinRoom(call);
+        } catch (error) {
+            console.error("Error joining call:", error);
+            setError(isMediaAccessError(error) ? null : 'Failed to join the call. Please try again.');
+            setIsChatting(false);
+            setChatState(ChatState.IDLE);
+        }
+    };
+
+    // Send a friend request to the current partner, or accept theirs
+    const handleAddFriend = async () => {
+        if (!partnerUid) return;
+
+        const status = await sendFriendRequest(user.uid, partnerUid);
+        if (!status) {
+            setError('Failed to send the friend request. Please try again.');
         }
     };
 
@@ -362,302 +739,317 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
             });
             localStreamRef.current = null;
         }
+        setLocalAudioTrack(null);
+        // The next stream starts unmuted
+        setAudioMuted(false);
+        setVideoOff(false);
     };
 
-    const handleSendMessage = async (e: React.FormEvent) => {
-        e.preventDefault();
+    // Move the local stream, and the call if there is one, to another camera or microphone
+    const switchLocalDevice = async (role: Exclude<MediaDeviceRole, 'speaker'>, deviceId: string) => {
+        const stream = localStreamRef.current;
+        if (!stream) return;
 
-        if (!message.trim() || !currentRoomId || !partnerProfile) return;
+        // While sharing, the call sends the screen; the new camera goes out when sharing stops
+        const session = sessionRef.current;
+        const replaceTrack = session && !(role === 'camera' && screenStreamRef.current)
+            ? (track: MediaStreamTrack) => session.replaceTrack(track)
+            : undefined;
 
         try {
-            await sendChatMessage(currentRoomId, user.uid, message);
-            setMessage('');
+            const track = await switchDevice(stream, role, deviceId, replaceTrack);
+            if (role === 'microphone') {
+                setLocalAudioTrack(track);
+            } else {
+                applyCapturePreset(loadQualityPreset());
+            }
         } catch (error) {
-            console.error('Error sending message:', error);
-            setError('Failed to send message. Please try again.');
+            console.error(`Error switching ${role}:`, error);
+            setError(isMediaAccessError(error)
+                ? `${explainMediaError(error).message} Please try another ${role}.`
+                : `Failed to switch to that ${role}. Please try another one.`);
         }
     };
 
-    const handleNextPartner = async () => {
-        if (currentRoomId) {
-            try {
-                await updateRoomStatus(currentRoomId, false);
-            } catch (error) {
-                console.error('Error ending room:', error);
-            }
+    // Remember the user's choice and start using it right away
+    const handleDeviceChange = async (role: MediaDeviceRole, deviceId: string | null) => {
+        const preferences = withPreferredDevice(devicePreferences, role, deviceId);
+        setDevicePreferences(preferences);
+        saveDevicePreferences(preferences);
+
+        // The speaker is applied by its effect
+        if (role === 'speaker') return;
+
+        const nextDeviceId = deviceId || devicesFor(devices, role)[0]?.deviceId;
+        if (nextDeviceId) {
+            await switchLocalDevice(role, nextDeviceId);
         }
+    };
 
-        closePeerConnection();
-        setChatState(ChatState.SEARCHING);
-        setCurrentRoomId(null);
-        setPartnerProfile(null);
-        setChatMessages([]);
+    // HD also needs the camera to capture more; the other presets only limit what is sent
+    const applyCapturePreset = (preset: QualityPreset) => {
+        const cameraTrack = localStreamRef.current?.getVideoTracks()[0];
+        cameraTrack?.applyConstraints(QUALITY_PRESETS[preset].capture).catch(err => {
+            console.error("Error applying camera resolution:", err);
+        });
     };
 
-    const handleReportUser = async () => {
-        if (!partnerProfile) return;
+    const handleQualityPresetChange = (preset: QualityPreset) => {
+        setQualityPreset(preset);
+        saveQualityPreset(preset);
+        applyCapturePreset(preset);
+        qualityControllerRef.current?.setPreset(preset);
+    };
 
-        const reason = prompt("Please enter the reason for reporting this user:");
-        if (!reason) return;
+    // Muting disables the track rather than removing it, so unmuting is instant
+    const toggleMute = () => {
+        const muted = !audioMuted;
+        localStreamRef.current?.getAudioTracks().forEach(track => {
+            track.enabled = !muted;
+        });
+        setAudioMuted(muted);
+        mediaStateChannelRef.current?.update({ audioMuted: muted });
+    };
 
-        try {
-            await reportUser(user.uid, partnerProfile.uid, reason);
-            alert("User has been reported. Thank you for helping keep our community safe.");
-            // End the chat after reporting
-            handleNextPartner();
-        } catch (error) {
-            console.error('Error reporting user:', error);
-            alert("Failed to report user. Please try again.");
-        }
+    const toggleCamera = () => {
+        const off = !videoOff;
+        localStreamRef.current?.getVideoTracks().forEach(track => {
+            track.enabled = !off;
+        });
+        setVideoOff(off);
+        mediaStateChannelRef.current?.update({ videoOff: off });
     };
 
-    const refreshAvailableUsers = async () => {
+    const handleSendMessage = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const chatChannel = chatChannelRef.current;
+        if (!message.trim() || !chatChannel) return;
+
         try {
-            setError(null);
-            const users = await getAllUsers();
-            // Filter out current user
-            const filteredUsers = users.filter(u => u.uid !== user.uid);
-            setAvailableUsers(filteredUsers);
+            const sent = await chatChannel.send(message, { ephemeral: ephemeralChat });
+            if (sent.blockedReason) {
+                // Keep the text so the user can edit it
+                setError(sent.blockedReason);
+                return;
+            }
+            setMessage('');
 
-            if (filteredUsers.length === 0) {
-                setError("No other users are currently online. Try again later!");
+            if (sent.status === 'failed' && ephemeralChat) {
+                setError('Off-the-record messages need a direct connection. Try again once the video is connected.');
             }
         } catch (error) {
-            console.error('Error refreshing users:', error);
-            setError('Failed to refresh user list.');
+            console.error('Error sending message:', error);
+            setError('Failed to send message. Please try again.');
         }
     };
 
-    // Handle room offers subscription
-    const subscribeToRoomOffers = async (roomId: string) => {
-        if (!roomId) return;
+    const handleSaveEdit = async (e: React.FormEvent) => {
+        e.preventDefault();
 
-        console.log("Subscribing to room offers for room:", roomId);
+        const chatChannel = chatChannelRef.current;
+        if (!chatChannel || !editingMessageId || !editDraft.trim()) return;
 
-        return subscribeToOffers(roomId, async (offer) => {
-            console.log("Received offer:", offer);
+        const failure = await chatChannel.editMessage(editingMessageId, editDraft);
+        if (failure) {
+            setError(failure);
+            return;
+        }
+        setEditingMessageId(null);
+    };
 
-            // Only process the offer if we are not the initiator
-            if (!isInitiator && peerConnectionRef.current) {
-                try {
-                    const peerConnection = peerConnectionRef.current;
+    const handleDeleteMessage = async (messageId: string) => {
+        const failure = await chatChannelRef.current?.deleteMessage(messageId);
+        if (failure) setError(failure);
+    };
 
-                    if (peerConnection.signalingState !== 'stable') {
-                        console.log("Resetting connection for new offer");
-                        await closePeerConnection();
-                        await initiatePeerConnection();
-                    }
+    // Picking your current reaction again removes it
+    const handleReact = async (msg: ChatChannelMessage, reaction: string) => {
+        setReactionPickerId(null);
+        const current = msg.reactions?.[user.uid];
+        const failure = await chatChannelRef.current?.react(msg.id, current === reaction ? null : reaction);
+        if (failure) setError(failure);
+    };
 
-                    console.log("Setting remote description from offer");
-                    await peerConnection.setRemoteDescription(new RTCSessionDescription(offer));
+    const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Allow picking the same file again
+        e.target.value = '';
 
-                    console.log("Creating answer");
-                    const answer = await peerConnection.createAnswer();
+        const fileChannel = fileChannelRef.current;
+        if (!file || !fileChannel) return;
 
-                    console.log("Setting local description with answer");
-                    await peerConnection.setLocalDescription(answer);
+        const transfer = fileChannel.send(file);
+        if (transfer.status === 'failed' && transfer.error) {
+            setError(transfer.error);
+        }
+    };
 
-                    // Wait briefly for ICE gathering
-                    await new Promise<void>(resolve => setTimeout(resolve, 1000));
+    const handleNextPartner = async () => {
+        endChat('skipped');
+        setChatMessages([]);
+        await startRandomChat();
+    };
 
-                    // Send answer to the room
-                    await addAnswerToRoom(roomId, peerConnection.localDescription as RTCSessionDescription);
-                    console.log("Answer sent to room");
-                } catch (error) {
-                    console.error("Error handling offer:", error);
-                    setError("Failed to process connection offer. Please try again.");
-                }
-            }
-        });
+    const handleStopChat = () => {
+        endChat();
+        setChatState(ChatState.IDLE);
     };
 
-    // Handle room answers subscription
-    const subscribeToRoomAnswers = async (roomId: string) => {
-        if (!roomId) return;
+    const handleReportUser = () => {
+        if (!partnerProfile) return;
 
-        console.log("Subscribing to room answers for room:", roomId);
+        setReportDraft({
+            partner: partnerProfile,
+            roomId: roomIdRef.current,
+            snapshot: remoteVideoRef.current ? captureVideoSnapshot(remoteVideoRef.current) : null,
+            chatExcerpt: buildChatExcerpt(chatMessages)
+        });
+    };
 
-        return subscribeToAnswers(roomId, async (answer) => {
-            console.log("Received answer:", answer);
+    const handleSubmitReport = async (submission: ReportSubmission) => {
+        if (!reportDraft) return false;
 
-            // Only process the answer if we are the initiator
-            if (isInitiator && peerConnectionRef.current) {
-                try {
-                    console.log("Setting remote description from answer");
-                    await peerConnectionRef.current.setRemoteDescription(new RTCSessionDescription(answer));
-                    console.log("Remote description set successfully");
-                } catch (error) {
-                    console.error("Error handling answer:", error);
-                    setError("Failed to process connection answer. Please try again.");
-                }
-            }
+        const reportId = await reportUser(user.uid, reportDraft.partner.uid, submission.category, submission.reason, {
+            ...(reportDraft.roomId ? { roomId: reportDraft.roomId } : {}),
+            ...(submission.includeChat ? { chatExcerpt: reportDraft.chatExcerpt } : {}),
+            ...(submission.includeSnapshot && reportDraft.snapshot ? { snapshot: reportDraft.snapshot } : {})
         });
-    };
+        if (!reportId) return false;
 
-    // Fix the naming conflict by renaming the local function
-    // Change this local function name to avoid conflict with imported function
-    const handleIceCandidates = async (roomId: string, otherUserId: string) => {
-        if (!roomId || !otherUserId) return;
+        setReportDraft(null);
+        alert("User has been reported. Thank you for helping keep our community safe.");
+        // End the chat after reporting
+        handleNextPartner();
+        return true;
+    };
 
-        console.log(`Subscribing to ICE candidates from user ${otherUserId} in room ${roomId}`);
+    // Block the partner: they can no longer be matched with, call or befriend the user
+    const handleBlockUser = async () => {
+        if (!partnerProfile) return;
 
-        return subscribeToUserIceCandidates(roomId, otherUserId, async (candidate) => {
-            console.log("Received ICE candidate:", candidate);
+        const partnerName = partnerProfile.username || partnerProfile.email || 'this user';
+        if (!window.confirm(`Block ${partnerName}? You will not be matched with them again.`)) return;
 
-            if (peerConnectionRef.current && peerConnectionRef.current.remoteDescription) {
-                try {
-                    await peerConnectionRef.current.addIceCandidate(new RTCIceCandidate(candidate));
-                    console.log("Added remote ICE candidate");
-                } catch (error) {
-                    console.error("Error adding remote ICE candidate:", error);
-                }
-            } else {
-                // Queue candidates if remote description isn't set yet
-                console.log("Queuing ICE candidate - remote description not set");
-                pendingCandidatesRef.current.push(candidate);
-            }
-        });
+        if (await blockUser(user.uid, partnerProfile.uid)) {
+            handleStopChat();
+        } else {
+            alert("Failed to block user. Please try again.");
+        }
     };
 
-    // Process any queued ICE candidates
-    const processPendingCandidates = async () => {
-        if (peerConnectionRef.current && peerConnectionRef.current.remoteDescription) {
-            while (pendingCandidatesRef.current.length > 0) {
-                const candidate = pendingCandidatesRef.current.shift();
-                if (candidate) {
-                    try {
-                        await peerConnectionRef.current.addIceCandidate(new RTCIceCandidate(candidate));
-                        console.log("Added queued ICE candidate");
-                    } catch (error) {
-                        console.error("Error adding queued ICE candidate:", error);
-                    }
-                }
+    const refreshAvailableUsers = async () => {
+        try {
+            setError(null);
+            const [users, blockedIds] = await Promise.all([getOnlineUsers(), getBlockedUserIds(user.uid)]);
+            // Filter out current user and anyone they blocked
+            const filteredUsers = users.filter(u => u.uid !== user.uid && !blockedIds.includes(u.uid));
+            setAvailableUsers(filteredUsers);
+
+            if (filteredUsers.length === 0) {
+                setError("No other users are currently online. Try again later!");
             }
+        } catch (error) {
+            console.error('Error refreshing users:', error);
+            setError('Failed to refresh user list.');
         }
     };
 
-    // Add the missing function to initialize peer connection if it doesn't exist
-    const initiatePeerConnection = async () => {
+    // Send a screen, window or tab instead of the camera
+    const startScreenShare = async () => {
+        const session = sessionRef.current;
+        if (!session || screenStreamRef.current) return;
+
+        let screenStream: MediaStream;
         try {
-            closePeerConnection(); // Close any existing connection
-
-            console.log("Initializing new peer connection");
-            const configuration = {
-                iceServers: [
-                    { urls: 'stun:stun.l.google.com:19302' },
-                    { urls: 'stun:stun1.l.google.com:19302' },
-                    {
-                        urls: 'turn:numb.viagenie.ca',
-                        username: 'webrtc@live.com',
-                        credential: 'muazkh'
-                    }
-                ]
-            };
-
-            const peerConnection = new RTCPeerConnection(configuration);
-            peerConnectionRef.current = peerConnection;
-
-            // Debugging connection state
-            peerConnection.oniceconnectionstatechange = () => {
-                console.log("ICE Connection State:", peerConnection.iceConnectionState);
-            };
-
-            peerConnection.onicegatheringstatechange = () => {
-                console.log("ICE Gathering State:", peerConnection.iceGatheringState);
-            };
-
-            peerConnection.onsignalingstatechange = () => {
-                console.log("Signaling State:", peerConnection.signalingState);
-            };
-
-            // Connection state change
-            peerConnection.onconnectionstatechange = () => {
-                console.log("Connection state changed:", peerConnection.connectionState);
-                if (peerConnection.connectionState === 'connected') {
-                    console.log("WebRTC connection established successfully!");
-                } else if (peerConnection.connectionState === 'disconnected' ||
-                    peerConnection.connectionState === 'failed') {
-                    setError("Connection lost. Please try again.");
-                }
-            };
-
-            // Handle incoming streams - THIS IS CRUCIAL
-            peerConnection.ontrack = (event) => {
-                console.log("Received remote track", event.streams[0]);
-                if (remoteVideoRef.current && event.streams && event.streams[0]) {
-                    console.log("Setting remote video stream");
-                    remoteVideoRef.current.srcObject = event.streams[0];
-
-                    // Ensure the video plays
-                    remoteVideoRef.current.onloadedmetadata = () => {
-                        console.log("Remote video metadata loaded, playing...");
-                        remoteVideoRef.current?.play().catch(err => {
-                            console.error("Error playing remote video:", err);
-                        });
-                    };
-                } else {
-                    console.error("Remote video ref or stream is null", {
-                        remoteVideoRef: remoteVideoRef.current,
-                        streams: event.streams
-                    });
-                }
-            };
-
-            // Handle ICE candidates
-            peerConnection.onicecandidate = async (event) => {
-                if (event.candidate && currentRoomId) {
-                    console.log("Generated ICE candidate", event.candidate);
-                    try {
-                        await addIceCandidate(currentRoomId, user.uid, event.candidate);
-                    } catch (err) {
-                        console.error("Error adding local ICE candidate:", err);
-                    }
-                }
-            };
-
-            // Add local stream tracks to peer connection
-            if (localStreamRef.current) {
-                console.log("Adding local tracks to peer connection");
-                localStreamRef.current.getTracks().forEach(track => {
-                    if (localStreamRef.current) {
-                        console.log("Adding track to peer connection:", track.kind);
-                        peerConnection.addTrack(track, localStreamRef.current);
-                    }
-                });
-            } else {
-                console.error("No local stream available");
-                throw new Error("Camera access is required for video chat");
-            }
+            screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+        } catch (error) {
+            // Also what happens when the user closes the browser's picker
+            console.log("Screen sharing not started:", error);
+            return;
+        }
+
+        const [screenTrack] = screenStream.getVideoTracks();
+        // Keep text sharp rather than motion smooth
+        screenTrack.contentHint = 'detail';
+        // The browser's own "Stop sharing" control ends the track
+        screenTrack.onended = () => {
+            stopScreenShare();
+        };
 
-            return peerConnection;
+        try {
+            await session.replaceTrack(screenTrack);
         } catch (error) {
-            console.error('Error setting up peer connection:', error);
-            setError('Failed to establish video connection. Please try again.');
-            return null;
+            console.error("Error sharing screen:", error);
+            screenStream.getTracks().forEach(track => track.stop());
+            setError('Failed to share your screen. Please try again.');
+            return;
+        }
+
+        screenStreamRef.current = screenStream;
+        if (localVideoRef.current) {
+            localVideoRef.current.srcObject = screenStream;
+        }
+        setScreenSharing(true);
+        qualityControllerRef.current?.setScreenSharing(true);
+        mediaStateChannelRef.current?.update({ screenSharing: true });
+    };
+
+    // Put the camera back, both on the call and in the local preview
+    const stopScreenShare = async () => {
+        const screenStream = screenStreamRef.current;
+        if (!screenStream) return;
+
+        screenStreamRef.current = null;
+        screenStream.getTracks().forEach(track => track.stop());
+        setScreenSharing(false);
+        qualityControllerRef.current?.setScreenSharing(false);
+        mediaStateChannelRef.current?.update({ screenSharing: false });
+
+        const cameraStream = localStreamRef.current;
+        if (localVideoRef.current && cameraStream) {
+            localVideoRef.current.srcObject = cameraStream;
+        }
+
+        const cameraTrack = cameraStream?.getVideoTracks()[0];
+        if (sessionRef.current && cameraTrack) {
+            await sessionRef.current.replaceTrack(cameraTrack).catch(err => {
+                console.error("Error restoring camera:", err);
+            });
         }
     };
 
-    // Add the close peer connection function if it doesn't exist
     const closePeerConnection = () => {
-        if (peerConnectionRef.current) {
-            console.log("Closing existing peer connection");
-            peerConnectionRef.current.close();
-            peerConnectionRef.current = null;
+        if (sessionRef.current) {
+            sessionRef.current.close();
+            sessionRef.current = null;
         }
     };
 
     // Add a function to end the chat session
-    const endChat = () => {
+    const endChat = (reason: RoomEndReason = 'hangup') => {
         console.log("Ending chat session");
 
+        // Leave the matchmaking queue if we were still searching
+        if (matchmakingRef.current) {
+            matchmakingRef.current.cancel();
+            matchmakingRef.current = null;
+        }
+
+        // Stop ringing a friend who has not answered yet
+        const outgoingCall = stopOutgoingCall();
+        if (outgoingCall) {
+            outgoingCall.cancel();
+        }
+
         // Close WebRTC peer connection
         closePeerConnection();
+        stopScreenShare();
 
-        // Update room status if needed
-        if (currentRoomId) {
-            updateRoomStatus(currentRoomId, false)
-                .then(() => console.log("Room marked as inactive"))
-                .catch(err => console.error("Error updating room status:", err));
+        // End the room if needed
+        if (roomIdRef.current) {
+            endRoom(roomIdRef.current, reason, user.uid);
+            roomIdRef.current = null;
         }
 
         // Clear chat state
@@ -665,9 +1057,14 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
         setPartnerUid(null);
         setPartnerProfile(null);
         setChatMessages([]);
+        setPartnerTyping(false);
+        setSharedFiles([]);
+        setEditingMessageId(null);
+        setReactionPickerId(null);
         setIsSearching(false);
         setConnected(false);
         setIsChatting(false);
+        setReconnectAttempt(null);
 
         // Unsubscribe from all real-time listeners
         if (unsubscribeRefs.current) {
@@ -678,6 +1075,131 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
             });
             unsubscribeRefs.current = [];
         }
+        chatChannelRef.current = null;
+        fileChannelRef.current = null;
+        mediaStateChannelRef.current = null;
+        qualityControllerRef.current = null;
+        setPartnerMediaState(DEFAULT_MEDIA_STATE);
+        setCallStats(null);
+
+        fileUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+        fileUrlsRef.current.clear();
+    };
+
+    // Keep the call UI up while a dropped connection is being restored
+    const inCall = chatState === ChatState.CONNECTED || chatState === ChatState.RECONNECTING;
+
+    const partnerFriendship = partnerUid
+        ? friendships.find(friendship => friendship.id === getFriendshipId(user.uid, partnerUid))
+        : undefined;
+    const onlineUserIds = new Set(availableUsers.map(u => u.uid));
+
+    const chatItems: ChatItem[] = [
+        ...chatMessages.map(message => ({ kind: 'message' as const, sentAt: message.sentAt, message })),
+        ...sharedFiles.map(file => ({ kind: 'file' as const, sentAt: file.sentAt, file }))
+    ].sort((a, b) => a.sentAt - b.sentAt);
+
+    const renderChatMessage = (msg: ChatChannelMessage) => {
+        const isOwn = msg.senderId === user.uid;
+        const reactionCounts = Object.values(msg.reactions || {}).reduce<{ [reaction: string]: number }>(
+            (counts, reaction) => ({ ...counts, [reaction]: (counts[reaction] || 0) + 1 }),
+            {}
+        );
+
+        return (
+            <>
+                {msg.deletedAt ? (
+                    <p className="text-sm italic text-gray-300">Message deleted</p>
+                ) : editingMessageId === msg.id ? (
+                    <form onSubmit={handleSaveEdit} className="flex">
+                        <input
+                            type="text"
+                            value={editDraft}
+                            onChange={(e) => setEditDraft(e.target.value)}
+                            autoFocus
+                            className="flex-1 px-2 py-1 bg-gray-600 rounded-l text-sm text-white"
+                        />
+                        <button type="submit" className="px-2 py-1 bg-gray-800 text-xs text-white">Save</button>
+                        <button
+                            type="button"
+                            onClick={() => setEditingMessageId(null)}
+                            className="px-2 py-1 bg-gray-800 rounded-r text-xs text-white"
+                        >
+                            Cancel
+                        </button>
+                    </form>
+                ) : (
+                    <p className="text-sm font-medium text-white">{msg.content}</p>
+                )}
+                {Object.keys(reactionCounts).length > 0 && (
+                    <p className="text-sm mt-1">
+                        {Object.entries(reactionCounts).map(([reaction, count]) => (
+                            <span key={reaction} className="mr-2">{reaction}{count > 1 && ` ${count}`}</span>
+                        ))}
+                    </p>
+                )}
+                <p className="text-xs text-gray-300 mt-1">
+                    {new Date(msg.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {msg.ephemeral && ' · off the record'}
+                    {msg.flags && ' · filtered'}
+                    {msg.editedAt && !msg.deletedAt && ' · edited'}
+                    {isOwn && ` · ${DELIVERY_STATUS_LABELS[msg.status]}`}
+                </p>
+                {!msg.deletedAt && editingMessageId !== msg.id && (
+                    <div className="flex gap-2 mt-1 text-xs text-gray-300">
+                        <button onClick={() => setReactionPickerId(reactionPickerId === msg.id ? null : msg.id)} className="hover:text-white">
+                            React
+                        </button>
+                        {canModifyChatMessage(msg, user.uid) && (
+                            <>
+                                <button
+                                    onClick={() => {
+                                        setEditingMessageId(msg.id);
+                                        setEditDraft(msg.content);
+                                    }}
+                                    className="hover:text-white"
+                                >
+                                    Edit
+                                </button>
+                                <button onClick={() => handleDeleteMessage(msg.id)} className="hover:text-white">
+                                    Delete
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+                {reactionPickerId === msg.id && (
+                    <div className="flex gap-1 mt-1">
+                        {CHAT_REACTIONS.map(reaction => (
+                            <button
+                                key={reaction}
+                                onClick={() => handleReact(msg, reaction)}
+                                className={`px-1 rounded ${msg.reactions?.[user.uid] === reaction ? 'bg-gray-500' : 'hover:bg-gray-500'}`}
+                            >
+                                {reaction}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </>
+        );
+    };
+
+    const renderSharedFile = (file: SharedFile) => {
+        if (file.status === 'failed') {
+            return <p className="text-sm text-white">{file.name} — {file.error || 'Transfer failed'}</p>;
+        }
+        if (file.url && file.mimeType.startsWith('image/')) {
+            return <img src={file.url} alt={file.name} className="max-h-48 rounded" />;
+        }
+        if (file.url && file.status === 'complete') {
+            return (
+                <a href={file.url} download={file.name} className="text-sm font-medium text-white underline">
+                    {file.name}
+                </a>
+            );
+        }
+        return <p className="text-sm font-medium text-white">{file.name}</p>;
     };
 
     return (
@@ -690,16 +1212,37 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
                             ref={remoteVideoRef}
                             autoPlay
                             playsInline
-                            className={`absolute inset-0 w-full h-full object-cover ${chatState !== ChatState.CONNECTED ? 'hidden' : ''}`}
+                            className={`absolute inset-0 w-full h-full ${partnerMediaState.screenSharing ? 'object-contain' : 'object-cover'} ${!inCall ? 'hidden' : ''}`}
                         />
 
+                        {inCall && partnerMediaState.videoOff && !partnerMediaState.screenSharing && (
+                            <div className="absolute inset-0 flex items-center justify-center bg-gray-900">
+                                <p className="text-gray-300">
+                                    {partnerProfile?.username || partnerProfile?.email || 'Your partner'} turned their camera off
+                                </p>
+                            </div>
+                        )}
+
+                        {inCall && partnerMediaState.audioMuted && (
+                            <div className="absolute top-4 right-4 z-10 px-3 py-1 bg-gray-900 bg-opacity-75 text-white text-sm rounded">
+                                Muted
+                            </div>
+                        )}
+
+                        {/* A shared screen is shown whole, so slides and documents are not cropped */}
+                        {inCall && partnerMediaState.screenSharing && (
+                            <div className="absolute top-4 left-4 z-10 px-3 py-1 bg-gray-900 bg-opacity-75 text-white text-sm rounded">
+                                {partnerProfile?.username || partnerProfile?.email || 'Your partner'} is sharing their screen
+                            </div>
+                        )}
+
                         {/* Local Video (User) */}
                         <video
                             ref={localVideoRef}
                             autoPlay
                             playsInline
                             muted
-                            className={`${chatState === ChatState.CONNECTED
+                            className={`${inCall
                                 ? 'absolute bottom-4 right-4 w-1/4 h-auto rounded-lg border-2 border-blue-500 z-10'
                                 : 'absolute inset-0 w-full h-full object-cover'
                                 }`}
@@ -707,27 +1250,94 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
 
                         {/* Overlay for different states */}
                         {chatState === ChatState.IDLE && (
-                            <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-80">
+                            <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-60 overflow-y-auto">
                                 <div className="text-center p-6 w-full max-w-md">
-                                    <h3 className="text-2xl font-bold text-white mb-4">Ready to Connect?</h3>
-                                    <p className="text-gray-300 mb-6">Click "Start" to begin meeting new people!</p>
-                                    <button
-                                        onClick={startRandomChat}
-                                        className="px-6 py-3 bg-blue-600 text-white rounded-full text-lg hover:bg-blue-700 transition"
-                                    >
-                                        Start
-                                    </button>
-                                    {availableUsers.length > 0 && (
-                                        <p className="mt-4 text-green-400">
-                                            {availableUsers.length} user{availableUsers.length !== 1 ? 's' : ''} online
-                                        </p>
-                                    )}
-                                    <button
-                                        onClick={refreshAvailableUsers}
-                                        className="mt-4 text-blue-400 hover:text-blue-300 underline"
+                                    <PreCallLobby
+                                        audioTrack={localAudioTrack}
+                                        speakerId={devicePreferences.speakerId}
+                                        mediaError={mediaError}
+                                        onRetry={handleRetryMedia}
                                     >
-                                        Refresh user list
-                                    </button>
+                                        <h3 className="text-2xl font-bold text-white mb-4">Ready to Connect?</h3>
+                                        <p className="text-gray-300 mb-6">Click "Start" to begin meeting new people!</p>
+                                        <button
+                                            onClick={startRandomChat}
+                                            className="px-6 py-3 bg-blue-600 text-white rounded-full text-lg hover:bg-blue-700 transition"
+                                        >
+                                            Start
+                                        </button>
+                                        <div className="mt-6 grid grid-cols-2 gap-3 text-left text-sm">
+                                            <label className="col-span-2 flex items-center text-gray-300">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={matchPreferences.sharedInterests}
+                                                    onChange={(e) => setMatchPreferences({ ...matchPreferences, sharedInterests: e.target.checked })}
+                                                    className="mr-2"
+                                                />
+                                                Only people who share my interests
+                                            </label>
+                                            <label className="col-span-2 flex items-center text-gray-300">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={privacyMode}
+                                                    onChange={(e) => setPrivacyMode(e.target.checked)}
+                                                    className="mr-2"
+                                                />
+                                                Privacy mode (relay video so partners can't see my IP)
+                                            </label>
+                                            <select
+                                                value={matchPreferences.language || ''}
+                                                onChange={(e) => setMatchPreferences({ ...matchPreferences, language: e.target.value || undefined })}
+                                                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
+                                            >
+                                                <option value="">Any language</option>
+                                                {MATCH_LANGUAGES.map(option => (
+                                                    <option key={option.code} value={option.code}>{option.label}</option>
+                                                ))}
+                                            </select>
+                                            <select
+                                                value={matchPreferences.region || ''}
+                                                onChange={(e) => setMatchPreferences({ ...matchPreferences, region: e.target.value || undefined })}
+                                                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
+                                            >
+                                                <option value="">Any region</option>
+                                                {MATCH_REGIONS.map(option => (
+                                                    <option key={option.code} value={option.code}>{option.label}</option>
+                                                ))}
+                                            </select>
+                                            <select
+                                                value={matchPreferences.genderPreference}
+                                                onChange={(e) => setMatchPreferences({ ...matchPreferences, genderPreference: e.target.value as GenderPreference })}
+                                                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
+                                            >
+                                                <option value="any">Any gender</option>
+                                                <option value="male">Male</option>
+                                                <option value="female">Female</option>
+                                                <option value="other">Other</option>
+                                            </select>
+                                            <select
+                                                value={matchPreferences.fallbackAfterMs}
+                                                onChange={(e) => setMatchPreferences({ ...matchPreferences, fallbackAfterMs: Number(e.target.value) })}
+                                                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
+                                            >
+                                                <option value={15000}>Anyone after 15s</option>
+                                                <option value={30000}>Anyone after 30s</option>
+                                                <option value={60000}>Anyone after 1 min</option>
+                                                <option value={Number.MAX_SAFE_INTEGER}>Never fall back</option>
+                                            </select>
+                                        </div>
+                                        {availableUsers.length > 0 && (
+                                            <p className="mt-4 text-green-400">
+                                                {availableUsers.length} user{availableUsers.length !== 1 ? 's' : ''} online
+                                            </p>
+                                        )}
+                                        <button
+                                            onClick={refreshAvailableUsers}
+                                            className="mt-4 text-blue-400 hover:text-blue-300 underline"
+                                        >
+                                            Refresh user list
+                                        </button>
+                                    </PreCallLobby>
                                 </div>
                             </div>
                         )}
@@ -736,10 +1346,16 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
                             <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-80">
                                 <div className="text-center p-6">
                                     <LoadingSpinner size={40} className="mx-auto mb-4" />
-                                    <h3 className="text-2xl font-bold text-white mb-2">Finding a partner...</h3>
-                                    <p className="text-gray-300 mb-6">Please wait while we connect you with someone.</p>
+                                    <h3 className="text-2xl font-bold text-white mb-2">
+                                        {callingName ? `Calling ${callingName}...` : 'Finding a partner...'}
+                                    </h3>
+                                    <p className="text-gray-300 mb-6">
+                                        {callingName
+                                            ? 'Waiting for them to answer.'
+                                            : 'Please wait while we connect you with someone.'}
+                                    </p>
                                     <button
-                                        onClick={handleNextPartner}
+                                        onClick={callingName ? cancelOutgoingCall : cancelSearch}
                                         className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition"
                                     >
                                         Cancel
@@ -748,6 +1364,20 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
                             </div>
                         )}
 
+                        {chatState === ChatState.RECONNECTING && (
+                            <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-60">
+                                <div className="text-center p-6">
+                                    <LoadingSpinner size={40} className="mx-auto mb-4" />
+                                    <h3 className="text-2xl font-bold text-white mb-2">Reconnecting...</h3>
+                                    <p className="text-gray-300">
+                                        {reconnectAttempt
+                                            ? `Attempt ${reconnectAttempt.attempt} of ${reconnectAttempt.maxAttempts}`
+                                            : 'The connection dropped. Trying to restore it.'}
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Error Message */}
                         {error && (
                             <div className="absolute top-4 left-0 right-0 mx-auto w-3/4 bg-red-500 text-white p-2 rounded text-center">
@@ -764,25 +1394,82 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
 
                     <div className="p-4 flex justify-between items-center">
                         <div>
-                            {chatState === ChatState.CONNECTED && partnerProfile && (
+                            {inCall && partnerProfile && (
                                 <div className="flex items-center">
                                     <div className="h-3 w-3 bg-green-500 rounded-full mr-2"></div>
-                                    <span className="text-white font-medium">
+                                    <span className="text-white font-medium mr-3">
                                         Connected with: {partnerProfile.username || partnerProfile.email || 'Anonymous'}
                                     </span>
+                                    <SignalIndicator
+                                        bars={signalBars(callStats)}
+                                        expanded={showCallStats}
+                                        onToggle={() => setShowCallStats(!showCallStats)}
+                                    />
                                 </div>
                             )}
                         </div>
 
                         <div className="flex space-x-2">
-                            {chatState === ChatState.CONNECTED && (
+                            {/* Usable in the lobby too, so users can join already muted */}
+                            <button
+                                onClick={toggleMute}
+                                className={`px-3 py-1 text-white rounded text-sm transition ${audioMuted
+                                    ? 'bg-red-600 hover:bg-red-700'
+                                    : 'bg-gray-600 hover:bg-gray-500'
+                                    }`}
+                            >
+                                {audioMuted ? 'Unmute' : 'Mute'}
+                            </button>
+                            <button
+                                onClick={toggleCamera}
+                                className={`px-3 py-1 text-white rounded text-sm transition ${videoOff
+                                    ? 'bg-red-600 hover:bg-red-700'
+                                    : 'bg-gray-600 hover:bg-gray-500'
+                                    }`}
+                            >
+                                {videoOff ? 'Camera On' : 'Camera Off'}
+                            </button>
+                            <button
+                                onClick={() => setShowDeviceSettings(!showDeviceSettings)}
+                                className="px-3 py-1 bg-gray-600 text-white rounded text-sm hover:bg-gray-500 transition"
+                            >
+                                Settings
+                            </button>
+                            {inCall && (
                                 <>
+                                    <button
+                                        onClick={handleAddFriend}
+                                        disabled={partnerFriendship?.status === 'accepted'
+                                            || (partnerFriendship?.status === 'pending' && partnerFriendship.requesterId === user.uid)}
+                                        className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 transition disabled:opacity-60"
+                                    >
+                                        {partnerFriendship?.status === 'accepted'
+                                            ? 'Friends'
+                                            : partnerFriendship?.status === 'pending'
+                                                ? partnerFriendship.requesterId === user.uid ? 'Request Sent' : 'Accept Friend Request'
+                                                : 'Add Friend'}
+                                    </button>
+                                    <button
+                                        onClick={screenSharing ? stopScreenShare : startScreenShare}
+                                        className={`px-3 py-1 text-white rounded text-sm transition ${screenSharing
+                                            ? 'bg-red-600 hover:bg-red-700'
+                                            : 'bg-gray-600 hover:bg-gray-500'
+                                            }`}
+                                    >
+                                        {screenSharing ? 'Stop Sharing' : 'Share Screen'}
+                                    </button>
                                     <button
                                         onClick={handleReportUser}
                                         className="px-3 py-1 bg-yellow-600 text-white rounded text-sm hover:bg-yellow-700 transition"
                                     >
                                         Report
                                     </button>
+                                    <button
+                                        onClick={handleBlockUser}
+                                        className="px-3 py-1 bg-gray-600 text-white rounded text-sm hover:bg-gray-500 transition"
+                                    >
+                                        Block
+                                    </button>
                                     <button
                                         onClick={handleNextPartner}
                                         className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition"
@@ -790,7 +1477,7 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
                                         Next
                                     </button>
                                     <button
-                                        onClick={handleNextPartner}
+                                        onClick={handleStopChat}
                                         className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition"
                                     >
                                         Stop
@@ -799,17 +1486,45 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
                             )}
                         </div>
                     </div>
+
+                    {inCall && showCallStats && (
+                        <div className="px-4 pb-4">
+                            <CallStatsPanel stats={callStats} />
+                        </div>
+                    )}
+
+                    {showDeviceSettings && (
+                        <div className="px-4 pb-4 space-y-3">
+                            <DeviceSettings
+                                devices={devices}
+                                preferences={devicePreferences}
+                                onChange={handleDeviceChange}
+                            />
+                            <label className="flex flex-col text-sm text-gray-300 sm:w-1/3">
+                                Video quality
+                                <select
+                                    value={qualityPreset}
+                                    onChange={(e) => handleQualityPresetChange(e.target.value as QualityPreset)}
+                                    className="mt-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white"
+                                >
+                                    {(Object.keys(QUALITY_PRESETS) as QualityPreset[]).map(preset => (
+                                        <option key={preset} value={preset}>{QUALITY_PRESETS[preset].label}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                    )}
                 </div>
             </div>
 
             <div className="lg:col-span-1">
-                <div className="bg-gray-800 rounded-lg overflow-hidden h-full flex flex-col">
+                <div className="bg-gray-800 rounded-lg overflow-hidden flex flex-col">
                     <div className="p-4 bg-gray-700">
                         <h3 className="text-lg font-medium text-white">Chat</h3>
                     </div>
 
                     <div className="flex-1 p-4 overflow-y-auto max-h-96">
-                        {chatState !== ChatState.CONNECTED ? (
+                        {!inCall ? (
                             <div className="flex items-center justify-center h-full">
                                 <p className="text-gray-400 text-center">
                                     {chatState === ChatState.IDLE
@@ -819,48 +1534,116 @@ const VideoChat: React.FC<VideoChatProps> = ({ user }) => {
                             </div>
                         ) : (
                             <div className="space-y-3">
-                                {chatMessages.length > 0 ? (
-                                    chatMessages.map((msg) => (
+                                {chatItems.length > 0 ? (
+                                    chatItems.map((item) => item.kind === 'message' ? (
                                         <div
-                                            key={msg.id}
-                                            className={`p-3 rounded-lg max-w-[85%] ${msg.senderId === user.uid
+                                            key={item.message.id}
+                                            className={`p-3 rounded-lg max-w-[85%] ${item.message.senderId === user.uid
                                                 ? 'bg-blue-600 ml-auto'
                                                 : 'bg-gray-700'
                                                 }`}
                                         >
-                                            <p className="text-sm font-medium text-white">{msg.content}</p>
+                                            {renderChatMessage(item.message)}
+                                        </div>
+                                    ) : (
+                                        <div
+                                            key={item.file.id}
+                                            className={`p-3 rounded-lg max-w-[85%] ${item.file.direction === 'outgoing'
+                                                ? 'bg-blue-600 ml-auto'
+                                                : 'bg-gray-700'
+                                                }`}
+                                        >
+                                            {renderSharedFile(item.file)}
+                                            {item.file.status === 'transferring' && (
+                                                <div className="w-full bg-gray-500 rounded h-1 mt-2">
+                                                    <div
+                                                        className="bg-white rounded h-1"
+                                                        style={{ width: `${Math.round((item.file.transferredBytes / item.file.size) * 100)}%` }}
+                                                    />
+                                                </div>
+                                            )}
                                             <p className="text-xs text-gray-300 mt-1">
-                                                {msg.timestamp.toDate().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                                {new Date(item.sentAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                                {item.file.direction === 'outgoing' && item.file.status === 'complete' && ' · Delivered'}
                                             </p>
                                         </div>
                                     ))
                                 ) : (
                                     <p className="text-gray-400 text-center">No messages yet. Say hello!</p>
                                 )}
+                                {partnerTyping && (
+                                    <p className="text-xs text-gray-400 italic">Partner is typing…</p>
+                                )}
                             </div>
                         )}
                     </div>
 
                     <div className="p-4 bg-gray-700">
                         <form onSubmit={handleSendMessage} className="flex">
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept={DEFAULT_FILE_TRANSFER_LIMITS.allowedTypes.join(',')}
+                                onChange={handleFileSelected}
+                                className="hidden"
+                            />
+                            <button
+                                type="button"
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={!inCall}
+                                title="Share a photo or file directly with your partner"
+                                className="px-3 py-2 bg-gray-600 text-white rounded-l hover:bg-gray-500 transition disabled:opacity-60"
+                            >
+                                Attach
+                            </button>
                             <input
                                 type="text"
                                 value={message}
-                                onChange={(e) => setMessage(e.target.value)}
-                                disabled={chatState !== ChatState.CONNECTED}
-                                placeholder={chatState === ChatState.CONNECTED ? "Type a message..." : "Start a chat to send messages"}
-                                className="flex-1 px-4 py-2 bg-gray-600 border border-gray-600 rounded-l text-white disabled:opacity-60"
+                                onChange={(e) => {
+                                    setMessage(e.target.value);
+                                    if (e.target.value) chatChannelRef.current?.notifyTyping();
+                                }}
+                                disabled={!inCall}
+                                placeholder={inCall ? "Type a message..." : "Start a chat to send messages"}
+                                className="flex-1 px-4 py-2 bg-gray-600 border border-gray-600 text-white disabled:opacity-60"
                             />
                             <button
                                 type="submit"
-                                disabled={chatState !== ChatState.CONNECTED || !message.trim()}
+                                disabled={!inCall || !message.trim()}
                                 className="px-4 py-2 bg-blue-600 text-white rounded-r hover:bg-blue-700 transition disabled:opacity-60"
                             >
                                 Send
                             </button>
                         </form>
+                        <label className="flex items-center mt-2 text-xs text-gray-300" title="Messages are only sent directly to your partner and never saved">
+                            <input
+                                type="checkbox"
+                                checked={ephemeralChat}
+                                onChange={(e) => setEphemeralChat(e.target.checked)}
+                                className="mr-2"
+                            />
+                            Off the record
+                        </label>
                     </div>
                 </div>
+
+                {reportDraft && (
+                    <ReportDialog
+                        partnerName={reportDraft.partner.username || reportDraft.partner.email || 'this user'}
+                        snapshot={reportDraft.snapshot}
+                        chatMessageCount={reportDraft.chatExcerpt.length}
+                        onSubmit={handleSubmitReport}
+                        onCancel={() => setReportDraft(null)}
+                    />
+                )}
+
+                <FriendsList
+                    user={user}
+                    friendships={friendships}
+                    onlineUserIds={onlineUserIds}
+                    callDisabled={chatState !== ChatState.IDLE}
+                    onCall={handleCallFriend}
+                />
             </div>
         </div>
     );
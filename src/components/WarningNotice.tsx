@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { acknowledgeWarning, Sanction } from '../lib/sanctionService';
+
+interface WarningNoticeProps {
+    warnings: Sanction[];
+    onAcknowledged: (sanctionId: string) => void;
+}
+
+// Moderator warnings the user has to confirm before carrying on, one at a time
+const WarningNotice: React.FC<WarningNoticeProps> = ({ warnings, onAcknowledged }) => {
+    const [saving, setSaving] = useState(false);
+    const warning = warnings[0];
+
+    if (!warning) return null;
+
+    const handleAcknowledge = async () => {
+        setSaving(true);
+        await acknowledgeWarning(warning.id);
+        setSaving(false);
+        // Even if saving failed, let the user in; the warning shows again next time
+        onAcknowledged(warning.id);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+            <div className="bg-gray-800 border border-yellow-500 rounded-xl shadow-2xl p-6 w-full max-w-md">
+                <h3 className="text-xl font-bold text-yellow-400 mb-2">You have received a warning</h3>
+                <p className="text-gray-400 text-sm mb-4">
+                    Issued {warning.issuedAt.toDate().toLocaleDateString()} by our moderators
+                </p>
+                <p className="text-white mb-4">{warning.reason}</p>
+                <p className="text-gray-300 text-sm mb-6">
+                    Please keep our community guidelines in mind. Further violations can lead to a suspension or a ban.
+                </p>
+                <button
+                    onClick={handleAcknowledge}
+                    disabled={saving}
+                    className="w-full px-4 py-2 bg-yellow-600 text-white rounded hover:bg-yellow-700 transition disabled:opacity-60"
+                >
+                    I understand
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default WarningNotice;
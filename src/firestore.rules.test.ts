@@ -0,0 +1,482 @@
+/**
+ * @jest-environment node
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+import {
+    addDoc,
+    collection,
+    deleteDoc,
+    deleteField,
+    doc,
+    Firestore,
+    getDoc,
+    getDocs,
+    query,
+    serverTimestamp,
+    setDoc,
+    Timestamp,
+    updateDoc,
+    where
+} from 'firebase/firestore';
+
+// These run against the Firestore emulator: `npm run test:rules`
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const ROOM_ID = 'room-1';
+
+describeWithEmulator('firestore.rules', () => {
+    let testEnv: RulesTestEnvironment;
+
+    const firestoreFor = (uid: string) =>
+        testEnv.authenticatedContext(uid).firestore() as unknown as Firestore;
+
+    const seed = async (path: string, data: object) => {
+        await testEnv.withSecurityRulesDisabled(async (context) => {
+            await setDoc(doc(context.firestore() as unknown as Firestore, path), data);
+        });
+    };
+
+    beforeAll(async () => {
+        testEnv = await initializeTestEnvironment({
+            projectId: 'demo-world-connect',
+            firestore: {
+                rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8')
+            }
+        });
+    });
+
+    afterAll(async () => {
+        await testEnv.cleanup();
+    });
+
+    beforeEach(async () => {
+        await testEnv.clearFirestore();
+        await seed(`rooms/${ROOM_ID}`, {
+            participant1Id: 'alice',
+            participant2Id: 'bob',
+            isActive: true,
+            createdAt: Timestamp.now()
+        });
+    });
+
+    describe('rooms', () => {
+        test('only participants can read a room', async () => {
+            await assertSucceeds(getDoc(doc(firestoreFor('alice'), 'rooms', ROOM_ID)));
+            await assertSucceeds(getDoc(doc(firestoreFor('bob'), 'rooms', ROOM_ID)));
+            await assertFails(getDoc(doc(firestoreFor('mallory'), 'rooms', ROOM_ID)));
+        });
+
+        test('participants can query their own active rooms', async () => {
+            const db = firestoreFor('alice');
+            await assertSucceeds(getDocs(query(
+                collection(db, 'rooms'),
+                where('isActive', '==', true),
+                where('participant1Id', '==', 'alice')
+            )));
+            await assertFails(getDocs(query(collection(db, 'rooms'), where('isActive', '==', true))));
+        });
+
+        test('rooms can only be opened by one of their participants', async () => {
+            const db = firestoreFor('alice');
+            await assertSucceeds(setDoc(doc(db, 'rooms', 'room-2'), {
+                participant1Id: 'alice',
+                participant2Id: 'carol',
+                isActive: true,
+                createdAt: Timestamp.now()
+            }));
+            await assertFails(setDoc(doc(db, 'rooms', 'room-3'), {
+                participant1Id: 'bob',
+                participant2Id: 'carol',
+                isActive: true,
+                createdAt: Timestamp.now()
+            }));
+        });
+
+        test('participants can heartbeat and end a room but not change who is in it', async () => {
+            const db = firestoreFor('bob');
+            const roomRef = doc(db, 'rooms', ROOM_ID);
+
+            await assertSucceeds(updateDoc(roomRef, { 'heartbeats.bob': serverTimestamp(), lastHeartbeatAt: serverTimestamp() }));
+            await assertFails(updateDoc(roomRef, { participant1Id: 'mallory' }));
+            await assertFails(updateDoc(doc(firestoreFor('mallory'), 'rooms', ROOM_ID), { isActive: false }));
+
+            await assertSucceeds(updateDoc(roomRef, { isActive: false, endReason: 'hangup', endedBy: 'bob', endedAt: Timestamp.now() }));
+            await assertFails(updateDoc(roomRef, { isActive: true }));
+        });
+
+        test('participants can only set their own heartbeat, typing and read state', async () => {
+            const roomRef = doc(firestoreFor('bob'), 'rooms', ROOM_ID);
+
+            await assertFails(updateDoc(roomRef, { 'heartbeats.alice': serverTimestamp() }));
+            await assertFails(updateDoc(roomRef, { 'heartbeats.alice': deleteField() }));
+
+            await assertSucceeds(updateDoc(roomRef, { 'typingUntil.bob': Date.now() + 5000 }));
+            await assertSucceeds(updateDoc(roomRef, { 'readUpTo.bob': Date.now() }));
+            await assertFails(updateDoc(roomRef, { 'readUpTo.alice': Date.now() }));
+            await assertFails(updateDoc(roomRef, { 'typingUntil.alice': Date.now() + 5000 }));
+        });
+    });
+
+    describe('chatMessages', () => {
+        const message = (senderId: string) => ({
+            roomId: ROOM_ID,
+            senderId,
+            content: 'hello',
+            timestamp: Timestamp.now()
+        });
+
+        test('participants can send messages in their own name only', async () => {
+            const db = firestoreFor('alice');
+            await assertSucceeds(addDoc(collection(db, 'chatMessages'), message('alice')));
+            await assertFails(addDoc(collection(db, 'chatMessages'), message('bob')));
+            await assertFails(addDoc(collection(firestoreFor('mallory'), 'chatMessages'), message('mallory')));
+        });
+
+        test('only participants can read a room\'s messages', async () => {
+            await seed('chatMessages/message-1', message('alice'));
+            const byRoom = (db: Firestore) => query(collection(db, 'chatMessages'), where('roomId', '==', ROOM_ID));
+
+            await assertSucceeds(getDocs(byRoom(firestoreFor('bob'))));
+            await assertFails(getDocs(byRoom(firestoreFor('mallory'))));
+            await assertFails(getDoc(doc(firestoreFor('mallory'), 'chatMessages', 'message-1')));
+        });
+
+        test('messages must be moderated before they are stored', async () => {
+            const collectionRef = collection(firestoreFor('alice'), 'chatMessages');
+
+            await assertSucceeds(addDoc(collectionRef, { ...message('alice'), content: 'see [link removed]', filtered: true }));
+            await assertFails(addDoc(collectionRef, { ...message('alice'), content: 'see https://example.com' }));
+            await assertFails(addDoc(collectionRef, { ...message('alice'), content: 'call me on +44 7700 900123' }));
+            await assertFails(addDoc(collectionRef, { ...message('alice'), content: 'x'.repeat(1001) }));
+            await assertFails(addDoc(collectionRef, { ...message('alice'), content: '' }));
+        });
+
+        test('rooms can allow contact details', async () => {
+            await seed(`rooms/${ROOM_ID}`, {
+                participant1Id: 'alice',
+                participant2Id: 'bob',
+                isActive: true,
+                createdAt: Timestamp.now(),
+                contentPolicy: { links: 'allow', emails: 'mask', phoneNumbers: 'mask' }
+            });
+            const collectionRef = collection(firestoreFor('alice'), 'chatMessages');
+
+            await assertSucceeds(addDoc(collectionRef, { ...message('alice'), content: 'see https://example.com' }));
+            await assertFails(addDoc(collectionRef, { ...message('alice'), content: 'mail me at a@example.com' }));
+        });
+
+        test('senders can edit and tombstone their own messages, but not delete them', async () => {
+            await seed('chatMessages/message-1', message('alice'));
+            const messageRef = doc(firestoreFor('alice'), 'chatMessages', 'message-1');
+
+            await assertFails(updateDoc(messageRef, { content: 'edited' }));
+            await assertFails(updateDoc(doc(firestoreFor('bob'), 'chatMessages', 'message-1'), { content: 'edited', editedAt: serverTimestamp() }));
+            await assertSucceeds(updateDoc(messageRef, { content: 'edited', editedAt: serverTimestamp() }));
+            await assertFails(deleteDoc(messageRef));
+
+            await assertSucceeds(updateDoc(messageRef, { content: '', deletedAt: serverTimestamp() }));
+            await assertFails(updateDoc(messageRef, { content: 'undeleted', editedAt: serverTimestamp() }));
+        });
+
+        test('messages can only be edited for five minutes', async () => {
+            await seed('chatMessages/message-1', { ...message('alice'), timestamp: Timestamp.fromMillis(Date.now() - 6 * 60 * 1000) });
+            const messageRef = doc(firestoreFor('alice'), 'chatMessages', 'message-1');
+
+            await assertFails(updateDoc(messageRef, { content: 'edited', editedAt: serverTimestamp() }));
+        });
+
+        test('participants can only set their own reaction', async () => {
+            await seed('chatMessages/message-1', message('alice'));
+            const messageRef = doc(firestoreFor('bob'), 'chatMessages', 'message-1');
+
+            await assertSucceeds(updateDoc(messageRef, { 'reactions.bob': '👍' }));
+            await assertFails(updateDoc(messageRef, { 'reactions.alice': '👍' }));
+            await assertFails(updateDoc(messageRef, { 'reactions.bob': '🦄' }));
+            await assertFails(updateDoc(doc(firestoreFor('mallory'), 'chatMessages', 'message-1'), { 'reactions.mallory': '👍' }));
+        });
+
+        test('no messages can be sent once the room has ended', async () => {
+            await seed(`rooms/${ROOM_ID}`, {
+                participant1Id: 'alice',
+                participant2Id: 'bob',
+                isActive: false,
+                createdAt: Timestamp.now()
+            });
+            await assertFails(addDoc(collection(firestoreFor('alice'), 'chatMessages'), message('alice')));
+        });
+    });
+
+    const friendship = (requesterId: string, addresseeId: string, status = 'pending') => ({
+        userIds: [requesterId, addresseeId].sort(),
+        requesterId,
+        addresseeId,
+        status,
+        createdAt: Timestamp.now()
+    });
+
+    describe('friendships', () => {
+        test('users can only send requests in their own name, under the pair id', async () => {
+            await assertSucceeds(setDoc(doc(firestoreFor('bob'), 'friendships', 'alice_bob'), friendship('bob', 'alice')));
+            await assertFails(setDoc(doc(firestoreFor('mallory'), 'friendships', 'alice_carol'), friendship('alice', 'carol')));
+            await assertFails(setDoc(doc(firestoreFor('carol'), 'friendships', 'carol_alice'), friendship('carol', 'alice')));
+            await assertFails(setDoc(doc(firestoreFor('carol'), 'friendships', 'alice_carol'), friendship('carol', 'alice', 'accepted')));
+        });
+
+        test('only the addressee can answer a request', async () => {
+            await seed('friendships/alice_bob', friendship('alice', 'bob'));
+
+            await assertFails(updateDoc(doc(firestoreFor('alice'), 'friendships', 'alice_bob'), { status: 'accepted' }));
+            await assertSucceeds(updateDoc(doc(firestoreFor('bob'), 'friendships', 'alice_bob'), { status: 'declined' }));
+            await assertFails(getDoc(doc(firestoreFor('mallory'), 'friendships', 'alice_bob')));
+
+            // Declined requests can be sent again, but not forced into accepted
+            await assertFails(setDoc(doc(firestoreFor('alice'), 'friendships', 'alice_bob'), friendship('alice', 'bob', 'accepted')));
+            await assertSucceeds(setDoc(doc(firestoreFor('alice'), 'friendships', 'alice_bob'), friendship('alice', 'bob')));
+        });
+    });
+
+    describe('callInvitations', () => {
+        const invitation = (callerId: string, calleeId: string) => ({
+            callerId,
+            calleeId,
+            roomId: ROOM_ID,
+            friendshipId: 'alice_bob',
+            status: 'pending',
+            createdAt: Timestamp.now(),
+            expiresAt: Timestamp.fromMillis(Date.now() + 30000)
+        });
+
+        test('only friends can call each other', async () => {
+            await seed('friendships/alice_bob', friendship('alice', 'bob'));
+            await assertFails(addDoc(collection(firestoreFor('alice'), 'callInvitations'), invitation('alice', 'bob')));
+
+            await seed('friendships/alice_bob', friendship('alice', 'bob', 'accepted'));
+            await assertSucceeds(addDoc(collection(firestoreFor('alice'), 'callInvitations'), invitation('alice', 'bob')));
+            await assertFails(addDoc(collection(firestoreFor('alice'), 'callInvitations'), invitation('bob', 'alice')));
+        });
+
+        test('only the callee answers and only the caller cancels', async () => {
+            await seed('callInvitations/call-1', invitation('alice', 'bob'));
+            const asAlice = doc(firestoreFor('alice'), 'callInvitations', 'call-1');
+            const asBob = doc(firestoreFor('bob'), 'callInvitations', 'call-1');
+
+            await assertFails(updateDoc(asAlice, { status: 'accepted' }));
+            await assertFails(updateDoc(asBob, { status: 'cancelled' }));
+            await assertFails(getDoc(doc(firestoreFor('mallory'), 'callInvitations', 'call-1')));
+            await assertSucceeds(updateDoc(asBob, { status: 'accepted' }));
+            await assertFails(updateDoc(asBob, { status: 'declined' }));
+            await assertFails(deleteDoc(asAlice));
+        });
+
+        test('either side can mark a ringing call missed, once', async () => {
+            await seed('callInvitations/call-1', invitation('alice', 'bob'));
+            await seed('callInvitations/call-2', invitation('alice', 'bob'));
+
+            await assertSucceeds(updateDoc(doc(firestoreFor('alice'), 'callInvitations', 'call-1'), { status: 'missed' }));
+            await assertFails(updateDoc(doc(firestoreFor('bob'), 'callInvitations', 'call-1'), { status: 'accepted' }));
+            await assertSucceeds(updateDoc(doc(firestoreFor('bob'), 'callInvitations', 'call-2'), { status: 'missed' }));
+        });
+    });
+
+    describe('blocks', () => {
+        test('users can only block in their own name and see their own blocks', async () => {
+            const block = { blockerId: 'alice', blockedId: 'mallory', createdAt: Timestamp.now() };
+
+            await assertSucceeds(setDoc(doc(firestoreFor('alice'), 'blocks', 'alice_mallory'), block));
+            await assertFails(setDoc(doc(firestoreFor('mallory'), 'blocks', 'alice_bob'), { ...block, blockedId: 'bob' }));
+            await assertFails(getDoc(doc(firestoreFor('mallory'), 'blocks', 'alice_mallory')));
+            await assertSucceeds(deleteDoc(doc(firestoreFor('alice'), 'blocks', 'alice_mallory')));
+        });
+
+        test('blocked pairs cannot open rooms or become friends, whoever blocked whom', async () => {
+            await seed('blocks/mallory_alice', { blockerId: 'mallory', blockedId: 'alice', createdAt: Timestamp.now() });
+            const room = { participant1Id: 'alice', participant2Id: 'mallory', isActive: true, createdAt: Timestamp.now() };
+
+            await assertFails(addDoc(collection(firestoreFor('alice'), 'rooms'), room));
+            await assertFails(addDoc(collection(firestoreFor('mallory'), 'rooms'), room));
+            await assertFails(setDoc(doc(firestoreFor('alice'), 'friendships', 'alice_mallory'), friendship('alice', 'mallory')));
+            await assertSucceeds(addDoc(collection(firestoreFor('alice'), 'rooms'), { ...room, participant2Id: 'bob' }));
+        });
+    });
+
+    describe('sanctions', () => {
+        const ticket = (userId: string) => ({ userId, status: 'waiting', createdAt: Timestamp.now() });
+        const room = { participant1Id: 'mallory', participant2Id: 'bob', isActive: true, createdAt: Timestamp.now() };
+
+        test('users cannot lift or set their own moderation state', async () => {
+            await seed('users/mallory', { uid: 'mallory', email: 'm@example.com', bannedAt: Timestamp.now() });
+            const db = firestoreFor('mallory');
+
+            await assertFails(updateDoc(doc(db, 'users', 'mallory'), { bannedAt: null }));
+            await assertFails(setDoc(doc(firestoreFor('alice'), 'users', 'alice'), {
+                uid: 'alice',
+                email: 'a@example.com',
+                suspendedUntil: Timestamp.now()
+            }));
+            await assertSucceeds(updateDoc(doc(db, 'users', 'mallory'), { username: 'mallory' }));
+        });
+
+        test('banned users cannot search or open rooms', async () => {
+            await seed('users/mallory', { uid: 'mallory', email: 'm@example.com', bannedAt: Timestamp.now() });
+            const db = firestoreFor('mallory');
+
+            await assertFails(addDoc(collection(db, 'matchQueue'), ticket('mallory')));
+            await assertFails(addDoc(collection(db, 'rooms'), room));
+        });
+
+        test('suspensions block matchmaking until they run out', async () => {
+            await seed('users/mallory', {
+                uid: 'mallory',
+                email: 'm@example.com',
+                suspendedUntil: Timestamp.fromMillis(Date.now() + 60 * 60 * 1000)
+            });
+            await seed('users/bob', {
+                uid: 'bob',
+                email: 'b@example.com',
+                suspendedUntil: Timestamp.fromMillis(Date.now() - 60 * 60 * 1000)
+            });
+
+            await assertFails(addDoc(collection(firestoreFor('mallory'), 'matchQueue'), ticket('mallory')));
+            await assertSucceeds(addDoc(collection(firestoreFor('bob'), 'matchQueue'), ticket('bob')));
+        });
+
+        test('searchers can only claim live tickets for themselves, into a room with the owner', async () => {
+            const expiresAt = Timestamp.fromMillis(Date.now() + 30 * 1000);
+            await seed('matchQueue/carol-ticket', { ...ticket('carol'), expiresAt });
+            await seed('matchQueue/stale-ticket', { ...ticket('dave'), expiresAt: Timestamp.fromMillis(Date.now() - 1000) });
+            await seed('users/mallory', {
+                uid: 'mallory',
+                email: 'm@example.com',
+                suspendedUntil: Timestamp.fromMillis(Date.now() + 60 * 60 * 1000)
+            });
+            const claim = (roomId: string, partnerId: string) => ({
+                status: 'matched',
+                matchedAt: Timestamp.now(),
+                roomId,
+                partnerId,
+                isInitiator: true
+            });
+
+            const bob = firestoreFor('bob');
+            const carolTicket = doc(bob, 'matchQueue', 'carol-ticket');
+            await assertFails(updateDoc(carolTicket, { status: 'expired' }));
+            await assertFails(updateDoc(carolTicket, claim('no-such-room', 'bob')));
+            await assertFails(updateDoc(carolTicket, { ...claim(ROOM_ID, 'alice') }));
+            await assertFails(updateDoc(carolTicket, { ...claim(ROOM_ID, 'bob'), criteria: {} }));
+            await assertSucceeds(updateDoc(doc(bob, 'matchQueue', 'stale-ticket'), { status: 'expired' }));
+
+            await seed('rooms/carol-bob', { participant1Id: 'carol', participant2Id: 'bob', isActive: true, createdAt: Timestamp.now() });
+            await seed('rooms/carol-mallory', { participant1Id: 'carol', participant2Id: 'mallory', isActive: true, createdAt: Timestamp.now() });
+            await assertFails(updateDoc(doc(firestoreFor('mallory'), 'matchQueue', 'carol-ticket'), claim('carol-mallory', 'mallory')));
+            await assertSucceeds(updateDoc(carolTicket, claim('carol-bob', 'bob')));
+        });
+
+        test('users can only acknowledge their own warnings', async () => {
+            await seed('sanctions/warning-1', {
+                userId: 'mallory',
+                type: 'warning',
+                reason: 'Be nice',
+                issuedBy: 'admin',
+                issuedAt: Timestamp.now()
+            });
+            const db = firestoreFor('mallory');
+            const warningRef = doc(db, 'sanctions', 'warning-1');
+
+            await assertSucceeds(getDoc(warningRef));
+            await assertFails(getDoc(doc(firestoreFor('alice'), 'sanctions', 'warning-1')));
+            await assertFails(updateDoc(warningRef, { reason: 'Nothing' }));
+            await assertSucceeds(updateDoc(warningRef, { acknowledgedAt: Timestamp.now() }));
+            await assertFails(addDoc(collection(db, 'sanctions'), {
+                userId: 'alice',
+                type: 'ban',
+                reason: 'Spite',
+                issuedBy: 'mallory',
+                issuedAt: Timestamp.now()
+            }));
+        });
+    });
+
+    describe('reports', () => {
+        const report = (reporterId: string) => ({
+            reporterId,
+            reportedUserId: 'mallory',
+            category: 'harassment',
+            reason: 'Rude',
+            evidence: { roomId: ROOM_ID },
+            timestamp: Timestamp.now(),
+            status: 'pending'
+        });
+
+        test('users file categorized reports in their own name and cannot read them back', async () => {
+            const db = firestoreFor('alice');
+
+            const reportRef = await assertSucceeds(addDoc(collection(db, 'reports'), report('alice')));
+            await assertFails(addDoc(collection(db, 'reports'), report('bob')));
+            await assertFails(addDoc(collection(db, 'reports'), { ...report('alice'), category: 'boring' }));
+            await assertFails(addDoc(collection(db, 'reports'), { ...report('alice'), status: 'actioned' }));
+            await assertFails(getDoc(reportRef));
+        });
+
+        test('evidence must come from the reporter\'s room and stay within the capture limits', async () => {
+            const db = firestoreFor('alice');
+            const line = { senderId: 'mallory', content: 'hi', sentAt: Date.now() };
+            const withEvidence = (evidence: object) => ({ ...report('alice'), evidence: { roomId: ROOM_ID, ...evidence } });
+
+            await assertSucceeds(addDoc(collection(db, 'reports'), withEvidence({
+                chatExcerpt: Array(20).fill(line),
+                snapshot: 'data:image/jpeg;base64,AAAA'
+            })));
+            await assertFails(addDoc(collection(db, 'reports'), withEvidence({ chatExcerpt: Array(21).fill(line) })));
+            await assertFails(addDoc(collection(db, 'reports'), withEvidence({ snapshot: `data:image/jpeg;base64,${'A'.repeat(100000)}` })));
+            await assertFails(addDoc(collection(db, 'reports'), withEvidence({ snapshot: 'https://example.com/fake.jpg' })));
+            await assertFails(addDoc(collection(db, 'reports'), withEvidence({ roomId: 'someone-elses-room' })));
+        });
+    });
+
+    describe('signaling', () => {
+        test('only participants can exchange ICE candidates, in their own name', async () => {
+            const candidate = (senderId: string) => ({
+                roomId: ROOM_ID,
+                senderId,
+                candidate: { candidate: 'candidate:1', sdpMid: '0', sdpMLineIndex: 0 },
+                timestamp: Timestamp.now()
+            });
+
+            await assertSucceeds(addDoc(collection(firestoreFor('alice'), 'iceCandidates'), candidate('alice')));
+            await assertFails(addDoc(collection(firestoreFor('alice'), 'iceCandidates'), candidate('bob')));
+            await assertFails(addDoc(collection(firestoreFor('mallory'), 'iceCandidates'), candidate('mallory')));
+
+            const fromAlice = (db: Firestore) => query(
+                collection(db, 'iceCandidates'),
+                where('roomId', '==', ROOM_ID),
+                where('senderId', '==', 'alice')
+            );
+            await assertSucceeds(getDocs(fromAlice(firestoreFor('bob'))));
+            await assertFails(getDocs(fromAlice(firestoreFor('mallory'))));
+        });
+
+        test('session descriptions are append-only', async () => {
+            const db = firestoreFor('alice');
+            const description = {
+                roomId: ROOM_ID,
+                senderId: 'alice',
+                type: 'offer',
+                sdp: 'v=0',
+                version: 1,
+                timestamp: Timestamp.now()
+            };
+
+            const descriptionRef = await assertSucceeds(addDoc(collection(db, 'sessionDescriptions'), description));
+            await assertFails(updateDoc(descriptionRef, { sdp: 'tampered' }));
+            await assertFails(addDoc(collection(firestoreFor('mallory'), 'sessionDescriptions'), { ...description, senderId: 'mallory' }));
+        });
+    });
+});
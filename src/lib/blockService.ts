@@ -0,0 +1,92 @@
+import {
+    collection,
+    doc,
+    deleteDoc,
+    getDocs,
+    query,
+    where,
+    onSnapshot,
+    runTransaction,
+    Timestamp
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { friendshipCollection, getFriendshipId } from "./friendService";
+
+// One user blocking another. Blocks are one-way and private to the blocker, but
+// the rules refuse rooms and friend requests between a pair in either direction.
+export interface Block {
+    id: string;
+    blockerId: string;
+    blockedId: string;
+    createdAt: Timestamp;
+}
+
+export const blockCollection = collection(db, "blocks");
+
+// Deterministic id, so the rules can check a block with a single lookup
+export const getBlockId = (blockerId: string, blockedId: string): string =>
+    `${blockerId}_${blockedId}`;
+
+// Block a user; any friendship or request between the two is dropped in the same
+// transaction. Most blocked users were never friends, so the delete only happens
+// when there is something to delete, which the rules require.
+export const blockUser = async (blockerId: string, blockedId: string): Promise<boolean> => {
+    try {
+        await runTransaction(db, async (transaction) => {
+            const friendshipRef = doc(friendshipCollection, getFriendshipId(blockerId, blockedId));
+            const friendship = await transaction.get(friendshipRef);
+
+            transaction.set(doc(blockCollection, getBlockId(blockerId, blockedId)), {
+                blockerId,
+                blockedId,
+                createdAt: Timestamp.now()
+            });
+            if (friendship.exists()) {
+                transaction.delete(friendshipRef);
+            }
+        });
+        return true;
+    } catch (error) {
+        console.error("Error blocking user:", error);
+        return false;
+    }
+};
+
+export const unblockUser = async (blockerId: string, blockedId: string): Promise<boolean> => {
+    try {
+        await deleteDoc(doc(blockCollection, getBlockId(blockerId, blockedId)));
+        return true;
+    } catch (error) {
+        console.error("Error unblocking user:", error);
+        return false;
+    }
+};
+
+// Ids of everyone the user has blocked
+export const getBlockedUserIds = async (blockerId: string): Promise<string[]> => {
+    try {
+        const snapshot = await getDocs(query(blockCollection, where("blockerId", "==", blockerId)));
+        return snapshot.docs.map(doc => (doc.data() as Omit<Block, "id">).blockedId);
+    } catch (error) {
+        console.error("Error getting blocked users:", error);
+        return [];
+    }
+};
+
+// The user's block list, kept up to date
+export const subscribeToBlocks = (
+    blockerId: string,
+    callback: (blocks: Block[]) => void
+): () => void => {
+    const q = query(blockCollection, where("blockerId", "==", blockerId));
+
+    return onSnapshot(q, (snapshot) => {
+        const blocks = snapshot.docs.map(doc => ({
+            id: doc.id,
+            ...(doc.data() as Omit<Block, "id">)
+        }));
+        callback(blocks);
+    }, (error) => {
+        console.error("Error subscribing to blocks:", error);
+    });
+};
@@ -0,0 +1,252 @@
+import {
+    collection,
+    doc,
+    addDoc,
+    query,
+    where,
+    onSnapshot,
+    runTransaction,
+    Timestamp
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { createRoomWithUser, endRoom } from "./roomService";
+import { getFriendshipId } from "./friendService";
+
+export type CallInvitationStatus = 'pending' | 'accepted' | 'declined' | 'missed' | 'cancelled';
+
+// Every way a call can end without being answered
+export type CallEndStatus = Exclude<CallInvitationStatus, 'pending' | 'accepted'>;
+
+// A direct call to a friend. The room exists from the start; the callee joins it by accepting.
+export interface CallInvitation {
+    id: string;
+    callerId: string;
+    calleeId: string;
+    roomId: string;
+    // Calls are only allowed between friends; the rules check this friendship
+    friendshipId: string;
+    status: CallInvitationStatus;
+    createdAt: Timestamp;
+    // The call stops ringing and counts as missed after this
+    expiresAt: Timestamp;
+    respondedAt?: Timestamp;
+}
+
+export interface CallHandlers {
+    onAccepted: (invitation: CallInvitation) => void;
+    onEnded: (status: CallEndStatus) => void;
+    onError?: (error: Error) => void;
+}
+
+export interface CallHandle {
+    cancel: () => Promise<void>;
+}
+
+export const callInvitationCollection = collection(db, "callInvitations");
+
+// How long a call rings before it is marked missed
+export const CALL_RING_TIMEOUT_MS = 30 * 1000;
+
+export const isCallExpired = (invitation: Pick<CallInvitation, "expiresAt">, now: number = Date.now()): boolean =>
+    invitation.expiresAt.toMillis() <= now;
+
+// Open a room with a friend and ring them
+export const inviteToCall = async (callerId: string, calleeId: string): Promise<CallInvitation | null> => {
+    try {
+        const { roomId } = await createRoomWithUser(callerId, calleeId);
+        const now = Date.now();
+
+        const invitationData = {
+            callerId,
+            calleeId,
+            roomId,
+            friendshipId: getFriendshipId(callerId, calleeId),
+            status: 'pending' as CallInvitationStatus,
+            createdAt: Timestamp.fromMillis(now),
+            expiresAt: Timestamp.fromMillis(now + CALL_RING_TIMEOUT_MS)
+        };
+
+        const invitationRef = await addDoc(callInvitationCollection, invitationData);
+        return { id: invitationRef.id, ...invitationData };
+    } catch (error) {
+        console.error("Error inviting to call:", error);
+        return null;
+    }
+};
+
+// Move a ringing invitation to its final state. Resolves to the invitation as it ended up,
+// which may differ when the other side answered, hung up or the call timed out first.
+const settleCallInvitation = async (
+    invitationId: string,
+    status: Exclude<CallInvitationStatus, 'pending'>
+): Promise<CallInvitation | null> => {
+    try {
+        return await runTransaction(db, async (transaction) => {
+            const invitationRef = doc(callInvitationCollection, invitationId);
+            const invitationSnap = await transaction.get(invitationRef);
+
+            if (!invitationSnap.exists()) return null;
+
+            const invitation = { id: invitationSnap.id, ...(invitationSnap.data() as Omit<CallInvitation, "id">) };
+            if (invitation.status !== 'pending') return invitation;
+
+            // Answering too late only records the missed call
+            const finalStatus = status !== 'cancelled' && isCallExpired(invitation) ? 'missed' : status;
+            transaction.update(invitationRef, { status: finalStatus, respondedAt: Timestamp.now() });
+            return { ...invitation, status: finalStatus };
+        });
+    } catch (error) {
+        console.error("Error settling call invitation:", error);
+        return null;
+    }
+};
+
+// Accept or decline a call addressed to the user; false if it stopped ringing in the meantime
+export const respondToCallInvitation = async (invitationId: string, accept: boolean): Promise<boolean> => {
+    const status = accept ? 'accepted' : 'declined';
+    const invitation = await settleCallInvitation(invitationId, status);
+    return invitation?.status === status;
+};
+
+// Nobody answered in time
+export const markCallMissed = (invitationId: string): Promise<CallInvitation | null> =>
+    settleCallInvitation(invitationId, 'missed');
+
+// The caller hangs up before the callee answers
+export const cancelCallInvitation = async (invitation: CallInvitation): Promise<CallInvitation | null> => {
+    const settled = await settleCallInvitation(invitation.id, 'cancelled');
+    await endRoom(invitation.roomId, 'cancelled', invitation.callerId);
+    return settled;
+};
+
+// Follow one invitation, e.g. the caller waiting for an answer; null once it is gone
+export const subscribeToCallInvitation = (
+    invitationId: string,
+    callback: (invitation: CallInvitation | null) => void
+): () => void => {
+    return onSnapshot(doc(callInvitationCollection, invitationId), (snapshot) => {
+        if (snapshot.exists()) {
+            callback({
+                id: snapshot.id,
+                ...(snapshot.data() as Omit<CallInvitation, "id">)
+            });
+        } else {
+            callback(null);
+        }
+    });
+};
+
+// Calls ringing for the user right now
+export const subscribeToIncomingCalls = (
+    userId: string,
+    callback: (invitations: CallInvitation[]) => void
+): () => void => {
+    const q = query(
+        callInvitationCollection,
+        where("calleeId", "==", userId),
+        where("status", "==", "pending")
+    );
+
+    return onSnapshot(q, (snapshot) => {
+        const invitations = snapshot.docs
+            .map(doc => ({
+                id: doc.id,
+                ...(doc.data() as Omit<CallInvitation, "id">)
+            }))
+            // A caller who vanished never marks their call missed; the sweeper catches up later
+            .filter(invitation => !isCallExpired(invitation));
+        callback(invitations);
+    }, (error) => {
+        console.error("Error subscribing to incoming calls:", error);
+    });
+};
+
+// Ring a friend until they answer, decline or the call times out. The room
+// is closed again whenever the call ends without being accepted.
+export const startCall = (
+    callerId: string,
+    calleeId: string,
+    handlers: CallHandlers,
+    timeoutMs: number = CALL_RING_TIMEOUT_MS
+): CallHandle => {
+    let invitation: CallInvitation | null = null;
+    let finished = false;
+    let unsubscribeInvitation: (() => void) | null = null;
+    let ringTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const cleanup = () => {
+        if (unsubscribeInvitation) {
+            unsubscribeInvitation();
+            unsubscribeInvitation = null;
+        }
+        if (ringTimer) {
+            clearTimeout(ringTimer);
+            ringTimer = null;
+        }
+    };
+
+    const end = (status: CallEndStatus) => {
+        if (finished) return;
+        finished = true;
+        cleanup();
+        if (invitation) {
+            endRoom(invitation.roomId, 'cancelled', callerId);
+        }
+        handlers.onEnded(status);
+    };
+
+    const fail = (error: unknown) => {
+        if (finished) return;
+        finished = true;
+        cleanup();
+        console.error("Call failed:", error);
+        if (invitation) {
+            cancelCallInvitation(invitation);
+        }
+        handlers.onError?.(error instanceof Error ? error : new Error("Call failed"));
+    };
+
+    const run = async () => {
+        const created = await inviteToCall(callerId, calleeId);
+        if (!created) {
+            throw new Error("Could not create the call invitation");
+        }
+        invitation = created;
+
+        if (finished) {
+            // Cancelled while the invitation was being created
+            await cancelCallInvitation(created);
+            return;
+        }
+
+        unsubscribeInvitation = subscribeToCallInvitation(created.id, (current) => {
+            if (!current) {
+                fail(new Error("Call invitation was removed"));
+            } else if (current.status === 'accepted') {
+                finished = true;
+                cleanup();
+                handlers.onAccepted(current);
+            } else if (current.status !== 'pending') {
+                end(current.status);
+            }
+        });
+
+        ringTimer = setTimeout(() => {
+            markCallMissed(created.id);
+        }, timeoutMs);
+    };
+
+    run().catch(fail);
+
+    return {
+        cancel: async () => {
+            if (finished) return;
+            finished = true;
+            cleanup();
+
+            if (invitation) {
+                await cancelCallInvitation(invitation);
+            }
+        }
+    };
+};
@@ -0,0 +1,119 @@
+import {
+    CallStats,
+    CallStatsMonitor,
+    formatBitrate,
+    isRelayed,
+    readCallStats,
+    signalBars
+} from './callStats';
+
+const report = (entries: object[]) =>
+    new Map(entries.map((entry, index) => [`stat-${index}`, { id: `stat-${index}`, timestamp: 0, ...entry }])) as unknown as RTCStatsReport;
+
+// A call two seconds apart: the same streams with their running totals moved on
+const callReport = (timestamp: number, bytes: number, packets: number, packetsLost: number) => report([
+    { id: 'codec-vp8', type: 'codec', mimeType: 'video/VP8' },
+    { id: 'codec-opus', type: 'codec', mimeType: 'audio/opus' },
+    {
+        type: 'outbound-rtp', kind: 'video', timestamp, codecId: 'codec-vp8',
+        frameWidth: 640, frameHeight: 480, framesPerSecond: 30, bytesSent: bytes, packetsSent: packets
+    },
+    { type: 'remote-inbound-rtp', kind: 'video', packetsLost, roundTripTime: 0.2, jitter: 0.004, fractionLost: 0.01 },
+    {
+        type: 'inbound-rtp', kind: 'audio', timestamp, codecId: 'codec-opus',
+        bytesReceived: bytes / 10, packetsReceived: packets - packetsLost, packetsLost, jitter: 0.012
+    },
+    { id: 'transport', type: 'transport', selectedCandidatePairId: 'pair' },
+    { id: 'pair', type: 'candidate-pair', localCandidateId: 'local', remoteCandidateId: 'remote', currentRoundTripTime: 0.08 },
+    { id: 'local', type: 'local-candidate', candidateType: 'srflx', protocol: 'udp' },
+    { id: 'remote', type: 'remote-candidate', candidateType: 'relay', protocol: 'udp' }
+]);
+
+test('reads codec, resolution, jitter and the selected candidate pair', () => {
+    const stats = readCallStats(callReport(1000, 100000, 100, 0));
+
+    expect(stats.sent.video).toMatchObject({ codec: 'VP8', width: 640, height: 480, framesPerSecond: 30, jitterMs: 4 });
+    expect(stats.received.audio).toMatchObject({ codec: 'opus', jitterMs: 12, packetLossRate: 0 });
+    expect(stats.sent.audio).toBeNull();
+    // The pair's round-trip time wins over the partner's report
+    expect(stats.rttMs).toBe(80);
+    expect(stats.candidatePair).toEqual({ localType: 'srflx', remoteType: 'relay', protocol: 'udp' });
+    expect(isRelayed(stats.candidatePair)).toBe(true);
+
+    // Nothing to measure a bitrate over yet, and the partner's own loss figure stands in
+    expect(stats.sent.video?.bitrate).toBeNull();
+    expect(stats.sent.video?.packetLossRate).toBe(0.01);
+});
+
+test('works out bitrate and loss over the interval since the previous reading', () => {
+    const first = readCallStats(callReport(1000, 100000, 100, 0));
+    const second = readCallStats(callReport(3000, 350000, 300, 20), first);
+
+    // 250 kB over two seconds
+    expect(second.sent.video?.bitrate).toBe(1000000);
+    expect(second.received.audio?.bitrate).toBe(100000);
+    expect(second.sent.video?.packetLossRate).toBeCloseTo(0.1);
+    expect(second.received.audio?.packetLossRate).toBeCloseTo(0.1);
+});
+
+test('falls back to the nominated pair when there is no transport entry', () => {
+    const stats = readCallStats(report([
+        { id: 'old', type: 'candidate-pair', nominated: true, state: 'failed', localCandidateId: 'a' },
+        { id: 'pair', type: 'candidate-pair', nominated: true, state: 'succeeded', localCandidateId: 'local', remoteCandidateId: 'remote' },
+        { id: 'local', type: 'local-candidate', candidateType: 'host', protocol: 'tcp' },
+        { id: 'remote', type: 'remote-candidate', candidateType: 'host' }
+    ]));
+
+    expect(stats.candidatePair).toEqual({ localType: 'host', remoteType: 'host', protocol: 'tcp' });
+    expect(isRelayed(stats.candidatePair)).toBe(false);
+    expect(stats.rttMs).toBeNull();
+});
+
+test('the worst reading decides the signal bars', () => {
+    const stats = readCallStats(callReport(1000, 100000, 100, 0));
+    expect(signalBars(stats)).toBe(4);
+
+    const withRtt = (rttMs: number): CallStats => ({ ...stats, rttMs });
+    expect(signalBars(withRtt(200))).toBe(3);
+    expect(signalBars(withRtt(450))).toBe(2);
+    expect(signalBars(withRtt(900))).toBe(1);
+
+    const lossy = readCallStats(callReport(3000, 350000, 300, 20), stats);
+    expect(signalBars(lossy)).toBe(1);
+
+    expect(signalBars(readCallStats(report([])))).toBeNull();
+    expect(signalBars(null)).toBeNull();
+});
+
+test('formats bitrates', () => {
+    expect(formatBitrate(null)).toBe('—');
+    expect(formatBitrate(348600)).toBe('349 kbps');
+    expect(formatBitrate(1250000)).toBe('1.3 Mbps');
+});
+
+test('the monitor reports each reading and keeps polling in order', async () => {
+    const readings = [callReport(1000, 100000, 100, 0), callReport(3000, 350000, 300, 0)];
+    const source = { getStats: jest.fn(async () => readings.shift() as RTCStatsReport) };
+    const first = readings[0];
+    const monitor = new CallStatsMonitor({ source });
+    const bitrates: (number | null | undefined)[] = [];
+    const reports: RTCStatsReport[] = [];
+    monitor.on('stats', stats => bitrates.push(stats.sent.video?.bitrate));
+    monitor.on('report', report => reports.push(report));
+
+    await monitor.poll();
+    await monitor.poll();
+    expect(bitrates).toEqual([null, 1000000]);
+    // The raw reports are passed on for the quality controller
+    expect(reports).toHaveLength(2);
+    expect(reports[0]).toBe(first);
+    expect(monitor.getStats()?.sent.video?.width).toBe(640);
+
+    const errors: Error[] = [];
+    monitor.on('error', error => errors.push(error));
+    source.getStats.mockRejectedValueOnce(new Error('closed'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await monitor.poll();
+    expect(errors.map(error => error.message)).toEqual(['closed']);
+    consoleError.mockRestore();
+});
@@ -0,0 +1,327 @@
+// Connection statistics for the call overlay. A monitor polls the peer connection's
+// getStats() and boils the report down to what helps when someone says a call was bad:
+// codec, resolution, framerate and bitrate of each stream, round-trip time, jitter,
+// packet loss, and whether the media goes direct or through a TURN relay.
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface RtpStreamStats {
+    // e.g. "VP8" or "opus"
+    codec: string | null;
+    width: number | null;
+    height: number | null;
+    framesPerSecond: number | null;
+    // Bits per second since the previous reading
+    bitrate: number | null;
+    // Share of packets lost since the previous reading, 0 to 1
+    packetLossRate: number | null;
+    jitterMs: number | null;
+}
+
+export interface StreamDirectionStats {
+    audio: RtpStreamStats | null;
+    video: RtpStreamStats | null;
+}
+
+export interface CandidatePairStats {
+    localType: CandidateType | null;
+    remoteType: CandidateType | null;
+    // "udp" or "tcp"
+    protocol: string | null;
+}
+
+// Running totals per stream, kept to work out the next reading's bitrate and loss
+export interface StreamCounters {
+    timestamp: number;
+    bytes: number;
+    // Packets that were sent, or for received streams that should have arrived
+    packets: number;
+    packetsLost: number;
+}
+
+export interface CallStats {
+    timestamp: number;
+    sent: StreamDirectionStats;
+    received: StreamDirectionStats;
+    rttMs: number | null;
+    candidatePair: CandidatePairStats | null;
+    counters: Record<string, StreamCounters>;
+}
+
+export interface CallStatsMonitorEvents {
+    // The raw getStats() report, for anything else that reads the call's stats, such as
+    // the QualityController, so the call is only polled once
+    report: RTCStatsReport;
+    stats: CallStats;
+    error: Error;
+}
+
+export interface CallStatsMonitorOptions {
+    source: Pick<RTCPeerConnection, 'getStats'>;
+    pollIntervalMs?: number;
+}
+
+export const DEFAULT_CALL_STATS_POLL_INTERVAL_MS = 2000;
+
+// Signal bars, from 1 (poor) to 4 (excellent): a reading earns a bar for each of these
+// limits it stays within, and the worst reading decides
+const SIGNAL_LIMITS = {
+    lossRate: [0.08, 0.03, 0.01],
+    rttMs: [500, 300, 150],
+    jitterMs: [100, 50, 30]
+};
+
+export const MAX_SIGNAL_BARS = SIGNAL_LIMITS.rttMs.length + 1;
+
+type CallStatsMonitorListener<K extends keyof CallStatsMonitorEvents> = (payload: CallStatsMonitorEvents[K]) => void;
+
+// The subset of the stats entries read here
+interface StatsEntry {
+    id: string;
+    type: string;
+    timestamp: number;
+    kind?: string;
+    codecId?: string;
+    mimeType?: string;
+    frameWidth?: number;
+    frameHeight?: number;
+    framesPerSecond?: number;
+    bytesSent?: number;
+    bytesReceived?: number;
+    packetsSent?: number;
+    packetsReceived?: number;
+    packetsLost?: number;
+    fractionLost?: number;
+    jitter?: number;
+    roundTripTime?: number;
+    currentRoundTripTime?: number;
+    selectedCandidatePairId?: string;
+    localCandidateId?: string;
+    remoteCandidateId?: string;
+    nominated?: boolean;
+    selected?: boolean;
+    state?: string;
+    candidateType?: CandidateType;
+    protocol?: string;
+}
+
+const EMPTY_STREAM_STATS: RtpStreamStats = {
+    codec: null,
+    width: null,
+    height: null,
+    framesPerSecond: null,
+    bitrate: null,
+    packetLossRate: null,
+    jitterMs: null
+};
+
+const isMediaKind = (kind: string | undefined): kind is 'audio' | 'video' =>
+    kind === 'audio' || kind === 'video';
+
+const codecName = (entries: Map<string, StatsEntry>, codecId: string | undefined): string | null => {
+    const mimeType = codecId ? entries.get(codecId)?.mimeType : undefined;
+    return mimeType ? mimeType.split('/').pop() || null : null;
+};
+
+// Transport stats name the pair in use; Firefox marks it as selected instead
+const selectedCandidatePair = (entries: Map<string, StatsEntry>): StatsEntry | null => {
+    const all = Array.from(entries.values());
+    const transport = all.find(entry => entry.type === 'transport' && entry.selectedCandidatePairId);
+    if (transport?.selectedCandidatePairId) {
+        const pair = entries.get(transport.selectedCandidatePairId);
+        if (pair) return pair;
+    }
+
+    return all.find(entry => entry.type === 'candidate-pair' && entry.selected)
+        || all.find(entry => entry.type === 'candidate-pair' && entry.nominated && entry.state === 'succeeded')
+        || null;
+};
+
+const bitrateSince = (current: StreamCounters, previous: StreamCounters | undefined): number | null => {
+    if (!previous || current.timestamp <= previous.timestamp || current.bytes < previous.bytes) return null;
+    return ((current.bytes - previous.bytes) * 8) / ((current.timestamp - previous.timestamp) / 1000);
+};
+
+// Loss over the interval when there is one, otherwise over the whole call so far
+const lossSince = (current: StreamCounters, previous: StreamCounters | undefined): number | null => {
+    const packets = current.packets - (previous?.packets ?? 0);
+    const lost = Math.max(0, current.packetsLost - (previous?.packetsLost ?? 0));
+    if (packets <= 0) return null;
+    return Math.min(1, lost / packets);
+};
+
+// Read one getStats() report; pass the previous reading to get bitrates and loss over the interval
+export const readCallStats = (report: RTCStatsReport, previous?: CallStats): CallStats => {
+    const entries = new Map<string, StatsEntry>();
+    report.forEach((stat: StatsEntry) => entries.set(stat.id, stat));
+
+    const sent: StreamDirectionStats = { audio: null, video: null };
+    const received: StreamDirectionStats = { audio: null, video: null };
+    const counters: Record<string, StreamCounters> = {};
+    let rttMs: number | null = null;
+    let timestamp = 0;
+
+    entries.forEach(stat => {
+        timestamp = Math.max(timestamp, stat.timestamp ?? 0);
+        if (!isMediaKind(stat.kind)) return;
+
+        if (stat.type === 'outbound-rtp') {
+            // The partner's report on what it received from us
+            const remote = Array.from(entries.values())
+                .find(entry => entry.type === 'remote-inbound-rtp' && entry.kind === stat.kind);
+            const key = `sent-${stat.kind}`;
+            const current: StreamCounters = {
+                timestamp: stat.timestamp,
+                bytes: stat.bytesSent ?? 0,
+                packets: stat.packetsSent ?? 0,
+                packetsLost: remote?.packetsLost ?? 0
+            };
+            counters[key] = current;
+
+            if (remote?.roundTripTime !== undefined && rttMs === null) rttMs = remote.roundTripTime * 1000;
+            sent[stat.kind] = {
+                codec: codecName(entries, stat.codecId),
+                width: stat.frameWidth ?? null,
+                height: stat.frameHeight ?? null,
+                framesPerSecond: stat.framesPerSecond ?? null,
+                bitrate: bitrateSince(current, previous?.counters[key]),
+                packetLossRate: remote
+                    ? (previous?.counters[key] ? lossSince(current, previous.counters[key]) : remote.fractionLost ?? null)
+                    : null,
+                jitterMs: remote?.jitter !== undefined ? remote.jitter * 1000 : null
+            };
+        } else if (stat.type === 'inbound-rtp') {
+            const key = `received-${stat.kind}`;
+            const current: StreamCounters = {
+                timestamp: stat.timestamp,
+                bytes: stat.bytesReceived ?? 0,
+                packets: (stat.packetsReceived ?? 0) + (stat.packetsLost ?? 0),
+                packetsLost: stat.packetsLost ?? 0
+            };
+            counters[key] = current;
+
+            received[stat.kind] = {
+                codec: codecName(entries, stat.codecId),
+                width: stat.frameWidth ?? null,
+                height: stat.frameHeight ?? null,
+                framesPerSecond: stat.framesPerSecond ?? null,
+                bitrate: bitrateSince(current, previous?.counters[key]),
+                packetLossRate: lossSince(current, previous?.counters[key]),
+                jitterMs: stat.jitter !== undefined ? stat.jitter * 1000 : null
+            };
+        }
+    });
+
+    const pair = selectedCandidatePair(entries);
+    let candidatePair: CandidatePairStats | null = null;
+    if (pair) {
+        const local = pair.localCandidateId ? entries.get(pair.localCandidateId) : undefined;
+        const remote = pair.remoteCandidateId ? entries.get(pair.remoteCandidateId) : undefined;
+        candidatePair = {
+            localType: local?.candidateType ?? null,
+            remoteType: remote?.candidateType ?? null,
+            protocol: local?.protocol ?? null
+        };
+        // The pair's own measurement covers the whole path, whatever is being sent
+        if (pair.currentRoundTripTime !== undefined) rttMs = pair.currentRoundTripTime * 1000;
+    }
+
+    return { timestamp, sent, received, rttMs, candidatePair, counters };
+};
+
+const streams = (stats: CallStats): RtpStreamStats[] =>
+    [stats.sent.audio, stats.sent.video, stats.received.audio, stats.received.video]
+        .map(stream => stream || EMPTY_STREAM_STATS);
+
+const barsFor = (value: number | null, limits: number[]): number | null =>
+    value === null ? null : 1 + limits.filter(limit => value <= limit).length;
+
+// How good the connection is, in signal bars; null until there is anything to go on
+export const signalBars = (stats: CallStats | null): number | null => {
+    if (!stats) return null;
+
+    const all = streams(stats);
+    const readings = [
+        barsFor(stats.rttMs, SIGNAL_LIMITS.rttMs),
+        ...all.map(stream => barsFor(stream.packetLossRate, SIGNAL_LIMITS.lossRate)),
+        ...all.map(stream => barsFor(stream.jitterMs, SIGNAL_LIMITS.jitterMs))
+    ].filter((bars): bars is number => bars !== null);
+
+    return readings.length > 0 ? Math.min(...readings) : null;
+};
+
+// Whether the call goes through a TURN server rather than directly between the two browsers
+export const isRelayed = (pair: CandidatePairStats | null): boolean =>
+    pair?.localType === 'relay' || pair?.remoteType === 'relay';
+
+export const formatBitrate = (bitsPerSecond: number | null): string => {
+    if (bitsPerSecond === null) return '—';
+    if (bitsPerSecond >= 1000000) return `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`;
+    return `${Math.round(bitsPerSecond / 1000)} kbps`;
+};
+
+export class CallStatsMonitor {
+    private readonly options: CallStatsMonitorOptions;
+    private lastStats: CallStats | undefined;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    // One getStats() call at a time, so a slow one cannot be overtaken
+    private queue: Promise<void> = Promise.resolve();
+    private listeners: { [K in keyof CallStatsMonitorEvents]: Set<CallStatsMonitorListener<K>> } = {
+        report: new Set(),
+        stats: new Set(),
+        error: new Set()
+    };
+
+    constructor(options: CallStatsMonitorOptions) {
+        this.options = options;
+    }
+
+    // Register a listener; returns a function that removes it
+    on<K extends keyof CallStatsMonitorEvents>(event: K, listener: CallStatsMonitorListener<K>): () => void {
+        this.listeners[event].add(listener);
+
+        return () => {
+            this.listeners[event].delete(listener);
+        };
+    }
+
+    getStats(): CallStats | null {
+        return this.lastStats ?? null;
+    }
+
+    start(): void {
+        if (this.timer) return;
+
+        this.poll();
+        this.timer = setInterval(() => {
+            this.poll();
+        }, this.options.pollIntervalMs ?? DEFAULT_CALL_STATS_POLL_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Take one reading; exposed so tests need not wait for the timer
+    poll(): Promise<void> {
+        this.queue = this.queue.then(async () => {
+            const report = await this.options.source.getStats();
+            this.emit('report', report);
+
+            const stats = readCallStats(report, this.lastStats);
+            this.lastStats = stats;
+            this.emit('stats', stats);
+        }).catch(error => {
+            console.error("Error reading call stats:", error);
+            this.emit('error', error instanceof Error ? error : new Error("Error reading call stats"));
+        });
+        return this.queue;
+    }
+
+    private emit<K extends keyof CallStatsMonitorEvents>(event: K, payload: CallStatsMonitorEvents[K]): void {
+        this.listeners[event].forEach(listener => listener(payload));
+    }
+}
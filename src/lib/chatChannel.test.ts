@@ -0,0 +1,330 @@
+import {
+    CHAT_EDIT_WINDOW_MS,
+    ChatChannel,
+    ChatChannelMessage,
+    ChatDeliveryStatus,
+    ChatEnvelope,
+    ChatMessageChanges,
+    ChatMessageUpdate,
+    ChatSignals,
+    ChatStore
+} from './chatChannel';
+import { createChatModeration, DEFAULT_ROOM_CONTENT_POLICY } from './moderationService';
+import { createChannelPair, wait } from '../test-utils/fakeDataChannel';
+
+// Stands in for the chatMessages collection and room document both sides read
+class MemoryChatStore implements ChatStore {
+    messages: ChatEnvelope[] = [];
+    signals: ChatSignals = { typingUntil: {}, readUpTo: {} };
+    private listeners = new Set<(message: ChatEnvelope) => void>();
+    private signalListeners = new Set<(signals: ChatSignals) => void>();
+
+    async save(message: ChatEnvelope): Promise<void> {
+        this.messages.push(message);
+        this.listeners.forEach(listener => setTimeout(() => listener(message), 0));
+    }
+
+    async update(id: string, update: ChatMessageUpdate): Promise<void> {
+        const index = this.messages.findIndex(message => message.id === id);
+        if (index < 0) throw new Error(`No stored message ${id}`);
+
+        const message = this.messages[index];
+        let updated: ChatEnvelope;
+        if (update.kind === 'edit') {
+            updated = { ...message, content: update.content, flags: update.flags, editedAt: update.editedAt };
+        } else if (update.kind === 'delete') {
+            updated = { ...message, content: '', deletedAt: update.deletedAt };
+        } else {
+            const reactions = { ...message.reactions };
+            if (update.reaction) {
+                reactions[update.userId] = update.reaction;
+            } else {
+                delete reactions[update.userId];
+            }
+            updated = { ...message, reactions };
+        }
+
+        this.messages[index] = updated;
+        this.listeners.forEach(listener => setTimeout(() => listener(updated), 0));
+    }
+
+    subscribe(callback: (message: ChatEnvelope) => void): () => void {
+        this.messages.forEach(callback);
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    async setTyping(userId: string, typingUntil: number | null): Promise<void> {
+        const typing = { ...this.signals.typingUntil };
+        if (typingUntil === null) {
+            delete typing[userId];
+        } else {
+            typing[userId] = typingUntil;
+        }
+        this.updateSignals({ ...this.signals, typingUntil: typing });
+    }
+
+    async markRead(userId: string, readUpTo: number): Promise<void> {
+        this.updateSignals({ ...this.signals, readUpTo: { ...this.signals.readUpTo, [userId]: readUpTo } });
+    }
+
+    subscribeToSignals(callback: (signals: ChatSignals) => void): () => void {
+        this.signalListeners.add(callback);
+        return () => {
+            this.signalListeners.delete(callback);
+        };
+    }
+
+    private updateSignals(signals: ChatSignals): void {
+        this.signals = signals;
+        this.signalListeners.forEach(listener => setTimeout(() => listener(signals), 0));
+    }
+}
+
+// Every channel a test opens, closed afterwards so no ack or typing timer outlives it
+const openChannels: ChatChannel[] = [];
+
+const createChannel = (options: ConstructorParameters<typeof ChatChannel>[0]) => {
+    const channel = new ChatChannel(options);
+    openChannels.push(channel);
+    return channel;
+};
+
+afterEach(() => {
+    openChannels.splice(0).forEach(channel => channel.close());
+});
+
+const setup = (connectChannels: boolean) => {
+    const store = new MemoryChatStore();
+    const alice = createChannel({ localUserId: 'alice', partnerId: 'bob', store, ackTimeoutMs: 20 });
+    const bob = createChannel({ localUserId: 'bob', partnerId: 'alice', store, ackTimeoutMs: 20 });
+
+    const { aliceChannel, bobChannel } = createChannelPair();
+
+    if (connectChannels) {
+        alice.attach(aliceChannel.asChannel());
+        bob.attach(bobChannel.asChannel());
+    }
+
+    const bobReceived: ChatChannelMessage[] = [];
+    bob.on('message', message => bobReceived.push(message));
+    const aliceStatuses: ChatDeliveryStatus[] = [];
+    alice.on('status', ({ status }) => aliceStatuses.push(status));
+    const bobSeesTyping: boolean[] = [];
+    bob.on('partnerTyping', typing => bobSeesTyping.push(typing));
+    const bobUpdates: ChatMessageChanges[] = [];
+    bob.on('update', ({ changes }) => bobUpdates.push(changes));
+    const aliceUpdates: ChatMessageChanges[] = [];
+    alice.on('update', ({ changes }) => aliceUpdates.push(changes));
+
+    return { store, alice, bob, bobChannel, bobReceived, aliceStatuses, bobSeesTyping, bobUpdates, aliceUpdates };
+};
+
+test('delivers over the data channel with an acknowledgement', async () => {
+    const { store, alice, bobReceived, aliceStatuses } = setup(true);
+
+    const sent = await alice.send('hello');
+    await wait(40);
+
+    expect(sent.via).toBe('datachannel');
+    expect(bobReceived.map(m => [m.content, m.via])).toEqual([['hello', 'datachannel']]);
+    expect(aliceStatuses).toEqual(['delivered']);
+    expect(store.messages).toEqual([]);
+});
+
+test('falls back to the store when there is no data channel', async () => {
+    const { store, alice, bobReceived, aliceStatuses } = setup(false);
+
+    const sent = await alice.send('hello');
+    await wait(10);
+
+    expect(sent.status).toBe('stored');
+    expect(store.messages.map(m => m.content)).toEqual(['hello']);
+    expect(bobReceived.map(m => [m.content, m.via])).toEqual([['hello', 'store']]);
+    expect(aliceStatuses).toEqual(['stored']);
+});
+
+test('stores a message whose ack never arrives without showing it twice', async () => {
+    const { store, alice, bobChannel, bobReceived, aliceStatuses } = setup(true);
+    bobChannel.dropOutgoing = true;
+
+    await alice.send('hello');
+    await wait(60);
+
+    expect(store.messages.map(m => m.content)).toEqual(['hello']);
+    expect(bobReceived).toHaveLength(1);
+    expect(aliceStatuses).toEqual(['stored']);
+});
+
+test('never stores ephemeral messages', async () => {
+    const connected = setup(true);
+    connected.bobChannel.dropOutgoing = true;
+    await connected.alice.send('secret', { ephemeral: true });
+    await wait(60);
+
+    expect(connected.bobReceived.map(m => [m.content, m.ephemeral])).toEqual([['secret', true]]);
+    expect(connected.aliceStatuses).toEqual(['failed']);
+    expect(connected.store.messages).toEqual([]);
+
+    const disconnected = setup(false);
+    const sent = await disconnected.alice.send('secret', { ephemeral: true });
+    expect(sent.status).toBe('failed');
+    expect(disconnected.store.messages).toEqual([]);
+});
+
+test('shows the partner typing until they send, over either transport', async () => {
+    for (const connected of [true, false]) {
+        const { store, alice, bobSeesTyping } = setup(connected);
+
+        alice.notifyTyping();
+        alice.notifyTyping();
+        await wait(10);
+        expect(bobSeesTyping).toEqual([true]);
+
+        await alice.send('hello');
+        await wait(10);
+        expect(bobSeesTyping).toEqual([true, false]);
+        expect(store.signals.typingUntil).toEqual({});
+    }
+});
+
+test('hides a typing indicator that is never cleared once it expires', async () => {
+    jest.useFakeTimers();
+    try {
+        const { store, bob, bobSeesTyping } = setup(false);
+        await store.setTyping('alice', Date.now() + 5000);
+        jest.advanceTimersByTime(0);
+        expect(bobSeesTyping).toEqual([true]);
+
+        jest.advanceTimersByTime(5000);
+        expect(bobSeesTyping).toEqual([true, false]);
+        bob.close();
+    } finally {
+        jest.useRealTimers();
+    }
+});
+
+test('reports messages as read once the partner marks them read', async () => {
+    for (const connected of [true, false]) {
+        const { store, alice, bob, aliceStatuses } = setup(connected);
+
+        await alice.send('hello');
+        await wait(40);
+        bob.markRead();
+        bob.markRead();
+        await wait(10);
+
+        expect(aliceStatuses).toEqual([connected ? 'delivered' : 'stored', 'read']);
+        expect(store.signals.readUpTo).toEqual(connected ? {} : { bob: expect.any(Number) });
+    }
+});
+
+test('moderates what it sends and what it shows from the partner', async () => {
+    const store = new MemoryChatStore();
+    const moderate = createChatModeration({ blockedWords: ['darn'], rateLimit: { maxMessages: 1, windowMs: 1000 } });
+    const alice = createChannel({
+        localUserId: 'alice',
+        partnerId: 'bob',
+        store,
+        moderate: (content, senderId, direction) => moderate(content, { senderId, direction, policy: DEFAULT_ROOM_CONTENT_POLICY, now: Date.now() })
+    });
+    const bob = createChannel({
+        localUserId: 'bob',
+        partnerId: 'alice',
+        store,
+        moderate: (content) => ({ content: content.toUpperCase(), flags: ['profanity'] })
+    });
+    const bobReceived: ChatChannelMessage[] = [];
+    bob.on('message', message => bobReceived.push(message));
+
+    await alice.send('darn');
+    const blocked = await alice.send('again');
+    await wait(10);
+
+    expect(store.messages).toEqual([expect.objectContaining({ content: '****', flags: ['profanity'] })]);
+    expect(blocked.blockedReason).toMatch(/too quickly/);
+    expect(bobReceived.map(m => m.content)).toEqual(['****']);
+
+    await store.save({ id: 'm-2', senderId: 'alice', content: 'hi', sentAt: Date.now() });
+    await wait(10);
+    expect(bobReceived.map(m => m.content)).toEqual(['****', 'HI']);
+});
+
+test('whatever arrives over the data channel is moderated as the partner\'s', async () => {
+    const alice = createChannel({
+        localUserId: 'alice',
+        partnerId: 'bob',
+        store: new MemoryChatStore(),
+        moderate: (content, senderId, direction) =>
+            direction === 'incoming' ? { content: `${senderId}: ${content}`, flags: [] } : { content, flags: [] }
+    });
+    const { aliceChannel, bobChannel } = createChannelPair();
+    alice.attach(aliceChannel.asChannel());
+    const aliceReceived: ChatChannelMessage[] = [];
+    alice.on('message', message => aliceReceived.push(message));
+
+    // Bob stamps his message with Alice's id so it would skip the filter and look like hers
+    bobChannel.send(JSON.stringify({
+        kind: 'message',
+        message: { id: 'forged', senderId: 'alice', content: 'call me', sentAt: Date.now() },
+        ephemeral: false
+    }));
+    await wait(10);
+
+    expect(aliceReceived).toEqual([expect.objectContaining({ id: 'forged', senderId: 'bob', content: 'bob: call me' })]);
+});
+
+test('senders edit and delete their own messages over the data channel', async () => {
+    const { alice, bob, bobChannel, bobUpdates, store } = setup(true);
+
+    const sent = await alice.send('helo');
+    await wait(40);
+
+    expect(await alice.editMessage(sent.id, 'hello')).toBeNull();
+    await wait(10);
+    expect(bobUpdates).toEqual([{ content: 'hello', editedAt: expect.any(Number) }]);
+
+    // The partner cannot change someone else's message, even by forging an update
+    expect(await bob.editMessage(sent.id, 'hijacked')).toMatch(/can no longer be edited/);
+    bobChannel.send(JSON.stringify({ kind: 'update', id: sent.id, update: { kind: 'delete', deletedAt: Date.now() } }));
+    await wait(10);
+
+    expect(await alice.deleteMessage(sent.id)).toBeNull();
+    await wait(10);
+    expect(bobUpdates[1]).toMatchObject({ content: '', deletedAt: expect.any(Number) });
+    expect(await alice.editMessage(sent.id, 'back again')).toMatch(/can no longer be edited/);
+    expect(store.messages).toEqual([]);
+});
+
+test('changes to stored messages go through the store', async () => {
+    const { alice, bob, store, bobUpdates, aliceUpdates } = setup(false);
+
+    const sent = await alice.send('hello');
+    await wait(10);
+
+    expect(await bob.react(sent.id, '👍')).toBeNull();
+    expect(await bob.react(sent.id, '🦄')).toMatch(/isn't available/);
+    await wait(10);
+    expect(store.messages[0].reactions).toEqual({ bob: '👍' });
+    expect(aliceUpdates).toEqual([{ reactions: { bob: '👍' } }]);
+
+    expect(await alice.editMessage(sent.id, 'hello there')).toBeNull();
+    await wait(10);
+    expect(store.messages[0].content).toBe('hello there');
+    expect(bobUpdates).toContainEqual(expect.objectContaining({ content: 'hello there' }));
+});
+
+test('messages can only be changed within the edit window', async () => {
+    const { alice } = setup(true);
+    const sent = await alice.send('hello');
+
+    const now = Date.now();
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now + CHAT_EDIT_WINDOW_MS);
+    try {
+        expect(await alice.deleteMessage(sent.id)).toMatch(/can no longer be deleted/);
+    } finally {
+        dateNow.mockRestore();
+    }
+});
@@ -0,0 +1,626 @@
+// In-call text chat. Messages go straight to the partner over the peer session's
+// data channel and are acknowledged; when the channel is unavailable or an ack does
+// not arrive in time they fall back to a persistent store (Firestore in the app, see
+// firestoreChatStore.ts). Ephemeral messages never touch the store.
+//
+// Typing indicators and read receipts take the same route: the data channel when it
+// is open, otherwise small per-user fields in the store.
+//
+// When given a moderation function, text is screened both before sending and before
+// showing the partner's messages, since the data channel bypasses any server checks.
+//
+// Senders can edit or delete (tombstone) their messages for a short while, and both
+// participants can react to any message. Changes go over the data channel and, for
+// messages that were stored, to the store as well.
+
+import { ModerationFlag, ModerationResult } from "./moderationService";
+
+// What both transports carry. The id is shared between them so a message that
+// arrives over both is only shown once.
+export interface ChatEnvelope {
+    id: string;
+    senderId: string;
+    content: string;
+    // Epoch milliseconds on the sender's clock
+    sentAt: number;
+    // Set when moderation changed the content
+    flags?: ModerationFlag[];
+    // Epoch milliseconds of the latest edit, and of deletion (which also empties content)
+    editedAt?: number;
+    deletedAt?: number;
+    // One reaction per participant
+    reactions?: { [userId: string]: string };
+}
+
+// A change to a message after it was sent
+export type ChatMessageUpdate =
+    | { kind: 'edit'; content: string; flags?: ModerationFlag[]; editedAt: number }
+    | { kind: 'delete'; deletedAt: number }
+    | { kind: 'react'; userId: string; reaction: string | null };
+
+// Fields of a shown message that changed; merge them into the message
+export type ChatMessageChanges = Partial<Pick<ChatEnvelope, 'content' | 'flags' | 'editedAt' | 'deletedAt' | 'reactions'>>;
+
+// Per-user typing and read state kept by the store
+export interface ChatSignals {
+    // Epoch milliseconds until which each user counts as typing
+    typingUntil: { [userId: string]: number };
+    // Each user has read every message sent at or before this time (sender's clock)
+    readUpTo: { [userId: string]: number };
+}
+
+export interface ChatStore {
+    save(message: ChatEnvelope): Promise<void>;
+    update(id: string, update: ChatMessageUpdate): Promise<void>;
+    // Stored messages, existing ones first, then again whenever one changes;
+    // returns a function that unsubscribes
+    subscribe(callback: (message: ChatEnvelope) => void): () => void;
+    // Pass null to clear the typing indicator
+    setTyping(userId: string, typingUntil: number | null): Promise<void>;
+    markRead(userId: string, readUpTo: number): Promise<void>;
+    subscribeToSignals(callback: (signals: ChatSignals) => void): () => void;
+}
+
+// 'delivered' means the partner acknowledged it over the data channel,
+// 'stored' that it was written to the store for the partner to pick up,
+// 'read' that the partner has seen it
+export type ChatDeliveryStatus = 'sending' | 'delivered' | 'stored' | 'read' | 'failed';
+
+export interface ChatChannelMessage extends ChatEnvelope {
+    via: 'datachannel' | 'store';
+    status: ChatDeliveryStatus;
+    ephemeral: boolean;
+    // Why moderation refused to send it; such messages are never emitted
+    blockedReason?: string;
+}
+
+export interface ChatChannelEvents {
+    // Every message to show: our own as soon as they are sent, and the partner's
+    message: ChatChannelMessage;
+    status: { id: string; status: ChatDeliveryStatus };
+    update: { id: string; changes: ChatMessageChanges };
+    partnerTyping: boolean;
+}
+
+export interface ChatChannelOptions {
+    localUserId: string;
+    // Whoever is on the other end of the data channel; whatever arrives over it is theirs
+    partnerId: string;
+    store: ChatStore;
+    ackTimeoutMs?: number;
+    moderate?: (content: string, senderId: string, direction: 'outgoing' | 'incoming') => ModerationResult;
+}
+
+export interface SendOptions {
+    // Only send over the data channel; never store the message
+    ephemeral?: boolean;
+}
+
+type ChatWireMessage =
+    | { kind: 'message'; message: ChatEnvelope; ephemeral: boolean }
+    | { kind: 'ack'; id: string }
+    | { kind: 'typing'; typingUntil: number | null }
+    | { kind: 'read'; readUpTo: number }
+    | { kind: 'update'; id: string; update: ChatMessageUpdate };
+
+type ChatChannelListener<K extends keyof ChatChannelEvents> = (payload: ChatChannelEvents[K]) => void;
+
+interface PendingMessage {
+    envelope: ChatEnvelope;
+    ephemeral: boolean;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+interface KnownMessage {
+    // Latest state, including edits and reactions
+    envelope: ChatEnvelope;
+    ephemeral: boolean;
+    // Whether the store has a copy, which changes must then update too
+    stored: boolean;
+}
+
+export const DEFAULT_ACK_TIMEOUT_MS = 3000;
+
+// Senders can edit or delete a message for this long; keep in sync with firestore.rules
+export const CHAT_EDIT_WINDOW_MS = 5 * 60 * 1000;
+
+// Reactions anyone can add; keep in sync with firestore.rules
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '👎'];
+
+// Whether a user may still edit or delete a message
+export const canModifyChatMessage = (message: ChatEnvelope, userId: string, now: number = Date.now()): boolean => (
+    message.senderId === userId && !message.deletedAt && now - message.sentAt < CHAT_EDIT_WINDOW_MS
+);
+
+// A typing indicator stays up this long after the last keystroke unless refreshed
+export const TYPING_TIMEOUT_MS = 5000;
+// While the user keeps typing, re-announce it at most this often
+export const TYPING_REFRESH_MS = 2000;
+
+export class ChatChannel {
+    private readonly options: ChatChannelOptions;
+    private channel: RTCDataChannel | null = null;
+    private pending = new Map<string, PendingMessage>();
+    // Messages already shown, so redelivery over either transport only applies changes
+    private messages = new Map<string, KnownMessage>();
+    private unsubscribes: (() => void)[] = [];
+    // Our own messages the partner has not read yet, by id
+    private unread = new Map<string, number>();
+    // Newest partner message we have shown, and the newest we told them we read
+    private latestPartnerSentAt = 0;
+    private readUpToSent = 0;
+    private typingAnnouncedAt = 0;
+    private typingIdleTimer: ReturnType<typeof setTimeout> | null = null;
+    private partnerTypingTimer: ReturnType<typeof setTimeout> | null = null;
+    private partnerTyping = false;
+    private listeners: { [K in keyof ChatChannelEvents]: Set<ChatChannelListener<K>> } = {
+        message: new Set(),
+        status: new Set(),
+        update: new Set(),
+        partnerTyping: new Set()
+    };
+
+    constructor(options: ChatChannelOptions) {
+        this.options = options;
+        this.unsubscribes.push(
+            options.store.subscribe((envelope) => {
+                this.receive(envelope, 'store', false);
+            }),
+            options.store.subscribeToSignals((signals) => {
+                this.handleSignals(signals);
+            })
+        );
+    }
+
+    // Register a listener; returns a function that removes it
+    on<K extends keyof ChatChannelEvents>(event: K, listener: ChatChannelListener<K>): () => void {
+        this.listeners[event].add(listener);
+
+        return () => {
+            this.listeners[event].delete(listener);
+        };
+    }
+
+    // Use a data channel from the peer session for direct delivery
+    attach(channel: RTCDataChannel): void {
+        this.detach();
+        this.channel = channel;
+
+        channel.onmessage = (event: MessageEvent) => {
+            this.handleWireMessage(event.data);
+        };
+        channel.onclose = () => {
+            if (this.channel === channel) {
+                console.log("Chat data channel closed; falling back to the store");
+                this.channel = null;
+            }
+        };
+    }
+
+    isDirect(): boolean {
+        return this.channel?.readyState === 'open';
+    }
+
+    async send(content: string, options: SendOptions = {}): Promise<ChatChannelMessage> {
+        const ephemeral = !!options.ephemeral;
+        const moderation = this.moderate(content, this.options.localUserId, 'outgoing');
+        const envelope: ChatEnvelope = {
+            id: this.createMessageId(),
+            senderId: this.options.localUserId,
+            content: moderation.content,
+            sentAt: Date.now(),
+            ...(moderation.flags.length > 0 && { flags: moderation.flags })
+        };
+
+        if (moderation.blockedReason) {
+            return { ...envelope, via: 'datachannel', status: 'failed', ephemeral, blockedReason: moderation.blockedReason };
+        }
+        this.messages.set(envelope.id, { envelope, ephemeral, stored: false });
+        this.unread.set(envelope.id, envelope.sentAt);
+        this.stopTyping();
+
+        const channel = this.channel;
+        if (channel && channel.readyState === 'open') {
+            const message: ChatChannelMessage = { ...envelope, via: 'datachannel', status: 'sending', ephemeral };
+            this.emit('message', message);
+
+            const timer = setTimeout(() => this.handleAckTimeout(envelope.id), this.ackTimeoutMs());
+            this.pending.set(envelope.id, { envelope, ephemeral, timer });
+
+            try {
+                channel.send(JSON.stringify({ kind: 'message', message: envelope, ephemeral } as ChatWireMessage));
+            } catch (error) {
+                console.error("Error sending chat message over data channel:", error);
+                this.handleAckTimeout(envelope.id);
+            }
+            return message;
+        }
+
+        if (ephemeral) {
+            // Nowhere to send it without storing it
+            const message: ChatChannelMessage = { ...envelope, via: 'datachannel', status: 'failed', ephemeral };
+            this.emit('message', message);
+            return message;
+        }
+
+        const message: ChatChannelMessage = { ...envelope, via: 'store', status: 'sending', ephemeral };
+        this.emit('message', message);
+        const status = await this.store(envelope);
+        return { ...message, status };
+    }
+
+    // Each of these returns why the change could not be made, or null once it has been
+
+    async editMessage(id: string, content: string): Promise<string | null> {
+        const known = this.messages.get(id);
+        if (!known || !canModifyChatMessage(known.envelope, this.options.localUserId)) {
+            return "This message can no longer be edited.";
+        }
+
+        const moderation = this.moderate(content, this.options.localUserId, 'outgoing');
+        if (moderation.blockedReason) return moderation.blockedReason;
+
+        return this.deliverUpdate(known, {
+            kind: 'edit',
+            content: moderation.content,
+            ...(moderation.flags.length > 0 && { flags: moderation.flags }),
+            editedAt: Date.now()
+        });
+    }
+
+    async deleteMessage(id: string): Promise<string | null> {
+        const known = this.messages.get(id);
+        if (!known || !canModifyChatMessage(known.envelope, this.options.localUserId)) {
+            return "This message can no longer be deleted.";
+        }
+
+        return this.deliverUpdate(known, { kind: 'delete', deletedAt: Date.now() });
+    }
+
+    // Set our reaction to a message, or remove it with null
+    async react(id: string, reaction: string | null): Promise<string | null> {
+        const known = this.messages.get(id);
+        if (!known || known.envelope.deletedAt) return "This message can no longer be reacted to.";
+        if (reaction !== null && !CHAT_REACTIONS.includes(reaction)) return "That reaction isn't available.";
+
+        return this.deliverUpdate(known, { kind: 'react', userId: this.options.localUserId, reaction });
+    }
+
+    // Call on every keystroke; announcements are throttled and cleared after a pause
+    notifyTyping(): void {
+        const now = Date.now();
+        if (now - this.typingAnnouncedAt >= TYPING_REFRESH_MS) {
+            this.typingAnnouncedAt = now;
+            this.sendTyping(now + TYPING_TIMEOUT_MS);
+        }
+
+        if (this.typingIdleTimer) clearTimeout(this.typingIdleTimer);
+        this.typingIdleTimer = setTimeout(() => this.stopTyping(), TYPING_TIMEOUT_MS);
+    }
+
+    // Tell the partner we have read everything shown so far. Call while the chat is visible.
+    markRead(): void {
+        if (this.latestPartnerSentAt <= this.readUpToSent) return;
+        const readUpTo = this.latestPartnerSentAt;
+        this.readUpToSent = readUpTo;
+
+        if (!this.sendWire({ kind: 'read', readUpTo })) {
+            this.options.store.markRead(this.options.localUserId, readUpTo)
+                .catch(error => console.error("Error storing read receipt:", error));
+        }
+    }
+
+    close(): void {
+        this.detach();
+        this.pending.forEach(({ timer }) => clearTimeout(timer));
+        this.pending.clear();
+        if (this.typingIdleTimer) clearTimeout(this.typingIdleTimer);
+        if (this.partnerTypingTimer) clearTimeout(this.partnerTypingTimer);
+
+        this.unsubscribes.forEach(unsubscribe => unsubscribe());
+        this.unsubscribes = [];
+    }
+
+    private detach(): void {
+        if (this.channel) {
+            this.channel.onmessage = null;
+            this.channel.onclose = null;
+            this.channel = null;
+        }
+    }
+
+    private handleWireMessage(data: unknown): void {
+        let wire: ChatWireMessage;
+        try {
+            wire = JSON.parse(String(data));
+        } catch (error) {
+            console.error("Ignoring malformed chat message:", error);
+            return;
+        }
+
+        if (wire.kind === 'ack') {
+            const pending = this.pending.get(wire.id);
+            if (!pending) return;
+
+            clearTimeout(pending.timer);
+            this.pending.delete(wire.id);
+            this.emit('status', { id: wire.id, status: 'delivered' });
+        } else if (wire.kind === 'message') {
+            // Always ack, even duplicates, so the sender stops waiting
+            this.sendWire({ kind: 'ack', id: wire.message.id });
+            // The partner cannot pass their messages off as ours or anyone else's
+            this.receive({ ...wire.message, senderId: this.options.partnerId }, 'datachannel', wire.ephemeral);
+        } else if (wire.kind === 'typing') {
+            this.setPartnerTyping(wire.typingUntil);
+        } else if (wire.kind === 'read') {
+            this.handleRead(wire.readUpTo);
+        } else if (wire.kind === 'update') {
+            const known = this.messages.get(wire.id);
+            if (!known) return;
+
+            const { update } = wire;
+            this.applyUpdate(known, update.kind === 'react' ? { ...update, userId: this.options.partnerId } : update, true);
+        }
+    }
+
+    private async deliverUpdate(known: KnownMessage, update: ChatMessageUpdate): Promise<string | null> {
+        const { id } = known.envelope;
+        if (known.ephemeral && !this.isDirect()) {
+            return "Off-the-record messages can only be changed while you're connected directly.";
+        }
+
+        const sent = this.sendWire({ kind: 'update', id, update });
+        if (known.stored) {
+            try {
+                await this.options.store.update(id, update);
+            } catch (error) {
+                console.error("Error storing chat message change:", error);
+                return "Couldn't save the change. Please try again.";
+            }
+        } else if (!sent) {
+            return "Couldn't reach your partner. Please try again in a moment.";
+        }
+
+        this.applyUpdate(known, update, false);
+        return null;
+    }
+
+    private applyUpdate(known: KnownMessage, update: ChatMessageUpdate, fromPartner: boolean): void {
+        const { envelope } = known;
+        const { localUserId } = this.options;
+
+        if (update.kind === 'react') {
+            // Only with the known reactions; the partner's are always in their own name
+            if (update.reaction !== null && !CHAT_REACTIONS.includes(update.reaction)) return;
+
+            const reactions = { ...envelope.reactions };
+            if (update.reaction) {
+                reactions[update.userId] = update.reaction;
+            } else {
+                delete reactions[update.userId];
+            }
+            this.applyChanges(known, { reactions });
+            return;
+        }
+
+        // Only the sender edits or deletes, and deletion is final
+        if (envelope.deletedAt) return;
+        if (fromPartner && envelope.senderId === localUserId) return;
+
+        if (update.kind === 'delete') {
+            this.applyChanges(known, { content: '', flags: undefined, deletedAt: update.deletedAt });
+            return;
+        }
+
+        let { content, flags } = update;
+        if (fromPartner) {
+            const moderated = this.moderateIncoming(content, envelope.senderId, flags);
+            if (!moderated) return;
+            ({ content, flags } = moderated);
+        }
+        this.applyChanges(known, { content, flags, editedAt: update.editedAt });
+    }
+
+    // Bring a message in line with a newer copy from the store
+    private applyStoredState(known: KnownMessage, stored: ChatEnvelope): void {
+        const current = known.envelope;
+        const changes: ChatMessageChanges = {};
+
+        if (stored.deletedAt && !current.deletedAt) {
+            Object.assign(changes, { content: '', flags: undefined, deletedAt: stored.deletedAt });
+        } else if (!current.deletedAt && stored.editedAt && stored.editedAt > (current.editedAt || 0)) {
+            const moderated = stored.senderId === this.options.localUserId
+                ? { content: stored.content, flags: stored.flags }
+                : this.moderateIncoming(stored.content, stored.senderId, stored.flags);
+            if (moderated) {
+                Object.assign(changes, { ...moderated, editedAt: stored.editedAt });
+            }
+        }
+
+        const reactions = stored.reactions || {};
+        if (JSON.stringify(reactions) !== JSON.stringify(current.reactions || {})) {
+            changes.reactions = reactions;
+        }
+
+        this.applyChanges(known, changes);
+    }
+
+    private applyChanges(known: KnownMessage, changes: ChatMessageChanges): void {
+        if (Object.keys(changes).length === 0) return;
+
+        known.envelope = { ...known.envelope, ...changes };
+        this.emit('update', { id: known.envelope.id, changes });
+    }
+
+    // Screen the partner's text; null if it must not be shown at all
+    private moderateIncoming(
+        content: string,
+        senderId: string,
+        flags?: ModerationFlag[]
+    ): { content: string; flags?: ModerationFlag[] } | null {
+        const moderation = this.moderate(content, senderId, 'incoming');
+        if (moderation.blockedReason) {
+            console.log("Hiding partner message blocked by moderation:", moderation.blockedReason);
+            return null;
+        }
+
+        const allFlags = Array.from(new Set([...(flags || []), ...moderation.flags]));
+        return { content: moderation.content, ...(allFlags.length > 0 && { flags: allFlags }) };
+    }
+
+    private handleSignals(signals: ChatSignals): void {
+        const { localUserId } = this.options;
+
+        Object.entries(signals.typingUntil).forEach(([userId, typingUntil]) => {
+            if (userId !== localUserId) this.setPartnerTyping(typingUntil);
+        });
+        Object.entries(signals.readUpTo).forEach(([userId, readUpTo]) => {
+            if (userId !== localUserId) this.handleRead(readUpTo);
+        });
+    }
+
+    private handleRead(readUpTo: number): void {
+        this.unread.forEach((sentAt, id) => {
+            if (sentAt <= readUpTo) {
+                this.unread.delete(id);
+                this.emit('status', { id, status: 'read' });
+            }
+        });
+    }
+
+    // Show the partner as typing until the given time; null or a past time hides it
+    private setPartnerTyping(typingUntil: number | null): void {
+        if (this.partnerTypingTimer) {
+            clearTimeout(this.partnerTypingTimer);
+            this.partnerTypingTimer = null;
+        }
+
+        const remainingMs = typingUntil === null ? 0 : typingUntil - Date.now();
+        if (remainingMs > 0) {
+            this.partnerTypingTimer = setTimeout(() => this.setPartnerTyping(null), remainingMs);
+        }
+
+        const typing = remainingMs > 0;
+        if (typing !== this.partnerTyping) {
+            this.partnerTyping = typing;
+            this.emit('partnerTyping', typing);
+        }
+    }
+
+    private stopTyping(): void {
+        if (this.typingIdleTimer) {
+            clearTimeout(this.typingIdleTimer);
+            this.typingIdleTimer = null;
+        }
+        if (this.typingAnnouncedAt === 0) return;
+
+        this.typingAnnouncedAt = 0;
+        this.sendTyping(null);
+    }
+
+    private sendTyping(typingUntil: number | null): void {
+        if (!this.sendWire({ kind: 'typing', typingUntil })) {
+            this.options.store.setTyping(this.options.localUserId, typingUntil)
+                .catch(error => console.error("Error storing typing state:", error));
+        }
+    }
+
+    // Send over the data channel if it is open; returns whether it was sent
+    private sendWire(wire: ChatWireMessage): boolean {
+        const channel = this.channel;
+        if (!channel || channel.readyState !== 'open') return false;
+
+        try {
+            channel.send(JSON.stringify(wire));
+            return true;
+        } catch (error) {
+            console.error("Error sending over chat data channel:", error);
+            return false;
+        }
+    }
+
+    private receive(envelope: ChatEnvelope, via: ChatChannelMessage['via'], ephemeral: boolean): void {
+        const known = this.messages.get(envelope.id);
+        if (known) {
+            if (via === 'store') {
+                known.stored = true;
+                this.applyStoredState(known, envelope);
+            }
+            return;
+        }
+
+        let shown = envelope;
+        if (envelope.senderId !== this.options.localUserId) {
+            this.latestPartnerSentAt = Math.max(this.latestPartnerSentAt, envelope.sentAt);
+            // A message arriving means they have stopped typing it
+            this.setPartnerTyping(null);
+
+            const { flags, ...rest } = envelope;
+            const moderated = this.moderateIncoming(envelope.content, envelope.senderId, flags);
+            if (!moderated) return;
+            shown = { ...rest, ...moderated };
+        }
+        this.messages.set(envelope.id, { envelope: shown, ephemeral, stored: via === 'store' });
+
+        this.emit('message', {
+            ...shown,
+            via,
+            status: via === 'store' ? 'stored' : 'delivered',
+            ephemeral
+        });
+    }
+
+    // No ack in time: the partner may never have received it, so store it instead.
+    // If they did receive it, the shared id keeps it from showing twice.
+    private async handleAckTimeout(id: string): Promise<void> {
+        const pending = this.pending.get(id);
+        if (!pending) return;
+
+        clearTimeout(pending.timer);
+        this.pending.delete(id);
+
+        if (pending.ephemeral) {
+            this.emit('status', { id, status: 'failed' });
+            return;
+        }
+
+        console.log("No chat ack received; storing message instead");
+        // Store it as it is now, in case it was edited in the meantime
+        await this.store(this.messages.get(id)?.envelope || pending.envelope);
+    }
+
+    private async store(envelope: ChatEnvelope): Promise<ChatDeliveryStatus> {
+        let status: ChatDeliveryStatus;
+        try {
+            await this.options.store.save(envelope);
+            status = 'stored';
+
+            const known = this.messages.get(envelope.id);
+            if (known) known.stored = true;
+        } catch (error) {
+            console.error("Error storing chat message:", error);
+            status = 'failed';
+        }
+
+        this.emit('status', { id: envelope.id, status });
+        return status;
+    }
+
+    private createMessageId(): string {
+        return `${this.options.localUserId}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    }
+
+    private moderate(content: string, senderId: string, direction: 'outgoing' | 'incoming'): ModerationResult {
+        return this.options.moderate
+            ? this.options.moderate(content, senderId, direction)
+            : { content, flags: [] };
+    }
+
+    private ackTimeoutMs(): number {
+        return this.options.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS;
+    }
+
+    private emit<K extends keyof ChatChannelEvents>(event: K, payload: ChatChannelEvents[K]): void {
+        this.listeners[event].forEach(listener => listener(payload));
+    }
+}
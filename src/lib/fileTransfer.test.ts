@@ -0,0 +1,69 @@
+import { DEFAULT_FILE_TRANSFER_LIMITS, FileTransfer, FileTransferChannel, validateFile } from './fileTransfer';
+import { createChannelPair, wait, waitUntil } from '../test-utils/fakeDataChannel';
+
+const setup = (receiverLimits = DEFAULT_FILE_TRANSFER_LIMITS) => {
+    const alice = new FileTransferChannel({ localUserId: 'alice', chunkBytes: 4 });
+    const bob = new FileTransferChannel({ localUserId: 'bob', limits: receiverLimits });
+
+    const { aliceChannel, bobChannel } = createChannelPair();
+    alice.attach(aliceChannel.asChannel());
+    bob.attach(bobChannel.asChannel());
+
+    const aliceTransfers: FileTransfer[] = [];
+    alice.on('transfer', transfer => aliceTransfers.push(transfer));
+    const bobTransfers: FileTransfer[] = [];
+    bob.on('transfer', transfer => bobTransfers.push(transfer));
+
+    return { alice, bob, aliceChannel, aliceTransfers, bobTransfers };
+};
+
+const photo = (bytes: string) => new File([bytes], 'photo.png', { type: 'image/png' });
+
+test('streams a file to the partner in chunks', async () => {
+    const { alice, aliceChannel, aliceTransfers, bobTransfers } = setup();
+
+    alice.send(photo('0123456789'));
+    await waitUntil(() => bobTransfers.some(t => t.status === 'complete') && aliceTransfers.some(t => t.status === 'complete'));
+
+    expect(aliceChannel.sentChunks).toBe(3);
+    expect(aliceTransfers.map(t => t.status).pop()).toBe('complete');
+
+    const received = bobTransfers[bobTransfers.length - 1];
+    expect(received).toMatchObject({ name: 'photo.png', mimeType: 'image/png', direction: 'incoming', status: 'complete' });
+    expect(bobTransfers.some(t => t.status === 'transferring' && t.transferredBytes > 0 && t.transferredBytes < 10)).toBe(true);
+    expect(await received.blob?.text()).toBe('0123456789');
+});
+
+test('checks size and type before sending', () => {
+    expect(validateFile({ size: 1, type: 'image/svg+xml' })).toMatch(/Only images/);
+    expect(validateFile({ size: DEFAULT_FILE_TRANSFER_LIMITS.maxBytes + 1, type: 'image/png' })).toMatch(/at most 10 MB/);
+
+    const alice = new FileTransferChannel({ localUserId: 'alice' });
+    const transfer = alice.send(photo('hi'));
+    expect(transfer.status).toBe('failed');
+    expect(transfer.error).toMatch(/once the video is connected/);
+});
+
+test('the receiver rejects files over its own limits', async () => {
+    const { alice, aliceTransfers, bobTransfers } = setup({ maxBytes: 4, allowedTypes: ['image/png'] });
+
+    alice.send(photo('0123456789'));
+    await waitUntil(() => aliceTransfers.some(t => t.status === 'failed') && bobTransfers.length > 0);
+
+    expect(aliceTransfers[aliceTransfers.length - 1].status).toBe('failed');
+    expect(aliceTransfers[aliceTransfers.length - 1].error).toMatch(/at most/);
+    expect(bobTransfers).toHaveLength(1);
+    expect(bobTransfers[0].status).toBe('failed');
+});
+
+test('fails transfers in flight when the channel closes', async () => {
+    const { alice, aliceChannel, aliceTransfers } = setup();
+    aliceChannel.peer = null;
+
+    alice.send(photo('0123456789'));
+    await wait(5);
+    aliceChannel.close();
+    await wait(5);
+
+    expect(aliceTransfers[aliceTransfers.length - 1]).toMatchObject({ status: 'failed', error: 'The connection was lost.' });
+});
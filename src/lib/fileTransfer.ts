@@ -0,0 +1,390 @@
+// Peer-to-peer file sharing over a dedicated data channel of the peer session.
+// Files are split into chunks and streamed to the partner; nothing is uploaded or
+// stored server-side, so a transfer needs a direct connection and fails without one.
+//
+// Wire format on the (ordered, reliable) channel: a JSON 'offer' describing the file,
+// the file's bytes as binary chunks, then a JSON 'end'. The receiver answers with
+// 'received' once the file is complete, or 'reject' if it breaks its limits.
+
+export interface FileTransferLimits {
+    maxBytes: number;
+    // Exact MIME types; SVG is left out on purpose since it can carry scripts
+    allowedTypes: string[];
+}
+
+export const DEFAULT_FILE_TRANSFER_LIMITS: FileTransferLimits = {
+    maxBytes: 10 * 1024 * 1024,
+    allowedTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf', 'text/plain']
+};
+
+// Small enough for every browser's SCTP message size limit
+export const FILE_CHUNK_BYTES = 16 * 1024;
+
+// Stop queueing chunks while this much is still waiting to go out
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+// Progress is reported in this many steps per file, not per chunk
+const PROGRESS_STEPS = 20;
+
+export type FileTransferStatus = 'transferring' | 'complete' | 'failed';
+
+export interface FileTransfer {
+    id: string;
+    senderId: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    // Epoch milliseconds on the sender's clock
+    sentAt: number;
+    direction: 'outgoing' | 'incoming';
+    status: FileTransferStatus;
+    transferredBytes: number;
+    // The file itself: available right away when sending, once complete when receiving
+    blob?: Blob;
+    error?: string;
+}
+
+export interface FileTransferEvents {
+    // A snapshot every time a transfer starts or changes; replace earlier ones by id
+    transfer: FileTransfer;
+}
+
+export interface FileTransferChannelOptions {
+    localUserId: string;
+    limits?: FileTransferLimits;
+    chunkBytes?: number;
+}
+
+type FileDescription = Pick<FileTransfer, 'id' | 'senderId' | 'name' | 'mimeType' | 'size' | 'sentAt'>;
+
+type FileWireMessage =
+    | { kind: 'offer'; file: FileDescription }
+    | { kind: 'end'; id: string }
+    | { kind: 'received'; id: string }
+    | { kind: 'reject'; id: string; reason: string };
+
+type FileTransferListener<K extends keyof FileTransferEvents> = (payload: FileTransferEvents[K]) => void;
+
+interface IncomingFile {
+    transfer: FileTransfer;
+    chunks: ArrayBuffer[];
+    // Set when the file was rejected; its chunks are dropped
+    discard: boolean;
+}
+
+// Why a file may not be shared, or null if it can be
+export const validateFile = (
+    file: { size: number; type: string },
+    limits: FileTransferLimits = DEFAULT_FILE_TRANSFER_LIMITS
+): string | null => {
+    if (!limits.allowedTypes.includes(file.type)) {
+        return "Only images, PDFs and text files can be shared.";
+    }
+    if (file.size > limits.maxBytes) {
+        return `Files can be at most ${Math.round(limits.maxBytes / (1024 * 1024))} MB.`;
+    }
+    return null;
+};
+
+export class FileTransferChannel {
+    private readonly options: FileTransferChannelOptions;
+    private channel: RTCDataChannel | null = null;
+    private outgoing = new Map<string, FileTransfer>();
+    private incoming: IncomingFile | null = null;
+    // Files are sent one after another so their chunks never interleave
+    private sendQueue: Promise<void> = Promise.resolve();
+    private releaseBufferWait: (() => void) | null = null;
+    private listeners: { [K in keyof FileTransferEvents]: Set<FileTransferListener<K>> } = {
+        transfer: new Set()
+    };
+
+    constructor(options: FileTransferChannelOptions) {
+        this.options = options;
+    }
+
+    // Register a listener; returns a function that removes it
+    on<K extends keyof FileTransferEvents>(event: K, listener: FileTransferListener<K>): () => void {
+        this.listeners[event].add(listener);
+
+        return () => {
+            this.listeners[event].delete(listener);
+        };
+    }
+
+    // Use a data channel from the peer session for transfers
+    attach(channel: RTCDataChannel): void {
+        this.detach();
+        this.channel = channel;
+        channel.binaryType = 'arraybuffer';
+
+        channel.onmessage = (event: MessageEvent) => {
+            if (typeof event.data === 'string') {
+                this.handleWireMessage(event.data);
+            } else {
+                this.handleChunk(event.data as ArrayBuffer);
+            }
+        };
+        channel.onclose = () => {
+            if (this.channel === channel) {
+                console.log("File data channel closed; aborting transfers");
+                this.detach();
+                this.abortAll("The connection was lost.");
+            }
+        };
+    }
+
+    isAvailable(): boolean {
+        return this.channel?.readyState === 'open';
+    }
+
+    // Start sending a file; progress and the outcome arrive as 'transfer' events
+    send(file: File): FileTransfer {
+        const transfer: FileTransfer = {
+            id: this.createTransferId(),
+            senderId: this.options.localUserId,
+            name: file.name,
+            mimeType: file.type,
+            size: file.size,
+            sentAt: Date.now(),
+            direction: 'outgoing',
+            status: 'transferring',
+            transferredBytes: 0,
+            blob: file
+        };
+
+        const invalid = validateFile(file, this.limits());
+        if (invalid || !this.isAvailable()) {
+            return this.update({
+                ...transfer,
+                status: 'failed',
+                error: invalid || "Files can only be shared once the video is connected."
+            });
+        }
+
+        this.outgoing.set(transfer.id, transfer);
+        this.emit('transfer', transfer);
+        this.sendQueue = this.sendQueue.then(() => this.transmit(transfer.id, file));
+        return transfer;
+    }
+
+    close(): void {
+        this.detach();
+        this.abortAll("The chat has ended.");
+    }
+
+    private async transmit(id: string, file: File): Promise<void> {
+        // Aborted while waiting for earlier files
+        const queued = this.outgoing.get(id);
+        if (!queued) return;
+
+        const { senderId, name, mimeType, size, sentAt } = queued;
+        if (!this.sendWire({ kind: 'offer', file: { id, senderId, name, mimeType, size, sentAt } })) {
+            this.failOutgoing(id, "The connection was lost.");
+            return;
+        }
+
+        const chunkBytes = this.options.chunkBytes ?? FILE_CHUNK_BYTES;
+        for (let offset = 0; offset < size; offset += chunkBytes) {
+            // Rejected by the partner or aborted while we were sending
+            if (this.outgoing.get(id)?.status !== 'transferring') return;
+
+            const channel = this.channel;
+            if (!channel || channel.readyState !== 'open') {
+                this.failOutgoing(id, "The connection was lost.");
+                return;
+            }
+
+            try {
+                await this.waitForBuffer(channel);
+                const chunk = await file.slice(offset, offset + chunkBytes).arrayBuffer();
+                channel.send(chunk);
+            } catch (error) {
+                console.error("Error sending file chunk:", error);
+                this.failOutgoing(id, "The file could not be sent.");
+                return;
+            }
+
+            const transfer = this.outgoing.get(id);
+            if (transfer) {
+                this.reportProgress(transfer, Math.min(offset + chunkBytes, size));
+            }
+        }
+
+        // Stays 'transferring' until the partner confirms they have the whole file
+        if (!this.sendWire({ kind: 'end', id })) {
+            this.failOutgoing(id, "The connection was lost.");
+        }
+    }
+
+    // Resolve once the channel's send buffer has drained enough for more chunks
+    private waitForBuffer(channel: RTCDataChannel): Promise<void> {
+        if (channel.bufferedAmount <= MAX_BUFFERED_BYTES) return Promise.resolve();
+
+        return new Promise(resolve => {
+            const release = () => {
+                channel.onbufferedamountlow = null;
+                this.releaseBufferWait = null;
+                resolve();
+            };
+            this.releaseBufferWait = release;
+            channel.bufferedAmountLowThreshold = MAX_BUFFERED_BYTES / 2;
+            channel.onbufferedamountlow = release;
+        });
+    }
+
+    private handleWireMessage(data: string): void {
+        let wire: FileWireMessage;
+        try {
+            wire = JSON.parse(data);
+        } catch (error) {
+            console.error("Ignoring malformed file transfer message:", error);
+            return;
+        }
+
+        if (wire.kind === 'offer') {
+            this.handleOffer(wire.file);
+        } else if (wire.kind === 'end') {
+            this.handleEnd(wire.id);
+        } else if (wire.kind === 'received') {
+            const transfer = this.outgoing.get(wire.id);
+            if (!transfer) return;
+
+            this.outgoing.delete(wire.id);
+            this.update({ ...transfer, status: 'complete', transferredBytes: transfer.size });
+        } else if (wire.kind === 'reject') {
+            this.failOutgoing(wire.id, wire.reason);
+        }
+    }
+
+    private handleOffer(file: FileDescription): void {
+        if (this.incoming && !this.incoming.discard) {
+            this.update({ ...this.incoming.transfer, status: 'failed', error: "The transfer was interrupted." });
+        }
+
+        const transfer: FileTransfer = { ...file, direction: 'incoming', status: 'transferring', transferredBytes: 0 };
+        const invalid = validateFile({ size: file.size, type: file.mimeType }, this.limits());
+        this.incoming = { transfer, chunks: [], discard: !!invalid };
+
+        if (invalid) {
+            this.sendWire({ kind: 'reject', id: file.id, reason: invalid });
+            this.update({ ...transfer, status: 'failed', error: invalid });
+            return;
+        }
+        this.emit('transfer', transfer);
+    }
+
+    private handleChunk(chunk: ArrayBuffer): void {
+        const incoming = this.incoming;
+        if (!incoming || incoming.discard) return;
+
+        const { transfer } = incoming;
+        const transferredBytes = transfer.transferredBytes + chunk.byteLength;
+        if (transferredBytes > transfer.size) {
+            this.rejectIncoming("The file was larger than announced.");
+            return;
+        }
+
+        incoming.chunks.push(chunk);
+        this.reportProgress(transfer, transferredBytes);
+    }
+
+    private handleEnd(id: string): void {
+        const incoming = this.incoming;
+        if (!incoming || incoming.transfer.id !== id) return;
+        this.incoming = null;
+        if (incoming.discard) return;
+
+        const { transfer, chunks } = incoming;
+        if (transfer.transferredBytes !== transfer.size) {
+            this.sendWire({ kind: 'reject', id, reason: "The file arrived incomplete." });
+            this.update({ ...transfer, status: 'failed', error: "The file arrived incomplete." });
+            return;
+        }
+
+        this.sendWire({ kind: 'received', id });
+        this.update({ ...transfer, status: 'complete', blob: new Blob(chunks, { type: transfer.mimeType }) });
+    }
+
+    private rejectIncoming(reason: string): void {
+        const incoming = this.incoming;
+        if (!incoming) return;
+
+        incoming.discard = true;
+        incoming.chunks = [];
+        this.sendWire({ kind: 'reject', id: incoming.transfer.id, reason });
+        this.update({ ...incoming.transfer, status: 'failed', error: reason });
+    }
+
+    // Keep the stored snapshot current, emitting only every few percent
+    private reportProgress(transfer: FileTransfer, transferredBytes: number): void {
+        const step = (bytes: number) => Math.floor((bytes / transfer.size) * PROGRESS_STEPS);
+        const changed = step(transferredBytes) !== step(transfer.transferredBytes);
+        const next = { ...transfer, transferredBytes };
+
+        if (transfer.direction === 'outgoing') {
+            this.outgoing.set(transfer.id, next);
+        } else if (this.incoming) {
+            this.incoming.transfer = next;
+        }
+        if (changed) this.emit('transfer', next);
+    }
+
+    private failOutgoing(id: string, error: string): void {
+        const transfer = this.outgoing.get(id);
+        if (!transfer || transfer.status !== 'transferring') return;
+
+        this.outgoing.delete(id);
+        this.update({ ...transfer, status: 'failed', error });
+    }
+
+    private abortAll(error: string): void {
+        this.releaseBufferWait?.();
+        Array.from(this.outgoing.keys()).forEach(id => this.failOutgoing(id, error));
+
+        const incoming = this.incoming;
+        this.incoming = null;
+        if (incoming && !incoming.discard) {
+            this.update({ ...incoming.transfer, status: 'failed', error });
+        }
+    }
+
+    // Send a control message if the channel is open; returns whether it was sent
+    private sendWire(wire: FileWireMessage): boolean {
+        const channel = this.channel;
+        if (!channel || channel.readyState !== 'open') return false;
+
+        try {
+            channel.send(JSON.stringify(wire));
+            return true;
+        } catch (error) {
+            console.error("Error sending over file data channel:", error);
+            return false;
+        }
+    }
+
+    private detach(): void {
+        if (this.channel) {
+            this.channel.onmessage = null;
+            this.channel.onclose = null;
+            this.channel.onbufferedamountlow = null;
+            this.channel = null;
+        }
+    }
+
+    private update(transfer: FileTransfer): FileTransfer {
+        this.emit('transfer', transfer);
+        return transfer;
+    }
+
+    private limits(): FileTransferLimits {
+        return this.options.limits ?? DEFAULT_FILE_TRANSFER_LIMITS;
+    }
+
+    private createTransferId(): string {
+        return `${this.options.localUserId}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    }
+
+    private emit<K extends keyof FileTransferEvents>(event: K, payload: FileTransferEvents[K]): void {
+        this.listeners[event].forEach(listener => listener(payload));
+    }
+}
@@ -0,0 +1,82 @@
+import {
+    deleteChatMessage,
+    editChatMessage,
+    markRoomRead,
+    sendChatMessage,
+    setChatMessageReaction,
+    setRoomTyping,
+    subscribeToRoom,
+    subscribeToRoomMessages
+} from "./roomService";
+import { ChatEnvelope, ChatMessageUpdate, ChatSignals, ChatStore } from "./chatChannel";
+
+// Chat fallback through the chatMessages collection, with typing and read state on the room
+export class FirestoreChatStore implements ChatStore {
+    private readonly roomId: string;
+
+    constructor(roomId: string) {
+        this.roomId = roomId;
+    }
+
+    async save(message: ChatEnvelope): Promise<void> {
+        const messageId = await sendChatMessage(this.roomId, message.senderId, message.content, message.id, message.flags);
+        if (!messageId) {
+            throw new Error("Failed to store chat message");
+        }
+    }
+
+    async update(id: string, update: ChatMessageUpdate): Promise<void> {
+        let updated: boolean;
+        if (update.kind === 'edit') {
+            updated = await editChatMessage(id, update.content, update.flags);
+        } else if (update.kind === 'delete') {
+            updated = await deleteChatMessage(id);
+        } else {
+            updated = await setChatMessageReaction(id, update.userId, update.reaction);
+        }
+
+        if (!updated) {
+            throw new Error("Failed to update chat message");
+        }
+    }
+
+    subscribe(callback: (message: ChatEnvelope) => void): () => void {
+        return subscribeToRoomMessages(this.roomId, (message, changeType) => {
+            // Only admins remove message documents; show those as deleted too
+            const deletedAt = changeType === 'removed' ? Date.now() : message.deletedAt?.toMillis();
+
+            callback({
+                id: message.id,
+                senderId: message.senderId,
+                content: deletedAt ? '' : message.content,
+                sentAt: message.timestamp.toMillis(),
+                ...(message.moderationFlags && !deletedAt && { flags: message.moderationFlags }),
+                ...(message.editedAt && { editedAt: message.editedAt.toMillis() }),
+                ...(deletedAt && { deletedAt }),
+                ...(message.reactions && { reactions: message.reactions })
+            });
+        });
+    }
+
+    async setTyping(userId: string, typingUntil: number | null): Promise<void> {
+        if (!await setRoomTyping(this.roomId, userId, typingUntil)) {
+            throw new Error("Failed to store typing state");
+        }
+    }
+
+    async markRead(userId: string, readUpTo: number): Promise<void> {
+        if (!await markRoomRead(this.roomId, userId, readUpTo)) {
+            throw new Error("Failed to store read receipt");
+        }
+    }
+
+    subscribeToSignals(callback: (signals: ChatSignals) => void): () => void {
+        return subscribeToRoom(this.roomId, (room) => {
+            if (!room) return;
+            callback({
+                typingUntil: room.typingUntil || {},
+                readUpTo: room.readUpTo || {}
+            });
+        });
+    }
+}
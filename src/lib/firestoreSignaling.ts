@@ -0,0 +1,66 @@
+import {
+    addSessionDescription,
+    addIceCandidate,
+    subscribeToSessionDescriptions,
+    subscribeToUserIceCandidates
+} from "./roomService";
+import { SignalingTransport } from "./signaling";
+
+// Signaling through the sessionDescriptions and iceCandidates collections
+export class FirestoreSignalingTransport implements SignalingTransport {
+    private readonly roomId: string;
+    private readonly localUserId: string;
+    private readonly remoteUserId: string;
+    private unsubscribes: (() => void)[] = [];
+    // Version of the last description this side wrote
+    private localVersion = 0;
+    // Highest remote version already delivered, so a resubscribe never replays one
+    private remoteVersion = 0;
+
+    constructor(roomId: string, localUserId: string, remoteUserId: string) {
+        this.roomId = roomId;
+        this.localUserId = localUserId;
+        this.remoteUserId = remoteUserId;
+    }
+
+    async sendDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        this.localVersion += 1;
+        const descriptionId = await addSessionDescription(this.roomId, this.localUserId, description, this.localVersion);
+        if (!descriptionId) {
+            throw new Error(`Failed to send ${description.type}`);
+        }
+    }
+
+    async sendCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+        const candidateId = await addIceCandidate(this.roomId, this.localUserId, candidate);
+        if (!candidateId) {
+            throw new Error("Failed to send ICE candidate");
+        }
+    }
+
+    onDescription(callback: (description: RTCSessionDescriptionInit) => void): () => void {
+        return this.track(subscribeToSessionDescriptions(this.roomId, this.remoteUserId, (description) => {
+            if (description.version <= this.remoteVersion) return;
+            this.remoteVersion = description.version;
+            callback({ type: description.type, sdp: description.sdp });
+        }));
+    }
+
+    onCandidate(callback: (candidate: RTCIceCandidateInit) => void): () => void {
+        return this.track(subscribeToUserIceCandidates(this.roomId, this.remoteUserId, callback));
+    }
+
+    close(): void {
+        this.unsubscribes.forEach(unsubscribe => unsubscribe());
+        this.unsubscribes = [];
+    }
+
+    private track(unsubscribe: () => void): () => void {
+        this.unsubscribes.push(unsubscribe);
+
+        return () => {
+            unsubscribe();
+            this.unsubscribes = this.unsubscribes.filter(fn => fn !== unsubscribe);
+        };
+    }
+}
@@ -0,0 +1,128 @@
+import {
+    collection,
+    doc,
+    deleteDoc,
+    query,
+    where,
+    onSnapshot,
+    runTransaction,
+    Timestamp
+} from "firebase/firestore";
+import { db } from "./firebase";
+
+export type FriendshipStatus = 'pending' | 'accepted' | 'declined';
+
+// One document per pair of users, whoever asked first
+export interface Friendship {
+    id: string;
+    // Both users, sorted, so either side can query by array-contains
+    userIds: [string, string];
+    requesterId: string;
+    addresseeId: string;
+    status: FriendshipStatus;
+    createdAt: Timestamp;
+    respondedAt?: Timestamp;
+}
+
+export const friendshipCollection = collection(db, "friendships");
+
+// Deterministic id for a pair, so a pair can only ever have one friendship document
+export const getFriendshipId = (userId: string, otherUserId: string): string =>
+    [userId, otherUserId].sort().join("_");
+
+// The other user in a friendship
+export const getFriendId = (friendship: Friendship, userId: string): string =>
+    friendship.requesterId === userId ? friendship.addresseeId : friendship.requesterId;
+
+// Ask another user to be friends. If they already asked us, this accepts their request;
+// after a decline either side may ask again.
+export const sendFriendRequest = async (fromId: string, toId: string): Promise<FriendshipStatus | null> => {
+    const friendshipRef = doc(friendshipCollection, getFriendshipId(fromId, toId));
+
+    try {
+        return await runTransaction(db, async (transaction) => {
+            const snapshot = await transaction.get(friendshipRef);
+            const now = Timestamp.now();
+
+            if (snapshot.exists()) {
+                const existing = snapshot.data() as Omit<Friendship, "id">;
+                if (existing.status === 'accepted') return 'accepted';
+
+                if (existing.status === 'pending') {
+                    if (existing.requesterId === fromId) return 'pending';
+                    transaction.update(friendshipRef, { status: 'accepted', respondedAt: now });
+                    return 'accepted';
+                }
+            }
+
+            transaction.set(friendshipRef, {
+                userIds: [fromId, toId].sort(),
+                requesterId: fromId,
+                addresseeId: toId,
+                status: 'pending',
+                createdAt: now
+            });
+            return 'pending';
+        });
+    } catch (error) {
+        console.error("Error sending friend request:", error);
+        return null;
+    }
+};
+
+// Accept or decline a request addressed to the user
+export const respondToFriendRequest = async (
+    friendshipId: string,
+    userId: string,
+    accept: boolean
+): Promise<boolean> => {
+    const friendshipRef = doc(friendshipCollection, friendshipId);
+
+    try {
+        return await runTransaction(db, async (transaction) => {
+            const snapshot = await transaction.get(friendshipRef);
+            if (!snapshot.exists()) return false;
+
+            const friendship = snapshot.data() as Omit<Friendship, "id">;
+            if (friendship.status !== 'pending' || friendship.addresseeId !== userId) return false;
+
+            transaction.update(friendshipRef, {
+                status: accept ? 'accepted' : 'declined',
+                respondedAt: Timestamp.now()
+            });
+            return true;
+        });
+    } catch (error) {
+        console.error("Error responding to friend request:", error);
+        return false;
+    }
+};
+
+// Unfriend, or withdraw a request
+export const removeFriendship = async (userId: string, otherUserId: string): Promise<boolean> => {
+    try {
+        await deleteDoc(doc(friendshipCollection, getFriendshipId(userId, otherUserId)));
+        return true;
+    } catch (error) {
+        console.error("Error removing friendship:", error);
+        return false;
+    }
+};
+
+// Every friendship and request the user is part of
+export const subscribeToFriendships = (
+    userId: string,
+    callback: (friendships: Friendship[]) => void
+): () => void => {
+    const q = query(friendshipCollection, where("userIds", "array-contains", userId));
+
+    return onSnapshot(q, (snapshot) => {
+        const friendships = snapshot.docs.map(doc => ({
+            id: doc.id,
+            ...(doc.data() as Omit<Friendship, "id">)
+        }));
+        callback(friendships);
+    }, (error) => {
+        console.error("Error subscribing to friendships:", error);
+    });
+};
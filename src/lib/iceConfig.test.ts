@@ -0,0 +1,92 @@
+import { RtcConfigurationOptions } from './iceConfig';
+
+const mockCallable = jest.fn();
+
+jest.mock('./firebase', () => ({ functions: {} }));
+jest.mock('firebase/functions', () => ({
+    httpsCallable: () => mockCallable
+}));
+
+// iceConfig reads the environment when it loads, so each test loads a fresh copy
+const loadIceConfig = (env: Record<string, string>): typeof import('./iceConfig') => {
+    Object.assign(process.env, env);
+    let module: typeof import('./iceConfig') | undefined;
+    jest.isolateModules(() => {
+        module = require('./iceConfig');
+    });
+    return module as typeof import('./iceConfig');
+};
+
+const ENV_KEYS = [
+    'REACT_APP_STUN_URLS',
+    'REACT_APP_TURN_URLS',
+    'REACT_APP_TURN_USERNAME',
+    'REACT_APP_TURN_CREDENTIAL',
+    'REACT_APP_TURN_CREDENTIALS_URL',
+    'REACT_APP_TURN_CREDENTIALS_FUNCTION'
+];
+
+beforeEach(() => {
+    ENV_KEYS.forEach(key => delete process.env[key]);
+    mockCallable.mockReset();
+});
+
+test('lists the STUN servers and a static TURN account', async () => {
+    const { getIceServers } = loadIceConfig({
+        REACT_APP_STUN_URLS: 'stun:a:3478, stun:b:3478',
+        REACT_APP_TURN_URLS: 'turn:t:3478',
+        REACT_APP_TURN_USERNAME: 'user',
+        REACT_APP_TURN_CREDENTIAL: 'pass'
+    });
+
+    expect(await getIceServers('alice')).toEqual([
+        { urls: ['stun:a:3478', 'stun:b:3478'] },
+        { urls: ['turn:t:3478'], username: 'user', credential: 'pass' }
+    ]);
+    expect(mockCallable).not.toHaveBeenCalled();
+});
+
+test('gets time-limited credentials from the Cloud Function and caches them', async () => {
+    const { getIceServers } = loadIceConfig({
+        REACT_APP_TURN_URLS: 'turn:t:3478',
+        REACT_APP_TURN_CREDENTIALS_FUNCTION: 'getTurnCredentials'
+    });
+    mockCallable.mockResolvedValue({ data: { username: '1700003600:alice', password: 'signed', ttl: 3600, uris: [] } });
+
+    const servers = await getIceServers('alice');
+    expect(servers[servers.length - 1]).toEqual({
+        urls: ['turn:t:3478'],
+        username: '1700003600:alice',
+        credential: 'signed'
+    });
+
+    await getIceServers('alice');
+    expect(mockCallable).toHaveBeenCalledTimes(1);
+});
+
+test('leaves TURN out when the credentials cannot be fetched', async () => {
+    const { getIceServers } = loadIceConfig({ REACT_APP_TURN_CREDENTIALS_FUNCTION: 'getTurnCredentials' });
+    mockCallable.mockRejectedValue(new Error('unavailable'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const servers = await getIceServers('alice');
+    expect(servers.every(server => !server.username)).toBe(true);
+    consoleError.mockRestore();
+});
+
+test('privacy mode refuses to start without a relay', async () => {
+    const { getRtcConfiguration, RelayUnavailableError } = loadIceConfig({});
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const privacy: RtcConfigurationOptions = { privacyMode: true };
+
+    await expect(getRtcConfiguration('alice', privacy)).rejects.toBeInstanceOf(RelayUnavailableError);
+    await expect(getRtcConfiguration('alice')).resolves.toMatchObject({ iceTransportPolicy: 'all' });
+    consoleError.mockRestore();
+
+    const withTurn = loadIceConfig({
+        REACT_APP_TURN_URLS: 'turn:t:3478',
+        REACT_APP_TURN_USERNAME: 'user',
+        REACT_APP_TURN_CREDENTIAL: 'pass'
+    });
+    await expect(withTurn.getRtcConfiguration('alice', privacy)).resolves.toMatchObject({ iceTransportPolicy: 'relay' });
+});
@@ -0,0 +1,175 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "./firebase";
+
+// ICE server configuration for WebRTC calls.
+// Values come from the environment the same way the Firebase config does.
+const iceConfig = {
+    // Comma-separated STUN URLs
+    stunUrls: process.env.REACT_APP_STUN_URLS || "stun:stun.l.google.com:19302,stun:stun1.l.google.com:19302",
+    // Comma-separated TURN URLs, e.g. "turn:turn.example.com:3478,turns:turn.example.com:5349"
+    turnUrls: process.env.REACT_APP_TURN_URLS || "",
+    // Long-lived TURN account, if the server uses static credentials
+    turnUsername: process.env.REACT_APP_TURN_USERNAME || "",
+    turnCredential: process.env.REACT_APP_TURN_CREDENTIAL || "",
+    // TURN REST API endpoint returning time-limited credentials (preferred in production)
+    turnCredentialsUrl: process.env.REACT_APP_TURN_CREDENTIALS_URL || "",
+    // Name of the callable Cloud Function that mints time-limited credentials from the
+    // TURN server's shared secret (see functions/src/turn.ts). The secret itself never
+    // reaches the client: anything in the bundle is public.
+    turnCredentialsFunction: process.env.REACT_APP_TURN_CREDENTIALS_FUNCTION || "",
+    turnCredentialTtlSeconds: Number(process.env.REACT_APP_TURN_CREDENTIAL_TTL || 24 * 60 * 60),
+    // "relay" forces all media through TURN so peers never see each other's IP
+    iceTransportPolicy: (process.env.REACT_APP_ICE_TRANSPORT_POLICY === "relay" ? "relay" : "all") as RTCIceTransportPolicy
+};
+
+export interface TurnCredentials {
+    username: string;
+    credential: string;
+    urls: string[];
+    // Epoch milliseconds after which the TURN server rejects these credentials
+    expiresAt: number;
+}
+
+export interface RtcConfigurationOptions {
+    // Relay-only mode for users who do not want to expose their IP to partners
+    privacyMode?: boolean;
+    // Firebase ID token sent to the TURN credentials endpoint
+    authToken?: string;
+}
+
+// The draft-uberti-behave-turn-rest response shape, also returned by the callable
+interface TurnRestResponse {
+    username: string;
+    password?: string;
+    credential?: string;
+    ttl?: number;
+    uris?: string[];
+}
+
+// Thrown when privacy mode asks for relay-only ICE but there is no TURN server to relay
+// through; such a call could never connect, so it is refused before it starts
+export class RelayUnavailableError extends Error {
+    constructor() {
+        super("Privacy mode needs a relay server, and none is available right now. Turn privacy mode off to connect directly.");
+        this.name = "RelayUnavailableError";
+    }
+}
+
+// Refresh cached credentials this long before they actually expire
+const CREDENTIAL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+let cachedCredentials: TurnCredentials | null = null;
+let cachedCredentialsUserId: string | null = null;
+
+const parseUrlList = (value: string): string[] =>
+    value.split(",").map(url => url.trim()).filter(url => url.length > 0);
+
+const toTurnCredentials = (data: TurnRestResponse): TurnCredentials => ({
+    username: data.username,
+    credential: data.password ?? data.credential ?? "",
+    urls: Array.isArray(data.uris) && data.uris.length > 0 ? data.uris : parseUrlList(iceConfig.turnUrls),
+    expiresAt: Date.now() + Number(data.ttl ?? iceConfig.turnCredentialTtlSeconds) * 1000
+});
+
+// Ask the TURN REST endpoint for credentials. Expects the draft-uberti-behave-turn-rest
+// response shape: { username, password, ttl, uris }.
+export const fetchTurnCredentials = async (userId: string, authToken?: string): Promise<TurnCredentials | null> => {
+    try {
+        const url = new URL(iceConfig.turnCredentialsUrl, window.location.origin);
+        url.searchParams.set("service", "turn");
+        url.searchParams.set("username", userId);
+
+        const response = await fetch(url.toString(), {
+            headers: authToken ? { Authorization: `Bearer ${authToken}` } : undefined
+        });
+        if (!response.ok) {
+            throw new Error(`TURN credentials request failed with status ${response.status}`);
+        }
+
+        return toTurnCredentials(await response.json());
+    } catch (error) {
+        console.error("Error fetching TURN credentials:", error);
+        return null;
+    }
+};
+
+// Ask our own Cloud Function for credentials; it signs them for the signed-in user
+export const callTurnCredentialsFunction = async (): Promise<TurnCredentials | null> => {
+    try {
+        const getCredentials = httpsCallable<void, TurnRestResponse>(functions, iceConfig.turnCredentialsFunction);
+        const result = await getCredentials();
+        return toTurnCredentials(result.data);
+    } catch (error) {
+        console.error("Error getting TURN credentials:", error);
+        return null;
+    }
+};
+
+// Get time-limited TURN credentials, reusing cached ones until they are about to expire
+const getTurnCredentials = async (userId: string, authToken?: string): Promise<TurnCredentials | null> => {
+    if (
+        cachedCredentials &&
+        cachedCredentialsUserId === userId &&
+        cachedCredentials.expiresAt - CREDENTIAL_REFRESH_MARGIN_MS > Date.now()
+    ) {
+        return cachedCredentials;
+    }
+
+    cachedCredentialsUserId = userId;
+
+    if (iceConfig.turnCredentialsUrl) {
+        cachedCredentials = await fetchTurnCredentials(userId, authToken);
+    } else if (iceConfig.turnCredentialsFunction) {
+        cachedCredentials = await callTurnCredentialsFunction();
+    } else {
+        cachedCredentials = null;
+    }
+
+    return cachedCredentials;
+};
+
+// Build the ICE server list: STUN, any static TURN account, then time-limited TURN credentials
+export const getIceServers = async (userId: string, authToken?: string): Promise<RTCIceServer[]> => {
+    const iceServers: RTCIceServer[] = [];
+
+    const stunUrls = parseUrlList(iceConfig.stunUrls);
+    if (stunUrls.length > 0) {
+        iceServers.push({ urls: stunUrls });
+    }
+
+    const turnUrls = parseUrlList(iceConfig.turnUrls);
+    if (turnUrls.length > 0 && iceConfig.turnUsername && iceConfig.turnCredential) {
+        iceServers.push({
+            urls: turnUrls,
+            username: iceConfig.turnUsername,
+            credential: iceConfig.turnCredential
+        });
+    }
+
+    const credentials = await getTurnCredentials(userId, authToken);
+    if (credentials && credentials.urls.length > 0) {
+        iceServers.push({
+            urls: credentials.urls,
+            username: credentials.username,
+            credential: credentials.credential
+        });
+    }
+
+    return iceServers;
+};
+
+// Full RTCPeerConnection configuration for a call
+export const getRtcConfiguration = async (
+    userId: string,
+    options: RtcConfigurationOptions = {}
+): Promise<RTCConfiguration> => {
+    const iceServers = await getIceServers(userId, options.authToken);
+    const iceTransportPolicy: RTCIceTransportPolicy = options.privacyMode ? "relay" : iceConfig.iceTransportPolicy;
+
+    if (iceTransportPolicy === "relay" && !iceServers.some(server => server.username)) {
+        console.error("Relay-only ICE policy requested but no TURN server is configured");
+        throw new RelayUnavailableError();
+    }
+
+    return { iceServers, iceTransportPolicy };
+};
@@ -0,0 +1,54 @@
+import {
+    parseInterestTags,
+    scoreCandidate,
+    MatchCriteria,
+    DEFAULT_MATCH_PREFERENCES
+} from './matchingPreferences';
+
+const criteria = (overrides: Partial<MatchCriteria['profile']> = {}, preferences = {}): MatchCriteria => ({
+    profile: { interestTags: [], ...overrides },
+    preferences: { ...DEFAULT_MATCH_PREFERENCES, ...preferences }
+});
+
+describe('parseInterestTags', () => {
+    test('splits, normalizes and dedupes free-form interests', () => {
+        expect(parseInterestTags('Music, travel;  Board   Games\n#movies, music')).toEqual([
+            'music',
+            'travel',
+            'board games',
+            'movies'
+        ]);
+    });
+
+    test('returns no tags for empty input', () => {
+        expect(parseInterestTags(undefined)).toEqual([]);
+        expect(parseInterestTags(' , ;')).toEqual([]);
+    });
+});
+
+describe('scoreCandidate', () => {
+    test('ranks shared interests above language and region', () => {
+        const seeker = criteria({ interestTags: ['music', 'travel'], language: 'en', region: 'europe' });
+        const sharesInterest = criteria({ interestTags: ['music'] });
+        const sharesLanguageAndRegion = criteria({ language: 'en', region: 'europe' });
+
+        expect(scoreCandidate(seeker, 0, sharesInterest, 0)).toBe(10);
+        expect(scoreCandidate(seeker, 0, sharesLanguageAndRegion, 0)).toBe(8);
+    });
+
+    test('rejects candidates outside the seeker preferences until the fallback time', () => {
+        const seeker = criteria({ interestTags: ['music'] }, { sharedInterests: true, fallbackAfterMs: 10000 });
+        const candidate = criteria({ interestTags: ['chess'] });
+
+        expect(scoreCandidate(seeker, 5000, candidate, 0)).toBeNull();
+        expect(scoreCandidate(seeker, 10000, candidate, 0)).toBe(0);
+    });
+
+    test('requires the candidate to accept the seeker as well', () => {
+        const seeker = criteria({ gender: 'male' });
+        const candidate = criteria({}, { genderPreference: 'female', fallbackAfterMs: 10000 });
+
+        expect(scoreCandidate(seeker, 0, candidate, 0)).toBeNull();
+        expect(scoreCandidate(seeker, 0, candidate, 20000)).toBe(0);
+    });
+});
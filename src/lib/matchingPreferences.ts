@@ -0,0 +1,127 @@
+export type GenderPreference = 'any' | 'male' | 'female' | 'other';
+
+// What a searcher is looking for in a partner
+export interface MatchPreferences {
+    sharedInterests: boolean;
+    language?: string;
+    region?: string;
+    genderPreference: GenderPreference;
+    // After this long in the queue every preference is dropped and anyone will do
+    fallbackAfterMs: number;
+}
+
+// The public side of a searcher that partners are matched against
+export interface MatchProfile {
+    interestTags: string[];
+    language?: string;
+    region?: string;
+    gender?: string;
+}
+
+// Everything a waiting ticket carries so claimers can score it without extra reads
+export interface MatchCriteria {
+    profile: MatchProfile;
+    preferences: MatchPreferences;
+}
+
+export const DEFAULT_MATCH_PREFERENCES: MatchPreferences = {
+    sharedInterests: false,
+    genderPreference: 'any',
+    fallbackAfterMs: 15 * 1000
+};
+
+export const MATCH_LANGUAGES: { code: string; label: string }[] = [
+    { code: 'en', label: 'English' },
+    { code: 'es', label: 'Spanish' },
+    { code: 'fr', label: 'French' },
+    { code: 'de', label: 'German' },
+    { code: 'pt', label: 'Portuguese' },
+    { code: 'it', label: 'Italian' },
+    { code: 'ru', label: 'Russian' },
+    { code: 'ar', label: 'Arabic' },
+    { code: 'hi', label: 'Hindi' },
+    { code: 'zh', label: 'Chinese' },
+    { code: 'ja', label: 'Japanese' },
+    { code: 'ko', label: 'Korean' }
+];
+
+export const MATCH_REGIONS: { code: string; label: string }[] = [
+    { code: 'africa', label: 'Africa' },
+    { code: 'asia', label: 'Asia' },
+    { code: 'europe', label: 'Europe' },
+    { code: 'north-america', label: 'North America' },
+    { code: 'south-america', label: 'South America' },
+    { code: 'oceania', label: 'Oceania' }
+];
+
+// Score weights; shared interests dominate so they decide between otherwise equal candidates
+const SHARED_INTEREST_SCORE = 10;
+const SAME_LANGUAGE_SCORE = 5;
+const SAME_REGION_SCORE = 3;
+
+// Turn the free-form interests field ("Music, travel; #movies") into normalized tags
+export const parseInterestTags = (interests?: string): string[] => {
+    if (!interests) return [];
+
+    const tags = interests
+        .split(/[,;\n#]+/)
+        .map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' '))
+        .filter(tag => tag.length > 0 && tag.length <= 32);
+
+    return Array.from(new Set(tags));
+};
+
+export const countSharedInterests = (a: string[], b: string[]): number => {
+    const other = new Set(b);
+    return a.filter(tag => other.has(tag)).length;
+};
+
+// Whether a searcher with these criteria would accept the other profile right now
+const accepts = (seeker: MatchCriteria, other: MatchProfile, waitedMs: number): boolean => {
+    const { preferences, profile } = seeker;
+
+    if (waitedMs >= preferences.fallbackAfterMs) return true;
+
+    if (preferences.genderPreference !== 'any' && other.gender !== preferences.genderPreference) {
+        return false;
+    }
+
+    if (preferences.language && other.language !== preferences.language) {
+        return false;
+    }
+
+    if (preferences.region && other.region !== preferences.region) {
+        return false;
+    }
+
+    if (preferences.sharedInterests && countSharedInterests(profile.interestTags, other.interestTags) === 0) {
+        return false;
+    }
+
+    return true;
+};
+
+// Score a candidate for a searcher. Both sides must accept each other given how
+// long each has waited; returns null when they are incompatible.
+export const scoreCandidate = (
+    seeker: MatchCriteria,
+    seekerWaitedMs: number,
+    candidate: MatchCriteria,
+    candidateWaitedMs: number
+): number | null => {
+    if (!accepts(seeker, candidate.profile, seekerWaitedMs)) return null;
+    if (!accepts(candidate, seeker.profile, candidateWaitedMs)) return null;
+
+    let score = SHARED_INTEREST_SCORE *
+        countSharedInterests(seeker.profile.interestTags, candidate.profile.interestTags);
+
+    if (seeker.profile.language && seeker.profile.language === candidate.profile.language) {
+        score += SAME_LANGUAGE_SCORE;
+    }
+
+    if (seeker.profile.region && seeker.profile.region === candidate.profile.region) {
+        score += SAME_REGION_SCORE;
+    }
+
+    return score;
+};
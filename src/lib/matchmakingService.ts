@@ -0,0 +1,395 @@
+import {
+    collection,
+    doc,
+    addDoc,
+    getDocs,
+    updateDoc,
+    query,
+    where,
+    orderBy,
+    limit,
+    onSnapshot,
+    runTransaction,
+    Timestamp
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { roomCollection, buildRoomData, endRoom } from "./roomService";
+import { UserData } from "./userService";
+import { getBlockedUserIds } from "./blockService";
+import {
+    MatchCriteria,
+    MatchPreferences,
+    MatchProfile,
+    DEFAULT_MATCH_PREFERENCES,
+    parseInterestTags,
+    scoreCandidate
+} from "./matchingPreferences";
+
+export type MatchTicketStatus = 'waiting' | 'matched' | 'cancelled' | 'expired';
+
+export interface MatchTicket {
+    id: string;
+    userId: string;
+    status: MatchTicketStatus;
+    createdAt: Timestamp;
+    expiresAt: Timestamp;
+    matchedAt?: Timestamp;
+    roomId?: string;
+    partnerId?: string;
+    isInitiator?: boolean;
+    criteria?: MatchCriteria;
+}
+
+export interface MatchResult {
+    roomId: string;
+    partnerId: string;
+    isInitiator: boolean;
+}
+
+export interface MatchmakingHandlers {
+    onMatched: (result: MatchResult) => void;
+    onError?: (error: Error) => void;
+}
+
+export interface MatchmakingHandle {
+    cancel: () => Promise<void>;
+}
+
+export const matchQueueCollection = collection(db, "matchQueue");
+
+// A waiting ticket that is not refreshed within this window can no longer be claimed
+export const MATCH_TICKET_TTL_MS = 30 * 1000;
+
+// How often a waiting searcher refreshes its ticket and retries claiming a partner
+export const MATCH_RETRY_INTERVAL_MS = 5 * 1000;
+
+// How many waiting tickets are considered per claim attempt
+const MATCH_CANDIDATE_LIMIT = 25;
+
+const ticketExpiry = (): Timestamp => Timestamp.fromMillis(Date.now() + MATCH_TICKET_TTL_MS);
+
+const isExpired = (ticket: Pick<MatchTicket, "expiresAt">): boolean =>
+    ticket.expiresAt.toMillis() <= Date.now();
+
+// Build the criteria stored on a ticket from the user's profile and chosen preferences.
+// Firestore rejects undefined values, so optional fields are only set when present.
+export const buildMatchCriteria = (
+    user: UserData | null,
+    preferences: MatchPreferences = DEFAULT_MATCH_PREFERENCES
+): MatchCriteria => {
+    const profile: MatchProfile = { interestTags: parseInterestTags(user?.interests) };
+    if (user?.language) profile.language = user.language;
+    if (user?.region) profile.region = user.region;
+    if (user?.gender) profile.gender = user.gender;
+
+    const cleanPreferences: MatchPreferences = {
+        sharedInterests: preferences.sharedInterests,
+        genderPreference: preferences.genderPreference,
+        fallbackAfterMs: preferences.fallbackAfterMs
+    };
+    if (preferences.language) cleanPreferences.language = preferences.language;
+    if (preferences.region) cleanPreferences.region = preferences.region;
+
+    return { profile, preferences: cleanPreferences };
+};
+
+// Put a user into the queue with a fresh waiting ticket
+export const createMatchTicket = async (userId: string, criteria?: MatchCriteria): Promise<string> => {
+    const ticketData: Omit<MatchTicket, "id"> = {
+        userId,
+        status: 'waiting',
+        createdAt: Timestamp.now(),
+        expiresAt: ticketExpiry(),
+        ...(criteria ? { criteria } : {})
+    };
+
+    const ticketRef = await addDoc(matchQueueCollection, ticketData);
+    console.log("Created match ticket:", ticketRef.id);
+    return ticketRef.id;
+};
+
+// Get claimable tickets, excluding the searcher's own. Expired tickets are left out by
+// the query itself, so abandoned ones can never fill up the candidate window; the
+// matchQueue sweeper in functions/ marks them expired. Firestore needs a range filter's
+// field to be ordered first, and the candidates are ranked by wait time afterwards.
+export const getWaitingTickets = async (excludeUserId: string): Promise<MatchTicket[]> => {
+    try {
+        const q = query(
+            matchQueueCollection,
+            where("status", "==", "waiting"),
+            where("expiresAt", ">", Timestamp.now()),
+            orderBy("expiresAt", "asc"),
+            orderBy("createdAt", "asc"),
+            limit(MATCH_CANDIDATE_LIMIT)
+        );
+
+        const snapshot = await getDocs(q);
+
+        return snapshot.docs
+            .map(doc => ({ id: doc.id, ...(doc.data() as Omit<MatchTicket, "id">) }))
+            .filter(ticket => ticket.userId !== excludeUserId && !isExpired(ticket));
+    } catch (error) {
+        console.error("Error getting waiting tickets:", error);
+        return [];
+    }
+};
+
+// Atomically pair two waiting tickets and open a room for them.
+// Returns null when either ticket was claimed, cancelled or expired in the meantime.
+export const claimMatchTicket = async (
+    ownTicketId: string,
+    candidateTicketId: string
+): Promise<MatchResult | null> => {
+    try {
+        return await runTransaction(db, async (transaction) => {
+            const ownRef = doc(db, "matchQueue", ownTicketId);
+            const candidateRef = doc(db, "matchQueue", candidateTicketId);
+
+            const ownSnap = await transaction.get(ownRef);
+            const candidateSnap = await transaction.get(candidateRef);
+
+            if (!ownSnap.exists() || !candidateSnap.exists()) return null;
+
+            const own = ownSnap.data() as Omit<MatchTicket, "id">;
+            const candidate = candidateSnap.data() as Omit<MatchTicket, "id">;
+
+            if (own.status !== 'waiting' || candidate.status !== 'waiting') return null;
+            if (own.userId === candidate.userId) return null;
+
+            if (isExpired(candidate)) {
+                transaction.update(candidateRef, { status: 'expired' });
+                return null;
+            }
+
+            // The user who was already waiting becomes participant1 and sends the offer
+            const now = Timestamp.now();
+            const roomRef = doc(roomCollection);
+            transaction.set(roomRef, buildRoomData(candidate.userId, own.userId, now));
+
+            transaction.update(candidateRef, {
+                status: 'matched',
+                matchedAt: now,
+                roomId: roomRef.id,
+                partnerId: own.userId,
+                isInitiator: true
+            });
+
+            transaction.update(ownRef, {
+                status: 'matched',
+                matchedAt: now,
+                roomId: roomRef.id,
+                partnerId: candidate.userId,
+                isInitiator: false
+            });
+
+            return {
+                roomId: roomRef.id,
+                partnerId: candidate.userId,
+                isInitiator: false
+            };
+        });
+    } catch (error) {
+        console.error("Error claiming match ticket:", error);
+        return null;
+    }
+};
+
+// Push back the expiry of a ticket that is still waiting
+export const refreshMatchTicket = async (ticketId: string): Promise<boolean> => {
+    try {
+        await updateDoc(doc(db, "matchQueue", ticketId), { expiresAt: ticketExpiry() });
+        return true;
+    } catch (error) {
+        console.error("Error refreshing match ticket:", error);
+        return false;
+    }
+};
+
+// Leave the queue. Resolves to the final ticket state so callers can tell
+// whether a partner claimed the ticket before the cancel went through.
+export const cancelMatchTicket = async (ticketId: string): Promise<MatchTicket | null> => {
+    try {
+        return await runTransaction(db, async (transaction) => {
+            const ticketRef = doc(db, "matchQueue", ticketId);
+            const ticketSnap = await transaction.get(ticketRef);
+
+            if (!ticketSnap.exists()) return null;
+
+            const ticket = { id: ticketSnap.id, ...(ticketSnap.data() as Omit<MatchTicket, "id">) };
+
+            if (ticket.status === 'waiting') {
+                transaction.update(ticketRef, { status: 'cancelled' });
+                return { ...ticket, status: 'cancelled' as MatchTicketStatus };
+            }
+
+            return ticket;
+        });
+    } catch (error) {
+        console.error("Error cancelling match ticket:", error);
+        return null;
+    }
+};
+
+// Subscribe to a single ticket to be notified when someone claims it
+export const subscribeToMatchTicket = (
+    ticketId: string,
+    callback: (ticket: MatchTicket | null) => void
+) => {
+    return onSnapshot(doc(db, "matchQueue", ticketId), (snapshot) => {
+        if (snapshot.exists()) {
+            callback({
+                id: snapshot.id,
+                ...(snapshot.data() as Omit<MatchTicket, "id">)
+            });
+        } else {
+            callback(null);
+        }
+    });
+};
+
+// Order compatible waiting tickets best first; ties go to whoever has waited longest.
+// Tickets from older clients without criteria are treated as having no preferences.
+export const rankWaitingTickets = (
+    criteria: MatchCriteria,
+    waitedMs: number,
+    tickets: MatchTicket[],
+    now: number = Date.now()
+): MatchTicket[] => {
+    const fallbackCriteria: MatchCriteria = {
+        profile: { interestTags: [] },
+        preferences: DEFAULT_MATCH_PREFERENCES
+    };
+
+    return tickets
+        .map(ticket => ({
+            ticket,
+            score: scoreCandidate(
+                criteria,
+                waitedMs,
+                ticket.criteria ?? fallbackCriteria,
+                now - ticket.createdAt.toMillis()
+            )
+        }))
+        .filter((entry): entry is { ticket: MatchTicket; score: number } => entry.score !== null)
+        .sort((a, b) => b.score - a.score || a.ticket.createdAt.toMillis() - b.ticket.createdAt.toMillis())
+        .map(entry => entry.ticket);
+};
+
+// Enqueue a user and keep trying to pair them until matched or cancelled.
+// The searcher is matched either by claiming a compatible ticket or by being
+// claimed by another searcher; whichever happens first wins. Preferences are
+// relaxed once the searcher has waited past their fallback time.
+export const startMatchmaking = (
+    userId: string,
+    handlers: MatchmakingHandlers,
+    criteria: MatchCriteria = buildMatchCriteria(null)
+): MatchmakingHandle => {
+    const startedAt = Date.now();
+    let ticketId: string | null = null;
+    let finished = false;
+    let unsubscribeTicket: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setInterval> | null = null;
+
+    const cleanup = () => {
+        if (unsubscribeTicket) {
+            unsubscribeTicket();
+            unsubscribeTicket = null;
+        }
+        if (retryTimer) {
+            clearInterval(retryTimer);
+            retryTimer = null;
+        }
+    };
+
+    const finish = (result: MatchResult) => {
+        if (finished) return;
+        finished = true;
+        cleanup();
+        console.log("Matched:", result);
+        handlers.onMatched(result);
+    };
+
+    const fail = (error: unknown) => {
+        if (finished) return;
+        finished = true;
+        cleanup();
+        console.error("Matchmaking failed:", error);
+        handlers.onError?.(error instanceof Error ? error : new Error("Matchmaking failed"));
+    };
+
+    const attemptClaim = async () => {
+        if (!ticketId) return;
+
+        // Never pair with someone the user blocked. Blocks the other way are
+        // enforced by the rules, which refuse to open a room for the pair.
+        const [waiting, blockedIds] = await Promise.all([getWaitingTickets(userId), getBlockedUserIds(userId)]);
+        const candidates = rankWaitingTickets(
+            criteria,
+            Date.now() - startedAt,
+            waiting.filter(ticket => !blockedIds.includes(ticket.userId))
+        );
+        for (const candidate of candidates) {
+            if (finished) return;
+
+            const result = await claimMatchTicket(ticketId, candidate.id);
+            if (result) {
+                finish(result);
+                return;
+            }
+        }
+    };
+
+    const run = async () => {
+        ticketId = await createMatchTicket(userId, criteria);
+
+        if (finished) {
+            // Cancelled while the ticket was being created
+            await cancelMatchTicket(ticketId);
+            return;
+        }
+
+        unsubscribeTicket = subscribeToMatchTicket(ticketId, (ticket) => {
+            if (!ticket) {
+                fail(new Error("Match ticket was removed"));
+            } else if (ticket.status === 'matched' && ticket.roomId && ticket.partnerId) {
+                finish({
+                    roomId: ticket.roomId,
+                    partnerId: ticket.partnerId,
+                    isInitiator: !!ticket.isInitiator
+                });
+            } else if (ticket.status === 'expired' || ticket.status === 'cancelled') {
+                fail(new Error(`Match ticket ${ticket.status}`));
+            }
+        });
+
+        await attemptClaim();
+
+        if (!finished) {
+            retryTimer = setInterval(() => {
+                if (!ticketId || finished) return;
+                refreshMatchTicket(ticketId)
+                    .then(() => attemptClaim())
+                    .catch(fail);
+            }, MATCH_RETRY_INTERVAL_MS);
+        }
+    };
+
+    run().catch(fail);
+
+    return {
+        cancel: async () => {
+            if (finished) return;
+            finished = true;
+            cleanup();
+
+            if (!ticketId) return;
+
+            const ticket = await cancelMatchTicket(ticketId);
+
+            // Someone claimed us just before the cancel landed; close the room they opened
+            if (ticket && ticket.status === 'matched' && ticket.roomId) {
+                await endRoom(ticket.roomId, 'cancelled', userId);
+            }
+        }
+    };
+};
@@ -0,0 +1,56 @@
+import {
+    buildMediaConstraints,
+    chooseDevice,
+    DEFAULT_DEVICE_PREFERENCES,
+    DEVICE_PREFERENCES_KEY,
+    loadDevicePreferences,
+    saveDevicePreferences
+} from './mediaDevices';
+
+const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, value);
+        }
+    };
+};
+
+test('remembers the preferred devices', () => {
+    const storage = memoryStorage();
+    expect(loadDevicePreferences(storage)).toEqual(DEFAULT_DEVICE_PREFERENCES);
+
+    saveDevicePreferences({ cameraId: 'usb-cam', microphoneId: null, speakerId: 'headset' }, storage);
+    expect(loadDevicePreferences(storage)).toEqual({ cameraId: 'usb-cam', microphoneId: null, speakerId: 'headset' });
+});
+
+test('ignores unreadable stored preferences', () => {
+    const storage = memoryStorage();
+    storage.setItem(DEVICE_PREFERENCES_KEY, '{not json');
+    expect(loadDevicePreferences(storage)).toEqual(DEFAULT_DEVICE_PREFERENCES);
+
+    storage.setItem(DEVICE_PREFERENCES_KEY, JSON.stringify({ cameraId: 42 }));
+    expect(loadDevicePreferences(storage).cameraId).toBeNull();
+});
+
+test('prefers the chosen device, then the current one, then the default', () => {
+    const devices = [{ deviceId: 'built-in' }, { deviceId: 'usb-cam' }];
+
+    expect(chooseDevice(devices, 'usb-cam', 'built-in')).toBe('usb-cam');
+    // The preferred camera was unplugged
+    expect(chooseDevice(devices, 'other-cam', 'usb-cam')).toBe('usb-cam');
+    expect(chooseDevice(devices, 'other-cam', 'gone')).toBe('built-in');
+    expect(chooseDevice([], 'usb-cam')).toBeNull();
+});
+
+test('asks for preferred devices without requiring them', () => {
+    expect(buildMediaConstraints(DEFAULT_DEVICE_PREFERENCES)).toEqual({
+        audio: true,
+        video: { width: { ideal: 640 }, height: { ideal: 480 } }
+    });
+    expect(buildMediaConstraints({ cameraId: 'usb-cam', microphoneId: 'mic', speakerId: null })).toEqual({
+        audio: { deviceId: { ideal: 'mic' } },
+        video: { width: { ideal: 640 }, height: { ideal: 480 }, deviceId: { ideal: 'usb-cam' } }
+    });
+});
@@ -0,0 +1,201 @@
+// Cameras, microphones and speakers: listing them, remembering which ones the user
+// prefers and switching between them, including in the middle of a call.
+//
+// Preferences are kept in localStorage rather than the user's profile because device
+// ids are only meaningful to the browser (and origin) that reported them.
+
+export type MediaDeviceRole = 'camera' | 'microphone' | 'speaker';
+
+// A null id means the system default
+export interface MediaDevicePreferences {
+    cameraId: string | null;
+    microphoneId: string | null;
+    speakerId: string | null;
+}
+
+export interface AvailableDevices {
+    cameras: MediaDeviceInfo[];
+    microphones: MediaDeviceInfo[];
+    speakers: MediaDeviceInfo[];
+}
+
+export const DEFAULT_DEVICE_PREFERENCES: MediaDevicePreferences = {
+    cameraId: null,
+    microphoneId: null,
+    speakerId: null
+};
+
+export const NO_DEVICES: AvailableDevices = {
+    cameras: [],
+    microphones: [],
+    speakers: []
+};
+
+export const DEVICE_PREFERENCES_KEY = "worldConnect.mediaDevices";
+
+const PREFERENCE_KEYS: Record<MediaDeviceRole, keyof MediaDevicePreferences> = {
+    camera: 'cameraId',
+    microphone: 'microphoneId',
+    speaker: 'speakerId'
+};
+
+const DEVICE_LISTS: Record<MediaDeviceRole, keyof AvailableDevices> = {
+    camera: 'cameras',
+    microphone: 'microphones',
+    speaker: 'speakers'
+};
+
+// What the call asks of a camera, whichever one it is
+const CAMERA_CONSTRAINTS: MediaTrackConstraints = {
+    width: { ideal: 640 },
+    height: { ideal: 480 }
+};
+
+// Not in TypeScript's DOM types yet, and missing from some browsers
+type SinkableMediaElement = HTMLMediaElement & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const preferredDeviceId = (preferences: MediaDevicePreferences, role: MediaDeviceRole): string | null =>
+    preferences[PREFERENCE_KEYS[role]];
+
+export const withPreferredDevice = (
+    preferences: MediaDevicePreferences,
+    role: MediaDeviceRole,
+    deviceId: string | null
+): MediaDevicePreferences => ({ ...preferences, [PREFERENCE_KEYS[role]]: deviceId });
+
+export const devicesFor = (devices: AvailableDevices, role: MediaDeviceRole): MediaDeviceInfo[] =>
+    devices[DEVICE_LISTS[role]];
+
+export const loadDevicePreferences = (storage: Pick<Storage, "getItem"> = window.localStorage): MediaDevicePreferences => {
+    try {
+        const stored = JSON.parse(storage.getItem(DEVICE_PREFERENCES_KEY) || "{}");
+        return {
+            cameraId: typeof stored.cameraId === 'string' ? stored.cameraId : null,
+            microphoneId: typeof stored.microphoneId === 'string' ? stored.microphoneId : null,
+            speakerId: typeof stored.speakerId === 'string' ? stored.speakerId : null
+        };
+    } catch (error) {
+        console.error("Error loading device preferences:", error);
+        return DEFAULT_DEVICE_PREFERENCES;
+    }
+};
+
+export const saveDevicePreferences = (
+    preferences: MediaDevicePreferences,
+    storage: Pick<Storage, "setItem"> = window.localStorage
+): void => {
+    try {
+        storage.setItem(DEVICE_PREFERENCES_KEY, JSON.stringify(preferences));
+    } catch (error) {
+        console.error("Error saving device preferences:", error);
+    }
+};
+
+// Labels are empty until the user has granted camera or microphone access
+export const deviceLabel = (device: MediaDeviceInfo, index: number, role: MediaDeviceRole): string => {
+    if (device.label) return device.label;
+
+    const names: Record<MediaDeviceRole, string> = { camera: 'Camera', microphone: 'Microphone', speaker: 'Speaker' };
+    return `${names[role]} ${index + 1}`;
+};
+
+export const listDevices = async (): Promise<AvailableDevices> => {
+    try {
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        return {
+            cameras: devices.filter(device => device.kind === 'videoinput'),
+            microphones: devices.filter(device => device.kind === 'audioinput'),
+            speakers: devices.filter(device => device.kind === 'audiooutput')
+        };
+    } catch (error) {
+        console.error("Error listing media devices:", error);
+        return NO_DEVICES;
+    }
+};
+
+// Which device a role should use: the preferred one while it is plugged in, else the
+// one already in use if it still is, else the system default (listed first)
+export const chooseDevice = (
+    devices: Pick<MediaDeviceInfo, "deviceId">[],
+    preferredId: string | null,
+    currentId?: string
+): string | null => {
+    const isAvailable = (deviceId?: string | null) => !!deviceId && devices.some(device => device.deviceId === deviceId);
+
+    if (isAvailable(preferredId)) return preferredId;
+    if (isAvailable(currentId)) return currentId as string;
+    return devices[0]?.deviceId ?? null;
+};
+
+// Constraints for the call's camera and microphone. Preferred devices are only
+// 'ideal' so an unplugged one falls back to the default instead of failing.
+export const buildMediaConstraints = (preferences: MediaDevicePreferences): MediaStreamConstraints => ({
+    audio: preferences.microphoneId ? { deviceId: { ideal: preferences.microphoneId } } : true,
+    video: {
+        ...CAMERA_CONSTRAINTS,
+        ...(preferences.cameraId ? { deviceId: { ideal: preferences.cameraId } } : {})
+    }
+});
+
+export const openMediaStream = (preferences: MediaDevicePreferences): Promise<MediaStream> =>
+    navigator.mediaDevices.getUserMedia(buildMediaConstraints(preferences));
+
+// Swap the stream's camera or microphone for another device, keeping it muted or
+// disabled if it was. replaceTrack puts the new track on the call, when there is one.
+export const switchDevice = async (
+    stream: MediaStream,
+    role: Exclude<MediaDeviceRole, 'speaker'>,
+    deviceId: string,
+    replaceTrack?: (track: MediaStreamTrack) => Promise<void>
+): Promise<MediaStreamTrack> => {
+    const kind = role === 'camera' ? 'video' : 'audio';
+
+    // The user picked this exact device, so do not quietly fall back to another
+    const deviceStream = await navigator.mediaDevices.getUserMedia(role === 'camera'
+        ? { video: { ...CAMERA_CONSTRAINTS, deviceId: { exact: deviceId } } }
+        : { audio: { deviceId: { exact: deviceId } } });
+    const [track] = deviceStream.getTracks();
+    const previousTrack = stream.getTracks().find(candidate => candidate.kind === kind);
+    track.enabled = previousTrack?.enabled ?? true;
+
+    try {
+        await replaceTrack?.(track);
+    } catch (error) {
+        track.stop();
+        throw error;
+    }
+
+    if (previousTrack) {
+        stream.removeTrack(previousTrack);
+        previousTrack.stop();
+    }
+    stream.addTrack(track);
+    return track;
+};
+
+// Play a media element through the given speaker, where the browser allows choosing
+export const setSpeaker = async (element: HTMLMediaElement, speakerId: string | null): Promise<boolean> => {
+    const sinkable = element as SinkableMediaElement;
+    if (!sinkable.setSinkId) return false;
+
+    try {
+        await sinkable.setSinkId(speakerId || '');
+        return true;
+    } catch (error) {
+        console.error("Error choosing speaker:", error);
+        return false;
+    }
+};
+
+export const supportsSpeakerSelection = (): boolean =>
+    typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+// Devices plugged in or removed, listed again on every change; returns a function that unsubscribes
+export const subscribeToDeviceChanges = (callback: (devices: AvailableDevices) => void): () => void => {
+    const handleChange = () => {
+        listDevices().then(callback);
+    };
+
+    navigator.mediaDevices.addEventListener('devicechange', handleChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleChange);
+};
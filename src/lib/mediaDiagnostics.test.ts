@@ -0,0 +1,34 @@
+import { explainMediaError, isMediaAccessError, measureLevel } from './mediaDiagnostics';
+
+const mediaError = (name: string) => Object.assign(new Error('getUserMedia failed'), { name });
+
+test('explains each getUserMedia failure with recovery steps', () => {
+    expect(explainMediaError(mediaError('NotAllowedError')).kind).toBe('permission-denied');
+    expect(explainMediaError(mediaError('NotFoundError')).kind).toBe('not-found');
+    expect(explainMediaError(mediaError('NotReadableError')).kind).toBe('in-use');
+    expect(explainMediaError(mediaError('OverconstrainedError')).kind).toBe('overconstrained');
+    // Older Chrome names
+    expect(explainMediaError(mediaError('TrackStartError')).kind).toBe('in-use');
+
+    const explanation = explainMediaError(mediaError('NotAllowedError'));
+    expect(explanation.title).toMatch(/blocked/);
+    expect(explanation.steps.length).toBeGreaterThan(0);
+});
+
+test('tells media access failures apart from other errors', () => {
+    expect(isMediaAccessError(mediaError('NotReadableError'))).toBe(true);
+    expect(isMediaAccessError(new Error('Failed to create room'))).toBe(false);
+    expect(isMediaAccessError('NotAllowedError')).toBe(false);
+});
+
+test('measures silence as zero and a loud signal as full scale', () => {
+    expect(measureLevel(new Uint8Array(256).fill(128))).toBe(0);
+    expect(measureLevel(new Uint8Array(0))).toBe(0);
+
+    const loud = new Uint8Array(256).map((_, index) => (index % 2 === 0 ? 255 : 0));
+    expect(measureLevel(loud)).toBe(1);
+
+    const quiet = new Uint8Array(256).map((_, index) => (index % 2 === 0 ? 148 : 108));
+    expect(measureLevel(quiet)).toBeGreaterThan(0);
+    expect(measureLevel(quiet)).toBeLessThan(1);
+});
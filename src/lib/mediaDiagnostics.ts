@@ -0,0 +1,190 @@
+// Helps users get their camera, microphone and speaker working before a call: plain
+// explanations of getUserMedia failures, a microphone level meter and a test sound.
+
+import { setSpeaker } from "./mediaDevices";
+
+export type MediaErrorKind = 'permission-denied' | 'not-found' | 'in-use' | 'overconstrained' | 'unsupported' | 'unknown';
+
+export interface MediaErrorExplanation {
+    kind: MediaErrorKind;
+    title: string;
+    message: string;
+    // What the user can do about it, in order
+    steps: string[];
+}
+
+// getUserMedia error names, including the ones older Chrome versions used
+const ERROR_KINDS: Record<string, MediaErrorKind> = {
+    NotAllowedError: 'permission-denied',
+    PermissionDeniedError: 'permission-denied',
+    SecurityError: 'permission-denied',
+    NotFoundError: 'not-found',
+    DevicesNotFoundError: 'not-found',
+    NotReadableError: 'in-use',
+    TrackStartError: 'in-use',
+    AbortError: 'in-use',
+    OverconstrainedError: 'overconstrained',
+    ConstraintNotSatisfiedError: 'overconstrained'
+};
+
+const EXPLANATIONS: Record<MediaErrorKind, Omit<MediaErrorExplanation, 'kind'>> = {
+    'permission-denied': {
+        title: 'Camera and microphone are blocked',
+        message: 'Your browser or computer is not letting this site use your camera and microphone.',
+        steps: [
+            'Click the camera or lock icon in the address bar and allow the camera and microphone.',
+            'On macOS, check System Settings > Privacy & Security > Camera and Microphone. On Windows, check Settings > Privacy > Camera and Microphone.',
+            'Press "Try Again", or reload the page if your browser asks you to.'
+        ]
+    },
+    'not-found': {
+        title: 'No camera or microphone found',
+        message: 'We could not find a camera or microphone connected to this device.',
+        steps: [
+            'Plug in your webcam or headset, or make sure the built-in one is switched on.',
+            'If it is connected, check it is not disabled in your computer\'s device settings.',
+            'Press "Try Again".'
+        ]
+    },
+    'in-use': {
+        title: 'Your camera or microphone is busy',
+        message: 'Your camera or microphone is being used by another app, or it stopped responding.',
+        steps: [
+            'Close other apps and browser tabs that might be using it, such as other video calls.',
+            'Unplug an external webcam and plug it back in.',
+            'Press "Try Again". If it still fails, restart your browser.'
+        ]
+    },
+    'overconstrained': {
+        title: 'The selected device is not available',
+        message: 'The camera or microphone you picked cannot be used right now.',
+        steps: [
+            'Pick another camera or microphone under "Settings".',
+            'Or press "Use Default Devices" to go back to your system\'s defaults.'
+        ]
+    },
+    'unsupported': {
+        title: 'Video calls are not available here',
+        message: 'This browser does not allow camera access on this page.',
+        steps: [
+            'Make sure the address starts with https://.',
+            'Use an up-to-date version of Chrome, Firefox, Edge or Safari.'
+        ]
+    },
+    'unknown': {
+        title: 'Your camera could not be started',
+        message: 'Something went wrong while starting your camera and microphone.',
+        steps: [
+            'Press "Try Again".',
+            'If it keeps happening, reload the page or restart your browser.'
+        ]
+    }
+};
+
+// How loud the level meter's quietest and loudest readings are, as RMS of the waveform
+const SILENCE_RMS = 0.01;
+const FULL_SCALE_RMS = 0.3;
+
+export const LEVEL_METER_INTERVAL_MS = 100;
+export const TEST_SOUND_SECONDS = 1.2;
+
+type AudioContextConstructor = typeof AudioContext;
+
+// Errors from getUserMedia are DOMExceptions, which are not Errors in every environment
+const mediaErrorKind = (error: unknown): MediaErrorKind | null => {
+    const name = typeof error === 'object' && error !== null ? (error as { name?: unknown }).name : undefined;
+    return typeof name === 'string' && Object.prototype.hasOwnProperty.call(ERROR_KINDS, name)
+        ? ERROR_KINDS[name]
+        : null;
+};
+
+export const explainMediaError = (error: unknown): MediaErrorExplanation => {
+    const unsupported = typeof navigator === 'undefined' || !navigator.mediaDevices;
+    const kind = mediaErrorKind(error) || (unsupported ? 'unsupported' : 'unknown');
+
+    return { kind, ...EXPLANATIONS[kind] };
+};
+
+// Whether an error came from asking for the camera or microphone, rather than from the call itself
+export const isMediaAccessError = (error: unknown): boolean => mediaErrorKind(error) !== null;
+
+// Loudness of a block of time-domain samples (bytes centred on 128), from 0 to 1
+export const measureLevel = (samples: Uint8Array): number => {
+    if (samples.length === 0) return 0;
+
+    let sumOfSquares = 0;
+    samples.forEach(sample => {
+        const amplitude = (sample - 128) / 128;
+        sumOfSquares += amplitude * amplitude;
+    });
+    const rms = Math.sqrt(sumOfSquares / samples.length);
+
+    return Math.min(1, Math.max(0, (rms - SILENCE_RMS) / (FULL_SCALE_RMS - SILENCE_RMS)));
+};
+
+const audioContextClass = (): AudioContextConstructor | null =>
+    window.AudioContext || (window as unknown as { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext || null;
+
+// Report the microphone's level a few times a second; returns a function that stops it
+export const startLevelMeter = (track: MediaStreamTrack, onLevel: (level: number) => void): () => void => {
+    const AudioContextClass = audioContextClass();
+    if (!AudioContextClass) return () => {};
+
+    const context = new AudioContextClass();
+    const source = context.createMediaStreamSource(new MediaStream([track]));
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+
+    const samples = new Uint8Array(analyser.fftSize);
+    const interval = setInterval(() => {
+        analyser.getByteTimeDomainData(samples);
+        onLevel(measureLevel(samples));
+    }, LEVEL_METER_INTERVAL_MS);
+
+    return () => {
+        clearInterval(interval);
+        source.disconnect();
+        context.close().catch(err => console.error("Error closing level meter:", err));
+    };
+};
+
+// A short chime through the chosen speaker, so users can hear whether it is the right one
+export const playTestSound = async (speakerId: string | null): Promise<boolean> => {
+    const AudioContextClass = audioContextClass();
+    if (!AudioContextClass) return false;
+
+    const context = new AudioContextClass();
+    try {
+        // Routed through an audio element, since only media elements can pick a speaker everywhere
+        const destination = context.createMediaStreamDestination();
+        const audio = new Audio();
+        audio.srcObject = destination.stream;
+        await setSpeaker(audio, speakerId);
+
+        const gain = context.createGain();
+        gain.gain.setValueAtTime(0.2, context.currentTime);
+        gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + TEST_SOUND_SECONDS);
+        gain.connect(destination);
+
+        [523.25, 659.25].forEach((frequency, index) => {
+            const oscillator = context.createOscillator();
+            oscillator.frequency.value = frequency;
+            oscillator.connect(gain);
+            oscillator.start(context.currentTime + index * 0.15);
+            oscillator.stop(context.currentTime + TEST_SOUND_SECONDS);
+        });
+
+        await audio.play();
+        setTimeout(() => {
+            audio.pause();
+            audio.srcObject = null;
+            context.close();
+        }, TEST_SOUND_SECONDS * 1000 + 100);
+        return true;
+    } catch (error) {
+        console.error("Error playing test sound:", error);
+        context.close();
+        return false;
+    }
+};
@@ -0,0 +1,70 @@
+import { DEFAULT_MEDIA_STATE, MediaState, MediaStateChannel } from './mediaStateChannel';
+import { createChannelPair, wait } from '../test-utils/fakeDataChannel';
+
+const setup = (initialState: RTCDataChannelState = 'open') => {
+    const alice = new MediaStateChannel();
+    const bob = new MediaStateChannel();
+
+    const { aliceChannel, bobChannel } = createChannelPair(initialState);
+
+    const bobSees: MediaState[] = [];
+    bob.on('partnerState', state => bobSees.push(state));
+
+    return { alice, bob, aliceChannel, bobChannel, bobSees };
+};
+
+test('tells the partner when screen sharing starts and stops', async () => {
+    const { alice, bob, aliceChannel, bobChannel, bobSees } = setup();
+    alice.attach(aliceChannel.asChannel());
+    bob.attach(bobChannel.asChannel());
+
+    alice.update({ screenSharing: true });
+    await wait(5);
+    expect(bob.getPartnerState()).toEqual({ ...DEFAULT_MEDIA_STATE, screenSharing: true });
+
+    alice.update({ screenSharing: false });
+    await wait(5);
+    expect(bobSees).toEqual([{ ...DEFAULT_MEDIA_STATE, screenSharing: true }, DEFAULT_MEDIA_STATE]);
+});
+
+test('sends the current state once the channel opens', async () => {
+    const { alice, bob, aliceChannel, bobChannel, bobSees } = setup('connecting');
+    alice.attach(aliceChannel.asChannel());
+    bob.attach(bobChannel.asChannel());
+
+    // Changed before the partner could hear about it
+    alice.update({ screenSharing: true });
+    await wait(5);
+    expect(bobSees).toEqual([]);
+
+    bobChannel.open();
+    aliceChannel.open();
+    await wait(5);
+    expect(bobSees).toEqual([{ ...DEFAULT_MEDIA_STATE, screenSharing: true }]);
+});
+
+test('forgets the partner state when the channel closes', async () => {
+    const { alice, bob, aliceChannel, bobChannel, bobSees } = setup();
+    alice.attach(aliceChannel.asChannel());
+    bob.attach(bobChannel.asChannel());
+
+    alice.update({ screenSharing: true });
+    await wait(5);
+    bobChannel.close();
+
+    expect(bob.getPartnerState()).toEqual(DEFAULT_MEDIA_STATE);
+    expect(bobSees).toEqual([{ ...DEFAULT_MEDIA_STATE, screenSharing: true }, DEFAULT_MEDIA_STATE]);
+});
+
+test('keeps mute and camera state alongside screen sharing', async () => {
+    const { alice, bob, aliceChannel, bobChannel } = setup();
+    alice.attach(aliceChannel.asChannel());
+    bob.attach(bobChannel.asChannel());
+
+    alice.update({ audioMuted: true });
+    alice.update({ videoOff: true });
+    await wait(5);
+
+    expect(alice.getLocalState()).toEqual({ audioMuted: true, videoOff: true, screenSharing: false });
+    expect(bob.getPartnerState()).toEqual({ audioMuted: true, videoOff: true, screenSharing: false });
+});
@@ -0,0 +1,145 @@
+// Tells the partner what the media we send actually is, over a dedicated data channel
+// of the peer session. Tracks themselves carry no such meaning: a shared screen goes
+// out on the same sender as the camera did, and a muted microphone still sends silence.
+//
+// The whole state is sent on every change and again whenever the channel opens, so
+// the latest message is always the truth and nothing needs acknowledging.
+
+export interface MediaState {
+    // The microphone track is disabled, so only silence is sent
+    audioMuted: boolean;
+    // The camera track is disabled, so only black frames are sent
+    videoOff: boolean;
+    // The video track carries a shared screen instead of the camera
+    screenSharing: boolean;
+}
+
+export const DEFAULT_MEDIA_STATE: MediaState = {
+    audioMuted: false,
+    videoOff: false,
+    screenSharing: false
+};
+
+export interface MediaStateChannelEvents {
+    // The partner's latest state; back to the default when the channel closes
+    partnerState: MediaState;
+}
+
+type MediaStateWireMessage = { kind: 'state'; state: MediaState };
+
+type MediaStateChannelListener<K extends keyof MediaStateChannelEvents> = (payload: MediaStateChannelEvents[K]) => void;
+
+export class MediaStateChannel {
+    private channel: RTCDataChannel | null = null;
+    private localState: MediaState = DEFAULT_MEDIA_STATE;
+    private partnerState: MediaState = DEFAULT_MEDIA_STATE;
+    private listeners: { [K in keyof MediaStateChannelEvents]: Set<MediaStateChannelListener<K>> } = {
+        partnerState: new Set()
+    };
+
+    // Register a listener; returns a function that removes it
+    on<K extends keyof MediaStateChannelEvents>(event: K, listener: MediaStateChannelListener<K>): () => void {
+        this.listeners[event].add(listener);
+
+        return () => {
+            this.listeners[event].delete(listener);
+        };
+    }
+
+    // Use a data channel from the peer session for media state
+    attach(channel: RTCDataChannel): void {
+        this.detach();
+        this.channel = channel;
+
+        channel.onopen = () => {
+            this.sendState();
+        };
+        channel.onmessage = (event: MessageEvent) => {
+            this.handleWireMessage(event.data);
+        };
+        channel.onclose = () => {
+            if (this.channel === channel) {
+                this.detach();
+                this.setPartnerState(DEFAULT_MEDIA_STATE);
+            }
+        };
+
+        this.sendState();
+    }
+
+    getLocalState(): MediaState {
+        return this.localState;
+    }
+
+    getPartnerState(): MediaState {
+        return this.partnerState;
+    }
+
+    // Change our own state and let the partner know
+    update(changes: Partial<MediaState>): MediaState {
+        this.localState = { ...this.localState, ...changes };
+        this.sendState();
+        return this.localState;
+    }
+
+    close(): void {
+        this.detach();
+        this.localState = DEFAULT_MEDIA_STATE;
+        this.setPartnerState(DEFAULT_MEDIA_STATE);
+    }
+
+    private handleWireMessage(data: unknown): void {
+        if (typeof data !== 'string') return;
+
+        let wire: MediaStateWireMessage;
+        try {
+            wire = JSON.parse(data);
+        } catch (error) {
+            console.error("Ignoring malformed media state message:", error);
+            return;
+        }
+
+        if (wire.kind === 'state') {
+            // Fields a newer partner knows about but we do not are dropped
+            this.setPartnerState({
+                audioMuted: wire.state.audioMuted === true,
+                videoOff: wire.state.videoOff === true,
+                screenSharing: wire.state.screenSharing === true
+            });
+        }
+    }
+
+    private sendState(): void {
+        const channel = this.channel;
+        if (!channel || channel.readyState !== 'open') return;
+
+        const wire: MediaStateWireMessage = { kind: 'state', state: this.localState };
+        try {
+            channel.send(JSON.stringify(wire));
+        } catch (error) {
+            console.error("Error sending media state:", error);
+        }
+    }
+
+    private setPartnerState(state: MediaState): void {
+        const changed = (Object.keys(state) as (keyof MediaState)[])
+            .some(key => state[key] !== this.partnerState[key]);
+        if (!changed) return;
+
+        this.partnerState = state;
+        this.emit('partnerState', state);
+    }
+
+    private detach(): void {
+        if (this.channel) {
+            this.channel.onopen = null;
+            this.channel.onmessage = null;
+            this.channel.onclose = null;
+            this.channel = null;
+        }
+    }
+
+    private emit<K extends keyof MediaStateChannelEvents>(event: K, payload: MediaStateChannelEvents[K]): void {
+        this.listeners[event].forEach(listener => listener(payload));
+    }
+}
@@ -0,0 +1,76 @@
+import {
+    contactFilter,
+    createChatModeration,
+    createRateLimitFilter,
+    createWordFilter,
+    DEFAULT_ROOM_CONTENT_POLICY,
+    MAX_MESSAGE_LENGTH,
+    ModerationContext
+} from './moderationService';
+
+const context = (overrides: Partial<ModerationContext> = {}): ModerationContext => ({
+    senderId: 'alice',
+    direction: 'outgoing',
+    policy: DEFAULT_ROOM_CONTENT_POLICY,
+    now: 0,
+    ...overrides
+});
+
+test('masks listed words and their inflections', () => {
+    const filter = createWordFilter(['darn']);
+
+    expect(filter('Darn it, darned thing', context())).toEqual({ content: '**** it, ****** thing', flags: ['profanity'] });
+    expect(filter('darning is not darnation', context()).content).toBe('******* is not darnation');
+    expect(filter('all clean', context())).toEqual({ content: 'all clean', flags: [] });
+});
+
+test('masks contact details under the default policy', () => {
+    const result = contactFilter('mail me at jo@example.com, call +1 (555) 010-9999 or see example.com/me', context());
+
+    expect(result.content).toBe('mail me at [email removed], call [phone removed] or see [link removed]');
+    expect(result.flags).toEqual(['email', 'phone', 'link']);
+    expect(result.blockedReason).toBeUndefined();
+});
+
+test('masked messages still fit the length limit', () => {
+    const addresses = Array(140).fill('a@b.co').join(' ');
+    expect(addresses.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH);
+
+    const result = contactFilter(addresses, context());
+    expect(result.content).toHaveLength(MAX_MESSAGE_LENGTH);
+    expect(result.content.startsWith('[email removed] [email removed]')).toBe(true);
+    expect(result.content.endsWith('…')).toBe(true);
+});
+
+test('follows the room policy for each kind of contact detail', () => {
+    const policy = { links: 'allow' as const, emails: 'block' as const, phoneNumbers: 'mask' as const };
+
+    expect(contactFilter('see https://example.com', context({ policy }))).toEqual({ content: 'see https://example.com', flags: [] });
+    expect(contactFilter('jo@example.com', context({ policy })).blockedReason).toMatch(/email addresses/);
+});
+
+test('rate limits each sender over a sliding window', () => {
+    const filter = createRateLimitFilter({ maxMessages: 2, windowMs: 1000 });
+    const send = (senderId: string, now: number) => filter('hi', context({ senderId, now })).blockedReason;
+
+    expect(send('alice', 0)).toBeUndefined();
+    expect(send('alice', 100)).toBeUndefined();
+    expect(send('alice', 200)).toMatch(/too quickly/);
+    expect(send('bob', 200)).toBeUndefined();
+    expect(send('alice', 1000)).toBeUndefined();
+
+    // The partner's messages are never rate limited on our side
+    expect(filter('hi', context({ direction: 'incoming' })).blockedReason).toBeUndefined();
+});
+
+test('the chat pipeline combines flags and stops at the first block', () => {
+    const moderate = createChatModeration({ blockedWords: ['darn'] });
+
+    expect(moderate('darn, see www.example.com', context())).toEqual({
+        content: '****, see [link removed]',
+        flags: ['profanity', 'link']
+    });
+
+    const tooLong = moderate('x'.repeat(MAX_MESSAGE_LENGTH + 1), context());
+    expect(tooLong.blockedReason).toMatch(/at most/);
+});
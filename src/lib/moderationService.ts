@@ -0,0 +1,163 @@
+// Chat moderation: a pipeline of filters that may rewrite a message, flag it or block
+// it outright. The client runs it on everything it sends and everything it shows, since
+// messages over the data channel never pass through Firestore rules; the rules enforce
+// what they can for stored messages (length and the room's contact policy).
+
+export type ModerationFlag = 'profanity' | 'link' | 'email' | 'phone';
+
+// What a room does with contact details: let them through, mask them, or refuse the message
+export type ContactPolicy = 'allow' | 'mask' | 'block';
+
+export interface RoomContentPolicy {
+    links: ContactPolicy;
+    emails: ContactPolicy;
+    phoneNumbers: ContactPolicy;
+}
+
+export const DEFAULT_ROOM_CONTENT_POLICY: RoomContentPolicy = {
+    links: 'mask',
+    emails: 'mask',
+    phoneNumbers: 'mask'
+};
+
+// Keep in sync with the chatMessages rules in firestore.rules
+export const MAX_MESSAGE_LENGTH = 1000;
+
+export interface ModerationContext {
+    senderId: string;
+    // Rate limits only apply to what the local user sends
+    direction: 'outgoing' | 'incoming';
+    policy: RoomContentPolicy;
+    now: number;
+}
+
+export interface ModerationResult {
+    content: string;
+    flags: ModerationFlag[];
+    // Set when the message must not be sent or shown at all
+    blockedReason?: string;
+}
+
+export type ModerationFilter = (content: string, context: ModerationContext) => ModerationResult;
+
+export interface RateLimit {
+    maxMessages: number;
+    windowMs: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = {
+    maxMessages: 5,
+    windowMs: 5000
+};
+
+export const DEFAULT_BLOCKED_WORDS = [
+    'asshole', 'bastard', 'bitch', 'bollocks', 'cock', 'cunt', 'dick', 'fag', 'faggot',
+    'fuck', 'motherfucker', 'nigger', 'prick', 'pussy', 'retard', 'shit', 'slut', 'twat', 'whore'
+];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+// At least seven digits, optionally separated by spaces, dots, dashes or brackets
+const PHONE_PATTERN = /\+?\d(?:[\s().-]*\d){6,14}/g;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|me|gg|co|app|ly|tv|xyz|info|link|to)\b(?:\/\S*)?/gi;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Mask listed words, including simple inflections ("words", "worded", "wording")
+export const createWordFilter = (words: string[] = DEFAULT_BLOCKED_WORDS): ModerationFilter => {
+    if (words.length === 0) return (content) => ({ content, flags: [] });
+
+    const pattern = new RegExp(`\\b(?:${words.map(escapeRegExp).join('|')})(?:s|es|ed|er|ers|ing)?\\b`, 'gi');
+
+    return (content) => {
+        const masked = content.replace(pattern, match => '*'.repeat(match.length));
+        return { content: masked, flags: masked === content ? [] : ['profanity'] };
+    };
+};
+
+// Cut a message down to the stored length limit, marking that something was cut
+const truncateMessage = (content: string): string =>
+    content.length > MAX_MESSAGE_LENGTH ? `${content.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : content;
+
+// Apply the room's policy to emails, phone numbers and links, in that order so an
+// email address is not also counted as a link. The placeholders can be longer than
+// what they replace, so masked messages are cut back to the length the rules accept.
+export const contactFilter: ModerationFilter = (content, { policy }) => {
+    const rules: { flag: ModerationFlag; pattern: RegExp; policy: ContactPolicy; label: string }[] = [
+        { flag: 'email', pattern: EMAIL_PATTERN, policy: policy.emails, label: 'email addresses' },
+        { flag: 'phone', pattern: PHONE_PATTERN, policy: policy.phoneNumbers, label: 'phone numbers' },
+        { flag: 'link', pattern: LINK_PATTERN, policy: policy.links, label: 'links' }
+    ];
+
+    let filtered = content;
+    const flags: ModerationFlag[] = [];
+
+    for (const rule of rules) {
+        if (rule.policy === 'allow') continue;
+
+        const replaced = filtered.replace(rule.pattern, `[${rule.flag} removed]`);
+        if (replaced === filtered) continue;
+
+        flags.push(rule.flag);
+        if (rule.policy === 'block') {
+            return { content, flags, blockedReason: `Sharing ${rule.label} isn't allowed in this chat.` };
+        }
+        filtered = replaced;
+    }
+
+    return { content: truncateMessage(filtered), flags };
+};
+
+// Refuse a sender's messages once they exceed the limit within a sliding window
+export const createRateLimitFilter = (limit: RateLimit = DEFAULT_RATE_LIMIT): ModerationFilter => {
+    const sentAtBySender = new Map<string, number[]>();
+
+    return (content, { senderId, direction, now }) => {
+        if (direction !== 'outgoing') return { content, flags: [] };
+
+        const recent = (sentAtBySender.get(senderId) || []).filter(sentAt => now - sentAt < limit.windowMs);
+        if (recent.length >= limit.maxMessages) {
+            sentAtBySender.set(senderId, recent);
+            return { content, flags: [], blockedReason: "You're sending messages too quickly. Please slow down." };
+        }
+
+        sentAtBySender.set(senderId, [...recent, now]);
+        return { content, flags: [] };
+    };
+};
+
+const lengthFilter: ModerationFilter = (content) => (
+    content.length > MAX_MESSAGE_LENGTH
+        ? { content, flags: [], blockedReason: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters.` }
+        : { content, flags: [] }
+);
+
+// Run filters in order, each on the previous one's output, stopping at the first block
+export const createModerationPipeline = (filters: ModerationFilter[]) => {
+    return (content: string, context: ModerationContext): ModerationResult => {
+        let result: ModerationResult = { content, flags: [] };
+
+        for (const filter of filters) {
+            const next = filter(result.content, context);
+            const flags = Array.from(new Set([...result.flags, ...next.flags]));
+            if (next.blockedReason) {
+                return { content, flags, blockedReason: next.blockedReason };
+            }
+            result = { content: next.content, flags };
+        }
+
+        return result;
+    };
+};
+
+export interface ChatModerationOptions {
+    blockedWords?: string[];
+    rateLimit?: RateLimit;
+}
+
+// The filters chat uses by default
+export const createChatModeration = (options: ChatModerationOptions = {}) => createModerationPipeline([
+    lengthFilter,
+    createRateLimitFilter(options.rateLimit),
+    createWordFilter(options.blockedWords),
+    contactFilter
+]);
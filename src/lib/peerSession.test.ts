@@ -0,0 +1,295 @@
+import { PeerSession, PeerSessionState, ReconnectPolicy } from './peerSession';
+import { createInMemorySignalingPair, InMemorySignalingTransport, SignalMessage } from './signaling';
+
+// Just enough of RTCPeerConnection to drive offer/answer negotiation, including
+// negotiationneeded, parameterless setLocalDescription and implicit rollback
+class FakePeerConnection {
+    static count = 0;
+
+    readonly id = ++FakePeerConnection.count;
+    localDescription: RTCSessionDescriptionInit | null = null;
+    remoteDescription: RTCSessionDescriptionInit | null = null;
+    signalingState: RTCSignalingState = 'stable';
+    connectionState: RTCPeerConnectionState = 'new';
+    iceConnectionState: RTCIceConnectionState = 'new';
+    iceGatheringState: RTCIceGatheringState = 'new';
+    addedCandidates: RTCIceCandidateInit[] = [];
+    sentOffers = 0;
+    iceRestarts = 0;
+    rollbacks = 0;
+    private descriptionCount = 0;
+    private senders: { track: MediaStreamTrack; replaceTrack: (track: MediaStreamTrack) => Promise<void> }[] = [];
+    private negotiationNeeded = false;
+
+    onnegotiationneeded: (() => void) | null = null;
+    onicecandidate: ((event: { candidate: { toJSON: () => RTCIceCandidateInit } | null }) => void) | null = null;
+    onconnectionstatechange: (() => void) | null = null;
+    oniceconnectionstatechange: (() => void) | null = null;
+    onicegatheringstatechange: (() => void) | null = null;
+    onsignalingstatechange: (() => void) | null = null;
+    ontrack: (() => void) | null = null;
+    ondatachannel: (() => void) | null = null;
+
+    async setLocalDescription(description?: RTCLocalSessionDescriptionInit): Promise<void> {
+        if (description?.type === 'rollback') {
+            this.rollBack();
+            return;
+        }
+
+        const type = this.signalingState === 'have-remote-offer' ? 'answer' : 'offer';
+        if (type === 'offer') this.sentOffers++;
+        this.localDescription = { type, sdp: `${type}-${this.id}-${++this.descriptionCount}` };
+        this.signalingState = type === 'offer' ? 'have-local-offer' : 'stable';
+        this.updateConnectionState();
+
+        const candidate = { candidate: `candidate-${this.id}`, sdpMid: '0', sdpMLineIndex: 0 };
+        setTimeout(() => this.onicecandidate?.({ candidate: { toJSON: () => candidate } }), 0);
+    }
+
+    async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        if (description.type === 'offer' && this.signalingState === 'have-local-offer') {
+            this.rollBack();
+        }
+        if (description.type === 'answer' && this.signalingState !== 'have-local-offer') {
+            throw new Error(`Cannot set remote answer in state ${this.signalingState}`);
+        }
+
+        this.remoteDescription = description;
+        this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+        this.updateConnectionState();
+    }
+
+    async addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+        this.addedCandidates.push(candidate);
+    }
+
+    addTrack(track: MediaStreamTrack): void {
+        const sender = {
+            track,
+            replaceTrack: async (next: MediaStreamTrack) => {
+                sender.track = next;
+            }
+        };
+        this.senders.push(sender);
+        this.markNegotiationNeeded();
+    }
+
+    getSenders(): { track: MediaStreamTrack }[] {
+        return this.senders;
+    }
+
+    createDataChannel(label: string): { label: string } {
+        this.markNegotiationNeeded();
+        return { label };
+    }
+
+    restartIce(): void {
+        this.iceRestarts++;
+        this.markNegotiationNeeded();
+    }
+
+    close(): void {
+        this.connectionState = 'closed';
+    }
+
+    // Simulate the network dropping out from under the connection
+    drop(): void {
+        this.connectionState = 'failed';
+        this.onconnectionstatechange?.();
+    }
+
+    // A rolled-back offer still has changes to negotiate once the connection is stable
+    private rollBack(): void {
+        this.rollbacks++;
+        this.localDescription = null;
+        this.signalingState = 'stable';
+        this.markNegotiationNeeded();
+    }
+
+    private markNegotiationNeeded(): void {
+        this.negotiationNeeded = true;
+        setTimeout(() => this.fireNegotiationNeeded(), 0);
+    }
+
+    private fireNegotiationNeeded(): void {
+        if (this.negotiationNeeded && this.signalingState === 'stable' && this.connectionState !== 'closed') {
+            this.negotiationNeeded = false;
+            this.onnegotiationneeded?.();
+        }
+    }
+
+    private updateConnectionState(): void {
+        if (this.signalingState !== 'stable') return;
+
+        if (this.localDescription && this.remoteDescription) {
+            this.connectionState = 'connected';
+            this.onconnectionstatechange?.();
+        }
+        setTimeout(() => this.fireNegotiationNeeded(), 0);
+    }
+}
+
+class FakeDescription {
+    constructor(init: RTCIceCandidateInit) {
+        Object.assign(this, init);
+    }
+}
+
+// Adds network latency so both sides can have an offer in flight at the same time
+class SlowSignalingTransport extends InMemorySignalingTransport {
+    protected post(message: SignalMessage): void {
+        setTimeout(() => super.post(message), 5);
+    }
+}
+
+const globals = global as any;
+const localStream = { getTracks: () => [] } as unknown as MediaStream;
+const streamWithTrack = { getTracks: () => [{ kind: 'audio' }] } as unknown as MediaStream;
+const fastReconnect: ReconnectPolicy = { disconnectGraceMs: 0, retryDelaysMs: [20, 20] };
+const flush = async () => {
+    for (let i = 0; i < 10; i++) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+};
+
+beforeAll(() => {
+    globals.RTCPeerConnection = FakePeerConnection;
+    globals.RTCIceCandidate = FakeDescription;
+});
+
+afterAll(() => {
+    delete globals.RTCPeerConnection;
+    delete globals.RTCIceCandidate;
+});
+
+test('two sessions complete a handshake over an in-memory transport', async () => {
+    const [callerTransport, calleeTransport] = createInMemorySignalingPair();
+
+    const caller = new PeerSession({ transport: callerTransport, isInitiator: true, localStream });
+    const callee = new PeerSession({ transport: calleeTransport, isInitiator: false, localStream });
+
+    const callerStates: PeerSessionState[] = [];
+    const callerChannels: string[] = [];
+    caller.on('stateChange', state => callerStates.push(state));
+    caller.on('dataChannel', channel => callerChannels.push(channel.label));
+
+    await callee.start();
+    await caller.start();
+    await flush();
+
+    const callerConnection = caller.getPeerConnection() as unknown as FakePeerConnection;
+    const calleeConnection = callee.getPeerConnection() as unknown as FakePeerConnection;
+
+    expect(calleeConnection.remoteDescription).toMatchObject({ type: 'offer', sdp: callerConnection.localDescription?.sdp });
+    expect(callerConnection.remoteDescription).toMatchObject({ type: 'answer', sdp: calleeConnection.localDescription?.sdp });
+    expect(calleeConnection.addedCandidates).toHaveLength(1);
+    expect(callerConnection.addedCandidates).toHaveLength(1);
+    expect(callerStates).toContain('connected');
+    expect(callerChannels).toEqual(['chat', 'files', 'media']);
+
+    caller.close();
+    callee.close();
+    expect(caller.getState()).toBe('closed');
+});
+
+test('resolves colliding offers with the polite peer yielding', async () => {
+    const callerTransport = new SlowSignalingTransport();
+    const calleeTransport = new SlowSignalingTransport();
+    callerTransport.connect(calleeTransport);
+    calleeTransport.connect(callerTransport);
+    // Both sides have something to negotiate as soon as they start, so both offer at once
+    const caller = new PeerSession({ transport: callerTransport, isInitiator: true, localStream });
+    const callee = new PeerSession({ transport: calleeTransport, isInitiator: false, localStream: streamWithTrack });
+
+    const errors: Error[] = [];
+    caller.on('error', error => errors.push(error));
+    callee.on('error', error => errors.push(error));
+
+    await Promise.all([caller.start(), callee.start()]);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const callerConnection = caller.getPeerConnection() as unknown as FakePeerConnection;
+    const calleeConnection = callee.getPeerConnection() as unknown as FakePeerConnection;
+
+    expect(errors).toEqual([]);
+    expect(callerConnection.rollbacks).toBe(0);
+    expect(calleeConnection.rollbacks).toBe(1);
+    // The callee's rolled-back changes are renegotiated afterwards instead of being lost
+    expect(calleeConnection.sentOffers).toBe(2);
+    expect(callerConnection.signalingState).toBe('stable');
+    expect(calleeConnection.signalingState).toBe('stable');
+    expect(caller.getState()).toBe('connected');
+    expect(callee.getState()).toBe('connected');
+
+    caller.close();
+    callee.close();
+});
+
+test('restarts ICE after the connection fails and recovers', async () => {
+    const [callerTransport, calleeTransport] = createInMemorySignalingPair();
+    const caller = new PeerSession({ transport: callerTransport, isInitiator: true, localStream, reconnectPolicy: fastReconnect });
+    const callee = new PeerSession({ transport: calleeTransport, isInitiator: false, localStream, reconnectPolicy: fastReconnect });
+
+    const callerStates: PeerSessionState[] = [];
+    caller.on('stateChange', state => callerStates.push(state));
+
+    await callee.start();
+    await caller.start();
+    await flush();
+
+    const callerConnection = caller.getPeerConnection() as unknown as FakePeerConnection;
+    callerConnection.drop();
+    await flush();
+
+    expect(callerConnection.iceRestarts).toBe(1);
+    expect(callerConnection.sentOffers).toBe(2);
+    expect(callerStates).toEqual(['connected', 'reconnecting', 'connected']);
+
+    caller.close();
+    callee.close();
+});
+
+test('reports failure once every reconnect attempt is used up', async () => {
+    const [callerTransport] = createInMemorySignalingPair();
+    const caller = new PeerSession({ transport: callerTransport, isInitiator: true, localStream, reconnectPolicy: fastReconnect });
+
+    const attempts: number[] = [];
+    caller.on('reconnectAttempt', ({ attempt }) => attempts.push(attempt));
+
+    await caller.start();
+    (caller.getPeerConnection() as unknown as FakePeerConnection).drop();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(attempts).toEqual([1, 2]);
+    expect(caller.getState()).toBe('failed');
+
+    caller.close();
+});
+
+test('replaces an outgoing track without renegotiating', async () => {
+    const camera = { kind: 'video' } as MediaStreamTrack;
+    const screen = { kind: 'video' } as MediaStreamTrack;
+    const [callerTransport, calleeTransport] = createInMemorySignalingPair();
+    const caller = new PeerSession({
+        transport: callerTransport,
+        isInitiator: true,
+        localStream: { getTracks: () => [camera] } as unknown as MediaStream
+    });
+    const callee = new PeerSession({ transport: calleeTransport, isInitiator: false, localStream });
+
+    await callee.start();
+    await caller.start();
+    await flush();
+
+    const callerConnection = caller.getPeerConnection() as unknown as FakePeerConnection;
+    const offersBefore = callerConnection.sentOffers;
+    await caller.replaceTrack(screen);
+    await flush();
+
+    expect(callerConnection.getSenders()[0].track).toBe(screen);
+    expect(callerConnection.sentOffers).toBe(offersBefore);
+    await expect(caller.replaceTrack({ kind: 'audio' } as MediaStreamTrack)).rejects.toThrow(/No audio track/);
+
+    caller.close();
+    callee.close();
+});
@@ -0,0 +1,386 @@
+import { SignalingTransport } from "./signaling";
+
+// 'reconnecting' covers a dropped connection while ICE restarts are still being attempted;
+// 'failed' is only reported once every retry has been used up.
+export type PeerSessionState = 'new' | 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'closed';
+
+export interface ReconnectPolicy {
+    // Wait this long for a 'disconnected' connection to recover on its own
+    disconnectGraceMs: number;
+    // How long each ICE restart attempt gets to reconnect before the next one;
+    // its length is the number of attempts
+    retryDelaysMs: number[];
+}
+
+export interface PeerSessionOptions {
+    transport: SignalingTransport;
+    // The initiator opens the data channel and is the impolite peer during
+    // negotiation; the other side is polite and yields when offers collide
+    isInitiator: boolean;
+    localStream: MediaStream;
+    // ICE servers and transport policy, see iceConfig.ts
+    configuration?: RTCConfiguration;
+    reconnectPolicy?: ReconnectPolicy;
+}
+
+// Payloads for each event a session can emit
+export interface PeerSessionEvents {
+    stateChange: PeerSessionState;
+    remoteTrack: { track: MediaStreamTrack; stream: MediaStream };
+    dataChannel: RTCDataChannel;
+    reconnectAttempt: { attempt: number; maxAttempts: number };
+    error: Error;
+}
+
+type PeerSessionListener<K extends keyof PeerSessionEvents> = (payload: PeerSessionEvents[K]) => void;
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+    disconnectGraceMs: 3000,
+    retryDelaysMs: [2000, 4000, 8000, 16000]
+};
+
+// Label of the data channel the initiator opens for in-call messaging
+export const DATA_CHANNEL_LABEL = "chat";
+// ...and of the one for file transfers, kept apart so large files never hold up chat
+export const FILE_CHANNEL_LABEL = "files";
+// ...and of the one telling the partner what our media is, see mediaStateChannel.ts
+export const MEDIA_CHANNEL_LABEL = "media";
+
+// One WebRTC connection to a partner, signaling over the given transport.
+// Framework-agnostic: consumers subscribe to events instead of reading React state.
+//
+// Negotiation follows the "perfect negotiation" pattern: either side renegotiates
+// whenever the browser asks (tracks added or replaced, ICE restarts), and when both
+// offer at once the polite peer rolls back and accepts the impolite peer's offer.
+export class PeerSession {
+    private readonly options: PeerSessionOptions;
+    private peerConnection: RTCPeerConnection | null = null;
+    private state: PeerSessionState = 'new';
+    private pendingCandidates: RTCIceCandidateInit[] = [];
+    private unsubscribes: (() => void)[] = [];
+    private makingOffer = false;
+    private ignoreOffer = false;
+    // Remote descriptions are applied one at a time, in the order they arrive
+    private descriptionQueue: Promise<void> = Promise.resolve();
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private listeners: { [K in keyof PeerSessionEvents]: Set<PeerSessionListener<K>> } = {
+        stateChange: new Set(),
+        remoteTrack: new Set(),
+        dataChannel: new Set(),
+        reconnectAttempt: new Set(),
+        error: new Set()
+    };
+
+    constructor(options: PeerSessionOptions) {
+        this.options = options;
+    }
+
+    // Register a listener; returns a function that removes it
+    on<K extends keyof PeerSessionEvents>(event: K, listener: PeerSessionListener<K>): () => void {
+        this.listeners[event].add(listener);
+
+        return () => {
+            this.listeners[event].delete(listener);
+        };
+    }
+
+    getState(): PeerSessionState {
+        return this.state;
+    }
+
+    getPeerConnection(): RTCPeerConnection | null {
+        return this.peerConnection;
+    }
+
+    // Create the connection, attach local media and start exchanging signaling
+    async start(): Promise<void> {
+        if (this.peerConnection) {
+            throw new Error("Peer session already started");
+        }
+
+        const { transport, isInitiator, localStream, configuration } = this.options;
+
+        console.log("Initializing new peer connection");
+        const peerConnection = new RTCPeerConnection(configuration);
+        this.peerConnection = peerConnection;
+
+        peerConnection.oniceconnectionstatechange = () => {
+            console.log("ICE Connection State:", peerConnection.iceConnectionState);
+        };
+
+        peerConnection.onicegatheringstatechange = () => {
+            console.log("ICE Gathering State:", peerConnection.iceGatheringState);
+        };
+
+        peerConnection.onsignalingstatechange = () => {
+            console.log("Signaling State:", peerConnection.signalingState);
+        };
+
+        peerConnection.onconnectionstatechange = () => {
+            console.log("Connection state changed:", peerConnection.connectionState);
+            this.handleConnectionStateChange(peerConnection.connectionState);
+        };
+
+        peerConnection.ontrack = (event) => {
+            const stream = event.streams[0] ?? new MediaStream([event.track]);
+            console.log("Received remote track", event.track.kind);
+            this.emit('remoteTrack', { track: event.track, stream });
+        };
+
+        peerConnection.onnegotiationneeded = () => {
+            this.negotiate();
+        };
+
+        peerConnection.onicecandidate = (event) => {
+            if (!event.candidate) return;
+
+            transport.sendCandidate(event.candidate.toJSON())
+                .catch(err => this.fail("Error sending local ICE candidate", err));
+        };
+
+        peerConnection.ondatachannel = (event) => {
+            console.log("Received data channel:", event.channel.label);
+            this.emit('dataChannel', event.channel);
+        };
+
+        localStream.getTracks().forEach(track => {
+            console.log("Adding track to peer connection:", track.kind);
+            peerConnection.addTrack(track, localStream);
+        });
+
+        this.unsubscribes.push(
+            transport.onDescription((description) => {
+                this.descriptionQueue = this.descriptionQueue.then(() => this.handleDescription(description));
+            }),
+            transport.onCandidate((candidate) => {
+                this.handleRemoteCandidate(candidate);
+            })
+        );
+
+        // Opening the channel (like adding tracks above) triggers negotiationneeded
+        if (isInitiator) {
+            this.emit('dataChannel', peerConnection.createDataChannel(DATA_CHANNEL_LABEL));
+            this.emit('dataChannel', peerConnection.createDataChannel(FILE_CHANNEL_LABEL));
+            this.emit('dataChannel', peerConnection.createDataChannel(MEDIA_CHANNEL_LABEL));
+        }
+    }
+
+    // Send a different track in place of the current one of the same kind, such as a
+    // shared screen instead of the camera. The sender is reused, so nothing is renegotiated.
+    async replaceTrack(track: MediaStreamTrack): Promise<void> {
+        const sender = this.getSender(track.kind as 'audio' | 'video');
+        if (!sender) {
+            throw new Error(`No ${track.kind} track is being sent`);
+        }
+
+        console.log("Replacing outgoing track:", track.kind);
+        await sender.replaceTrack(track);
+    }
+
+    // The sender for our audio or video, e.g. to tune its encoding; it outlives replaced tracks
+    getSender(kind: 'audio' | 'video'): RTCRtpSender | null {
+        return this.peerConnection?.getSenders().find(candidate => candidate.track?.kind === kind) ?? null;
+    }
+
+    // Tear down signaling subscriptions, the transport and the connection itself
+    close(): void {
+        this.unsubscribes.forEach(unsubscribe => unsubscribe());
+        this.unsubscribes = [];
+        this.pendingCandidates = [];
+        this.clearReconnectTimer();
+        this.options.transport.close();
+
+        if (this.peerConnection) {
+            console.log("Closing existing peer connection");
+            this.peerConnection.close();
+            this.peerConnection = null;
+        }
+
+        this.setState('closed');
+    }
+
+    private handleConnectionStateChange(connectionState: RTCPeerConnectionState): void {
+        switch (connectionState) {
+            case 'connected':
+                this.clearReconnectTimer();
+                this.reconnectAttempts = 0;
+                this.setState('connected');
+                break;
+            case 'disconnected':
+                // Often transient (e.g. switching networks); give it a moment before restarting ICE
+                if (this.state === 'reconnecting') break;
+                this.setState('reconnecting');
+                this.clearReconnectTimer();
+                this.reconnectTimer = setTimeout(() => {
+                    this.scheduleReconnect();
+                }, this.reconnectPolicy().disconnectGraceMs);
+                break;
+            case 'failed':
+                this.setState('reconnecting');
+                this.clearReconnectTimer();
+                this.scheduleReconnect();
+                break;
+            case 'new':
+            case 'connecting':
+                if (this.state !== 'reconnecting') {
+                    this.setState(connectionState);
+                }
+                break;
+        }
+    }
+
+    // Try the next ICE restart, or give up once the retry schedule is exhausted
+    private scheduleReconnect(): void {
+        const { retryDelaysMs } = this.reconnectPolicy();
+
+        if (this.reconnectAttempts >= retryDelaysMs.length) {
+            console.error("Reconnection attempts exhausted");
+            this.setState('failed');
+            return;
+        }
+
+        const attemptWindowMs = retryDelaysMs[this.reconnectAttempts];
+        this.reconnectAttempts += 1;
+        this.emit('reconnectAttempt', { attempt: this.reconnectAttempts, maxAttempts: retryDelaysMs.length });
+
+        this.restartIce().catch(err => this.fail("Error restarting ICE", err));
+
+        // If this attempt has not reconnected within its window, move on to the next one
+        this.reconnectTimer = setTimeout(() => {
+            if (this.state === 'reconnecting' && this.peerConnection) {
+                this.scheduleReconnect();
+            }
+        }, attemptWindowMs);
+    }
+
+    // Only the initiator restarts so both sides do not race to renegotiate; the restart
+    // offer goes out through negotiationneeded and the partner answers it as usual.
+    private async restartIce(): Promise<void> {
+        const peerConnection = this.peerConnection;
+        if (!peerConnection) return;
+
+        if (!this.options.isInitiator) {
+            console.log("Waiting for partner to restart ICE");
+            return;
+        }
+
+        console.log(`Restarting ICE (attempt ${this.reconnectAttempts})`);
+
+        // Drop a previous offer that never got an answer so negotiation can run again
+        if (peerConnection.signalingState === 'have-local-offer') {
+            await peerConnection.setLocalDescription({ type: 'rollback' });
+        }
+
+        peerConnection.restartIce();
+    }
+
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private reconnectPolicy(): ReconnectPolicy {
+        return this.options.reconnectPolicy ?? DEFAULT_RECONNECT_POLICY;
+    }
+
+    // Create and send an offer for whatever changed on the connection
+    private async negotiate(): Promise<void> {
+        const peerConnection = this.peerConnection;
+        if (!peerConnection) return;
+
+        try {
+            this.makingOffer = true;
+            console.log("Negotiation needed, creating offer");
+            await peerConnection.setLocalDescription();
+            await this.sendLocalDescription(peerConnection);
+        } catch (error) {
+            this.fail("Error creating offer", error);
+        } finally {
+            this.makingOffer = false;
+        }
+    }
+
+    private async handleDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        const peerConnection = this.peerConnection;
+        if (!peerConnection) return;
+
+        const polite = !this.options.isInitiator;
+        const offerCollision = description.type === 'offer' &&
+            (this.makingOffer || peerConnection.signalingState !== 'stable');
+
+        // The impolite peer keeps its own offer and waits for the answer to it
+        this.ignoreOffer = !polite && offerCollision;
+        if (this.ignoreOffer) {
+            console.log("Ignoring colliding offer from partner");
+            return;
+        }
+
+        try {
+            // A polite peer with a pending offer rolls it back implicitly here
+            console.log(`Setting remote description from ${description.type}`);
+            await peerConnection.setRemoteDescription(description);
+            await this.flushPendingCandidates();
+
+            if (description.type === 'offer') {
+                await peerConnection.setLocalDescription();
+                await this.sendLocalDescription(peerConnection);
+            }
+        } catch (error) {
+            this.fail(`Error handling ${description.type}`, error);
+        }
+    }
+
+    private async sendLocalDescription(peerConnection: RTCPeerConnection): Promise<void> {
+        const description = peerConnection.localDescription;
+        if (!description) return;
+
+        await this.options.transport.sendDescription({ type: description.type, sdp: description.sdp });
+    }
+
+    private async handleRemoteCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+        const peerConnection = this.peerConnection;
+        if (!peerConnection) return;
+
+        // Candidates can arrive before the remote description; queue them until it is set
+        if (!peerConnection.remoteDescription) {
+            this.pendingCandidates.push(candidate);
+            return;
+        }
+
+        try {
+            await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
+        } catch (error) {
+            // Candidates for an offer we ignored are expected to fail
+            if (!this.ignoreOffer) {
+                console.error("Error adding remote ICE candidate:", error);
+            }
+        }
+    }
+
+    private async flushPendingCandidates(): Promise<void> {
+        const candidates = this.pendingCandidates;
+        this.pendingCandidates = [];
+
+        for (const candidate of candidates) {
+            await this.handleRemoteCandidate(candidate);
+        }
+    }
+
+    private setState(state: PeerSessionState): void {
+        if (this.state === state) return;
+        this.state = state;
+        this.emit('stateChange', state);
+    }
+
+    private fail(message: string, error: unknown): void {
+        console.error(`${message}:`, error);
+        this.emit('error', error instanceof Error ? error : new Error(message));
+    }
+
+    private emit<K extends keyof PeerSessionEvents>(event: K, payload: PeerSessionEvents[K]): void {
+        this.listeners[event].forEach(listener => listener(payload));
+    }
+}
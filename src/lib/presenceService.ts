@@ -0,0 +1,69 @@
+import { updateUserOnlineStatus } from "./userService";
+
+export interface PresenceHandle {
+    // Stop heartbeating and mark the user offline; call before signing out
+    stop: () => Promise<void>;
+}
+
+// How often a visible tab refreshes the user's lastActive timestamp.
+// Must stay well below PRESENCE_TIMEOUT_MS in userService.ts.
+export const PRESENCE_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Keep the signed-in user marked online while the app is open. Hidden tabs stop
+// heartbeating, so a tab left in the background goes offline once the sweeper runs.
+export const startPresence = (uid: string): PresenceHandle => {
+    let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    let stopped = false;
+
+    const heartbeat = () => {
+        updateUserOnlineStatus(uid, true);
+    };
+
+    const startHeartbeat = () => {
+        if (heartbeatTimer) return;
+        heartbeat();
+        heartbeatTimer = setInterval(heartbeat, PRESENCE_HEARTBEAT_INTERVAL_MS);
+    };
+
+    const stopHeartbeat = () => {
+        if (heartbeatTimer) {
+            clearInterval(heartbeatTimer);
+            heartbeatTimer = null;
+        }
+    };
+
+    const handleVisibilityChange = () => {
+        if (document.visibilityState === 'visible') {
+            startHeartbeat();
+        } else {
+            stopHeartbeat();
+        }
+    };
+
+    // Best effort: the write may not finish before the page is gone, in which case
+    // the sweeper catches it
+    const handleBeforeUnload = () => {
+        stopHeartbeat();
+        updateUserOnlineStatus(uid, false);
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+
+    if (document.visibilityState === 'visible') {
+        startHeartbeat();
+    }
+
+    return {
+        stop: async () => {
+            if (stopped) return;
+            stopped = true;
+
+            stopHeartbeat();
+            document.removeEventListener('visibilitychange', handleVisibilityChange);
+            window.removeEventListener('beforeunload', handleBeforeUnload);
+
+            await updateUserOnlineStatus(uid, false);
+        }
+    };
+};
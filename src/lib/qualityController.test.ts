@@ -0,0 +1,184 @@
+import {
+    DEFAULT_QUALITY_POLICY,
+    loadQualityPreset,
+    NetworkSample,
+    nextQualityState,
+    QUALITY_LEVELS,
+    QualityController,
+    QualitySender,
+    readNetworkSample,
+    saveQualityPreset
+} from './qualityController';
+
+const report = (entries: object[]) =>
+    new Map(entries.map((entry, index) => [`stat-${index}`, entry])) as unknown as RTCStatsReport;
+
+const sample = (readings: Partial<NetworkSample>): NetworkSample => ({
+    lossRate: 0,
+    rttMs: 50,
+    availableBitrate: null,
+    packetsSent: 0,
+    packetsLost: 0,
+    ...readings
+});
+
+// A sender recording the encodings it was given, with the stats report its call would show
+class FakeSender {
+    stats: object[] = [];
+    encodings: RTCRtpEncodingParameters[] = [{ active: true }];
+
+    report(): RTCStatsReport {
+        return report(this.stats);
+    }
+
+    getParameters(): RTCRtpSendParameters {
+        return { encodings: this.encodings } as RTCRtpSendParameters;
+    }
+
+    async setParameters(parameters: RTCRtpSendParameters): Promise<void> {
+        this.encodings = parameters.encodings;
+    }
+
+    // What the stats look like after sending and losing this many packets in total
+    send(packetsSent: number, packetsLost: number, rttSeconds = 0.05, availableOutgoingBitrate = 5000000): void {
+        this.stats = [
+            { type: 'outbound-rtp', kind: 'video', packetsSent },
+            { type: 'remote-inbound-rtp', kind: 'video', packetsLost, roundTripTime: rttSeconds },
+            { type: 'candidate-pair', nominated: true, state: 'succeeded', availableOutgoingBitrate }
+        ];
+    }
+}
+
+test('reads loss, round-trip time and the bandwidth estimate from sender stats', () => {
+    const first = readNetworkSample(report([
+        { type: 'outbound-rtp', kind: 'video', packetsSent: 1000 },
+        { type: 'remote-inbound-rtp', kind: 'video', packetsLost: 10, roundTripTime: 0.12, fractionLost: 0.01 },
+        { type: 'candidate-pair', nominated: false, state: 'waiting', availableOutgoingBitrate: 1 },
+        { type: 'candidate-pair', nominated: true, state: 'succeeded', availableOutgoingBitrate: 800000 }
+    ]));
+    expect(first).toEqual({ lossRate: 0.01, rttMs: 120, availableBitrate: 800000, packetsSent: 1000, packetsLost: 10 });
+
+    // Loss over the interval since the previous sample: 50 of 500 packets
+    const second = readNetworkSample(report([
+        { type: 'outbound-rtp', kind: 'video', packetsSent: 1500 },
+        { type: 'remote-inbound-rtp', kind: 'video', packetsLost: 60, roundTripTime: 0.12 }
+    ]), first);
+    expect(second.lossRate).toBeCloseTo(0.1);
+    expect(second.availableBitrate).toBeNull();
+});
+
+test('steps down only after repeated congestion', () => {
+    const congested = sample({ lossRate: 0.1 });
+    let state = { level: 3, badSamples: 0, goodSamples: 0 };
+
+    state = nextQualityState(state, congested, 4);
+    expect(state).toEqual({ level: 3, badSamples: 1, goodSamples: 0 });
+    state = nextQualityState(state, congested, 4);
+    expect(state).toEqual({ level: 2, badSamples: 0, goodSamples: 0 });
+
+    // A high round-trip time or a bandwidth estimate below the current level counts too
+    expect(nextQualityState({ level: 2, badSamples: 1, goodSamples: 0 }, sample({ rttMs: 600 }), 4).level).toBe(1);
+    expect(nextQualityState({ level: 2, badSamples: 1, goodSamples: 0 }, sample({ availableBitrate: 400000 }), 4).level).toBe(1);
+    expect(nextQualityState({ level: 0, badSamples: 5, goodSamples: 0 }, congested, 4).level).toBe(0);
+});
+
+test('steps up after a stable stretch, up to the preset ceiling', () => {
+    let state = { level: 2, badSamples: 0, goodSamples: 0 };
+    for (let i = 0; i < DEFAULT_QUALITY_POLICY.samplesToStepUp; i++) {
+        state = nextQualityState(state, sample({}), 3);
+    }
+    expect(state.level).toBe(3);
+
+    for (let i = 0; i < DEFAULT_QUALITY_POLICY.samplesToStepUp * 2; i++) {
+        state = nextQualityState(state, sample({}), 3);
+    }
+    expect(state.level).toBe(3);
+
+    // Not enough room in the bandwidth estimate for the next level
+    const cramped = sample({ availableBitrate: QUALITY_LEVELS[3].maxBitrate });
+    expect(nextQualityState({ level: 2, badSamples: 0, goodSamples: 4 }, cramped, 4))
+        .toEqual({ level: 2, badSamples: 0, goodSamples: 0 });
+});
+
+test('the controller lowers and restores the sender encodings', async () => {
+    const sender = new FakeSender();
+    const controller = new QualityController({ sender: sender as unknown as QualitySender, preset: 'balanced' });
+    const levels: number[] = [];
+    controller.on('levelChange', ({ level }) => levels.push(level));
+
+    controller.start();
+    await controller.handleReport(sender.report());
+    expect(sender.encodings[0]).toMatchObject({ active: true, ...QUALITY_LEVELS[2] });
+
+    // 20% loss for two samples in a row
+    sender.send(1000, 200);
+    await controller.handleReport(sender.report());
+    sender.send(2000, 400);
+    await controller.handleReport(sender.report());
+    expect(controller.getLevel()).toBe(1);
+    expect(sender.encodings[0]).toMatchObject(QUALITY_LEVELS[1]);
+
+    let sent = 2000;
+    for (let i = 0; i < DEFAULT_QUALITY_POLICY.samplesToStepUp; i++) {
+        sent += 1000;
+        sender.send(sent, 400);
+        await controller.handleReport(sender.report());
+    }
+    expect(controller.getLevel()).toBe(2);
+    expect(levels).toEqual([1, 2]);
+});
+
+test('presets cap the level and are remembered', async () => {
+    const sender = new FakeSender();
+    const controller = new QualityController({ sender: sender as unknown as QualitySender, preset: 'hd' });
+
+    await controller.setPreset('data-saver');
+    expect(controller.getLevel()).toBe(1);
+    expect(sender.encodings[0]).toMatchObject(QUALITY_LEVELS[1]);
+
+    const items = new Map<string, string>();
+    const storage = {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, value);
+        }
+    };
+    expect(loadQualityPreset(storage)).toBe('balanced');
+    saveQualityPreset('hd', storage);
+    expect(loadQualityPreset(storage)).toBe('hd');
+});
+
+test('the starting level is applied once the sender has encodings', async () => {
+    const sender = new FakeSender();
+    sender.encodings = [];
+    const controller = new QualityController({ sender: sender as unknown as QualitySender, preset: 'balanced' });
+
+    controller.start();
+    await controller.handleReport(sender.report());
+    expect(sender.encodings).toEqual([]);
+
+    // Negotiation fills in the encodings; the next report applies the level
+    sender.encodings = [{ active: true }];
+    sender.send(1000, 0);
+    await controller.handleReport(sender.report());
+    expect(sender.encodings[0]).toMatchObject({ active: true, ...QUALITY_LEVELS[2] });
+});
+
+test('a shared screen keeps its resolution and reports stop with the controller', async () => {
+    const sender = new FakeSender();
+    const controller = new QualityController({ sender: sender as unknown as QualitySender, preset: 'data-saver' });
+
+    controller.start();
+    await controller.setScreenSharing(true);
+    expect(sender.encodings[0]).toMatchObject({ ...QUALITY_LEVELS[1], scaleResolutionDownBy: 1 });
+
+    await controller.setScreenSharing(false);
+    expect(sender.encodings[0]).toMatchObject(QUALITY_LEVELS[1]);
+
+    controller.stop();
+    sender.send(1000, 200);
+    await controller.handleReport(sender.report());
+    sender.send(2000, 400);
+    await controller.handleReport(sender.report());
+    expect(controller.getLevel()).toBe(1);
+});
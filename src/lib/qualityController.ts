@@ -0,0 +1,354 @@
+// Adapts the video we send to the connection. The controller reads the call's stats
+// reports (polled once for the whole call by CallStatsMonitor in callStats.ts) for packet
+// loss, round-trip time and the browser's estimate of the available outgoing bitrate,
+// steps down a ladder of quality levels (bitrate, resolution and framerate, applied with
+// RTCRtpSender.setParameters) under congestion, and steps back up once the connection
+// has been stable for a while.
+//
+// The user's preset caps how high the ladder goes: a data saver never sends more than
+// a small stream, while HD also asks the camera for 720p. A shared screen is never
+// scaled down, since small text becomes unreadable; it only loses bitrate and framerate.
+
+export type QualityPreset = 'data-saver' | 'balanced' | 'hd';
+
+export interface QualityLevel {
+    // Bits per second
+    maxBitrate: number;
+    scaleResolutionDownBy: number;
+    maxFramerate: number;
+}
+
+export interface QualityPresetConfig {
+    label: string;
+    // Highest index into QUALITY_LEVELS the preset allows
+    maxLevel: number;
+    // What to ask of the camera
+    capture: MediaTrackConstraints;
+}
+
+export interface QualityPolicy {
+    // A sample is congested above any of these
+    congestedLossRate: number;
+    congestedRttMs: number;
+    // ...and stable below all of these
+    stableLossRate: number;
+    stableRttMs: number;
+    // Consecutive samples needed before stepping down or up
+    samplesToStepDown: number;
+    samplesToStepUp: number;
+    // Step up only when the estimated bitrate leaves this much room over the next level
+    headroom: number;
+}
+
+// One reading of the connection, from the sender's stats
+export interface NetworkSample {
+    // Share of our video packets the partner reported lost since the previous sample, 0 to 1
+    lossRate: number | null;
+    rttMs: number | null;
+    // The browser's bandwidth estimate, in bits per second
+    availableBitrate: number | null;
+    // Running totals, kept to work out the next sample's loss
+    packetsSent: number;
+    packetsLost: number;
+}
+
+// Where the controller is on the ladder and how long the connection has been bad or good
+export interface QualityState {
+    level: number;
+    badSamples: number;
+    goodSamples: number;
+}
+
+export interface QualityControllerEvents {
+    levelChange: { level: number; reason: 'congestion' | 'recovered' | 'preset' };
+    sample: NetworkSample;
+    error: Error;
+}
+
+// The parts of RTCRtpSender the controller uses
+export type QualitySender = Pick<RTCRtpSender, 'getParameters' | 'setParameters'>;
+
+export interface QualityControllerOptions {
+    sender: QualitySender;
+    preset?: QualityPreset;
+    policy?: QualityPolicy;
+}
+
+// Lowest first
+export const QUALITY_LEVELS: QualityLevel[] = [
+    { maxBitrate: 150000, scaleResolutionDownBy: 4, maxFramerate: 15 },
+    { maxBitrate: 350000, scaleResolutionDownBy: 2, maxFramerate: 20 },
+    { maxBitrate: 700000, scaleResolutionDownBy: 1.5, maxFramerate: 30 },
+    { maxBitrate: 1200000, scaleResolutionDownBy: 1, maxFramerate: 30 },
+    { maxBitrate: 2500000, scaleResolutionDownBy: 1, maxFramerate: 30 }
+];
+
+export const QUALITY_PRESETS: Record<QualityPreset, QualityPresetConfig> = {
+    'data-saver': { label: 'Data saver', maxLevel: 1, capture: { width: { ideal: 640 }, height: { ideal: 480 } } },
+    balanced: { label: 'Balanced', maxLevel: 3, capture: { width: { ideal: 640 }, height: { ideal: 480 } } },
+    hd: { label: 'HD', maxLevel: 4, capture: { width: { ideal: 1280 }, height: { ideal: 720 } } }
+};
+
+export const DEFAULT_QUALITY_PRESET: QualityPreset = 'balanced';
+
+export const DEFAULT_QUALITY_POLICY: QualityPolicy = {
+    congestedLossRate: 0.05,
+    congestedRttMs: 400,
+    stableLossRate: 0.02,
+    stableRttMs: 250,
+    samplesToStepDown: 2,
+    samplesToStepUp: 5,
+    headroom: 1.2
+};
+
+// Calls start in the middle of the ladder and climb once the connection proves itself
+const START_LEVEL = 2;
+
+export const QUALITY_PRESET_KEY = "worldConnect.qualityPreset";
+
+type QualityControllerListener<K extends keyof QualityControllerEvents> = (payload: QualityControllerEvents[K]) => void;
+
+// The subset of the stats entries read here
+interface StatsEntry {
+    type: string;
+    kind?: string;
+    packetsSent?: number;
+    packetsLost?: number;
+    roundTripTime?: number;
+    fractionLost?: number;
+    nominated?: boolean;
+    state?: string;
+    availableOutgoingBitrate?: number;
+    currentRoundTripTime?: number;
+}
+
+export const loadQualityPreset = (storage: Pick<Storage, "getItem"> = window.localStorage): QualityPreset => {
+    try {
+        const stored = storage.getItem(QUALITY_PRESET_KEY);
+        return stored && Object.prototype.hasOwnProperty.call(QUALITY_PRESETS, stored)
+            ? stored as QualityPreset
+            : DEFAULT_QUALITY_PRESET;
+    } catch (error) {
+        console.error("Error loading quality preset:", error);
+        return DEFAULT_QUALITY_PRESET;
+    }
+};
+
+export const saveQualityPreset = (preset: QualityPreset, storage: Pick<Storage, "setItem"> = window.localStorage): void => {
+    try {
+        storage.setItem(QUALITY_PRESET_KEY, preset);
+    } catch (error) {
+        console.error("Error saving quality preset:", error);
+    }
+};
+
+export const startLevelFor = (preset: QualityPreset): number =>
+    Math.min(START_LEVEL, QUALITY_PRESETS[preset].maxLevel);
+
+// Read loss, round-trip time and the bandwidth estimate for our outgoing video out of a
+// stats report, from the peer connection or the video sender
+export const readNetworkSample = (report: RTCStatsReport, previous?: NetworkSample): NetworkSample => {
+    let packetsSent = 0;
+    let packetsLost = 0;
+    let fractionLost: number | null = null;
+    let rttMs: number | null = null;
+    let availableBitrate: number | null = null;
+
+    report.forEach((stat: StatsEntry) => {
+        if (stat.type === 'outbound-rtp' && stat.kind === 'video') {
+            packetsSent += stat.packetsSent ?? 0;
+        } else if (stat.type === 'remote-inbound-rtp' && stat.kind === 'video') {
+            packetsLost += stat.packetsLost ?? 0;
+            if (stat.fractionLost !== undefined) fractionLost = stat.fractionLost;
+            if (stat.roundTripTime !== undefined) rttMs = stat.roundTripTime * 1000;
+        } else if (stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') {
+            if (stat.availableOutgoingBitrate !== undefined) availableBitrate = stat.availableOutgoingBitrate;
+            if (rttMs === null && stat.currentRoundTripTime !== undefined) rttMs = stat.currentRoundTripTime * 1000;
+        }
+    });
+
+    // Prefer our own count over the interval; the partner's fraction covers only its last report
+    let lossRate: number | null = fractionLost;
+    if (previous && packetsSent > previous.packetsSent) {
+        const lost = Math.max(0, packetsLost - previous.packetsLost);
+        lossRate = Math.min(1, lost / (packetsSent - previous.packetsSent));
+    }
+
+    return { lossRate, rttMs, availableBitrate, packetsSent, packetsLost };
+};
+
+// Decide the next level from one sample. Missing readings count neither way, so a
+// sample without any (e.g. before the partner's first report) changes nothing.
+export const nextQualityState = (
+    state: QualityState,
+    sample: NetworkSample,
+    maxLevel: number,
+    policy: QualityPolicy = DEFAULT_QUALITY_POLICY
+): QualityState => {
+    const { lossRate, rttMs, availableBitrate } = sample;
+    if (lossRate === null && rttMs === null && availableBitrate === null) return state;
+
+    const current = QUALITY_LEVELS[state.level];
+    const next = QUALITY_LEVELS[state.level + 1];
+
+    const congested = (lossRate !== null && lossRate > policy.congestedLossRate)
+        || (rttMs !== null && rttMs > policy.congestedRttMs)
+        || (availableBitrate !== null && availableBitrate < current.maxBitrate);
+    const stable = !congested
+        && (lossRate === null || lossRate < policy.stableLossRate)
+        && (rttMs === null || rttMs < policy.stableRttMs)
+        && (availableBitrate === null || !next || availableBitrate >= next.maxBitrate * policy.headroom);
+
+    if (congested) {
+        const badSamples = state.badSamples + 1;
+        if (badSamples >= policy.samplesToStepDown && state.level > 0) {
+            return { level: state.level - 1, badSamples: 0, goodSamples: 0 };
+        }
+        return { ...state, badSamples, goodSamples: 0 };
+    }
+
+    if (stable) {
+        const goodSamples = state.goodSamples + 1;
+        if (goodSamples >= policy.samplesToStepUp && state.level < maxLevel) {
+            return { level: state.level + 1, badSamples: 0, goodSamples: 0 };
+        }
+        return { ...state, badSamples: 0, goodSamples };
+    }
+
+    // Neither bad enough to drop nor good enough to climb
+    return { ...state, badSamples: 0, goodSamples: 0 };
+};
+
+export class QualityController {
+    private readonly options: QualityControllerOptions;
+    private preset: QualityPreset;
+    private state: QualityState;
+    private lastSample: NetworkSample | undefined;
+    private running = false;
+    private screenSharing = false;
+    // The level the sender's encodings were last set to; null until the sender has
+    // encodings, which some browsers only fill in once the call is negotiated
+    private appliedLevel: number | null = null;
+    // Reports and parameter changes are handled one at a time
+    private queue: Promise<void> = Promise.resolve();
+    private listeners: { [K in keyof QualityControllerEvents]: Set<QualityControllerListener<K>> } = {
+        levelChange: new Set(),
+        sample: new Set(),
+        error: new Set()
+    };
+
+    constructor(options: QualityControllerOptions) {
+        this.options = options;
+        this.preset = options.preset ?? DEFAULT_QUALITY_PRESET;
+        this.state = { level: startLevelFor(this.preset), badSamples: 0, goodSamples: 0 };
+    }
+
+    // Register a listener; returns a function that removes it
+    on<K extends keyof QualityControllerEvents>(event: K, listener: QualityControllerListener<K>): () => void {
+        this.listeners[event].add(listener);
+
+        return () => {
+            this.listeners[event].delete(listener);
+        };
+    }
+
+    getLevel(): number {
+        return this.state.level;
+    }
+
+    getPreset(): QualityPreset {
+        return this.preset;
+    }
+
+    // Apply the starting level and begin adjusting to stats reports
+    start(): void {
+        if (this.running) return;
+
+        this.running = true;
+        this.enqueue(() => this.applyLevel(this.state.level));
+    }
+
+    stop(): void {
+        this.running = false;
+    }
+
+    // A shared screen keeps its full resolution at every level
+    setScreenSharing(screenSharing: boolean): Promise<void> {
+        this.screenSharing = screenSharing;
+        return this.enqueue(() => this.applyLevel(this.state.level));
+    }
+
+    // Switch presets; the level starts over from the new preset's starting point
+    setPreset(preset: QualityPreset): Promise<void> {
+        this.preset = preset;
+        this.state = { level: startLevelFor(preset), badSamples: 0, goodSamples: 0 };
+
+        return this.enqueue(async () => {
+            await this.applyLevel(this.state.level);
+            this.emit('levelChange', { level: this.state.level, reason: 'preset' });
+        });
+    }
+
+    // Adjust to one stats report
+    handleReport(report: RTCStatsReport): Promise<void> {
+        if (!this.running) return this.queue;
+        return this.enqueue(() => this.sampleAndAdjust(report));
+    }
+
+    private async sampleAndAdjust(report: RTCStatsReport): Promise<void> {
+        const sample = readNetworkSample(report, this.lastSample);
+        this.lastSample = sample;
+        this.emit('sample', sample);
+
+        const previousLevel = this.state.level;
+        this.state = nextQualityState(
+            this.state,
+            sample,
+            QUALITY_PRESETS[this.preset].maxLevel,
+            this.options.policy ?? DEFAULT_QUALITY_POLICY
+        );
+
+        if (this.state.level !== previousLevel) {
+            console.log(`Video quality level ${previousLevel} -> ${this.state.level}`);
+            await this.applyLevel(this.state.level);
+            this.emit('levelChange', {
+                level: this.state.level,
+                reason: this.state.level < previousLevel ? 'congestion' : 'recovered'
+            });
+        } else if (this.appliedLevel !== this.state.level) {
+            // The sender had no encodings when the level was set; try again now
+            await this.applyLevel(this.state.level);
+        }
+    }
+
+    private async applyLevel(level: number): Promise<void> {
+        const { sender } = this.options;
+        const parameters = sender.getParameters();
+        if (!parameters.encodings || parameters.encodings.length === 0) {
+            this.appliedLevel = null;
+            return;
+        }
+
+        const { maxBitrate, scaleResolutionDownBy, maxFramerate } = QUALITY_LEVELS[level];
+        parameters.encodings = parameters.encodings.map(encoding => ({
+            ...encoding,
+            maxBitrate,
+            scaleResolutionDownBy: this.screenSharing ? 1 : scaleResolutionDownBy,
+            maxFramerate
+        }));
+        await sender.setParameters(parameters);
+        this.appliedLevel = level;
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        this.queue = this.queue.then(task).catch(error => {
+            console.error("Error adjusting video quality:", error);
+            this.emit('error', error instanceof Error ? error : new Error("Error adjusting video quality"));
+        });
+        return this.queue;
+    }
+
+    private emit<K extends keyof QualityControllerEvents>(event: K, payload: QualityControllerEvents[K]): void {
+        this.listeners[event].forEach(listener => listener(payload));
+    }
+}
@@ -0,0 +1,94 @@
+import { addDoc, updateDoc } from 'firebase/firestore';
+import { addReportNote, buildChatExcerpt, reportUser, updateReportStatus } from './reportService';
+
+jest.mock('./firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({
+    collection: (_db: unknown, path: string) => ({ path }),
+    doc: (collection: { path: string }, id: string) => ({ path: `${collection.path}/${id}` }),
+    addDoc: jest.fn(),
+    updateDoc: jest.fn(),
+    arrayUnion: (...elements: unknown[]) => ({ arrayUnion: elements }),
+    Timestamp: { now: () => 'now' }
+}));
+
+const mockAddDoc = addDoc as jest.Mock;
+const mockUpdateDoc = updateDoc as jest.Mock;
+
+beforeEach(() => {
+    mockAddDoc.mockReset();
+    mockUpdateDoc.mockReset();
+});
+
+test('chat excerpts keep the latest messages in order and skip deleted ones', () => {
+    const messages = [
+        { senderId: 'bob', content: 'third', sentAt: 3 },
+        { senderId: 'alice', content: 'first', sentAt: 1 },
+        { senderId: 'bob', content: '', sentAt: 2, deletedAt: 5 },
+        { senderId: 'alice', content: 'fourth', sentAt: 4 }
+    ];
+
+    expect(buildChatExcerpt(messages, 2)).toEqual([
+        { senderId: 'bob', content: 'third', sentAt: 3 },
+        { senderId: 'alice', content: 'fourth', sentAt: 4 }
+    ]);
+    expect(buildChatExcerpt(messages).map(line => line.content)).toEqual(['first', 'third', 'fourth']);
+});
+
+test('chat excerpts never include off-the-record messages', () => {
+    const messages = [
+        { senderId: 'alice', content: 'on the record', sentAt: 1 },
+        { senderId: 'bob', content: 'just between us', sentAt: 2, ephemeral: true },
+        { senderId: 'alice', content: 'also kept', sentAt: 3, ephemeral: false }
+    ];
+
+    expect(buildChatExcerpt(messages).map(line => line.content)).toEqual(['on the record', 'also kept']);
+});
+
+test('reports are filed as pending with their evidence', async () => {
+    mockAddDoc.mockResolvedValue({ id: 'report-1' });
+    const evidence = { roomId: 'room-1', chatExcerpt: [{ senderId: 'bob', content: 'hi', sentAt: 1 }] };
+
+    expect(await reportUser('alice', 'bob', 'spam', 'Kept posting links', evidence)).toBe('report-1');
+    expect(mockAddDoc).toHaveBeenCalledWith({ path: 'reports' }, {
+        reporterId: 'alice',
+        reportedUserId: 'bob',
+        category: 'spam',
+        reason: 'Kept posting links',
+        evidence,
+        timestamp: 'now',
+        status: 'pending'
+    });
+});
+
+test('a failed report resolves to null', async () => {
+    mockAddDoc.mockRejectedValue(new Error('permission-denied'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await reportUser('alice', 'bob', 'other', '')).toBeNull();
+    consoleError.mockRestore();
+});
+
+test('triage records the status and the reviewing admin', async () => {
+    mockUpdateDoc.mockResolvedValue(undefined);
+
+    expect(await updateReportStatus('report-1', 'actioned', 'admin')).toBe(true);
+    expect(mockUpdateDoc).toHaveBeenCalledWith({ path: 'reports/report-1' }, {
+        status: 'actioned',
+        reviewedBy: 'admin',
+        reviewedAt: 'now'
+    });
+
+    mockUpdateDoc.mockRejectedValue(new Error('permission-denied'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await updateReportStatus('report-1', 'rejected', 'someone')).toBe(false);
+    consoleError.mockRestore();
+});
+
+test('notes are appended to the report', async () => {
+    mockUpdateDoc.mockResolvedValue(undefined);
+
+    expect(await addReportNote('report-1', 'admin', 'Second report this week')).toBe(true);
+    expect(mockUpdateDoc).toHaveBeenCalledWith({ path: 'reports/report-1' }, {
+        notes: { arrayUnion: [{ adminId: 'admin', text: 'Second report this week', createdAt: 'now' }] }
+    });
+});
@@ -1,17 +1,75 @@
 import {
     collection,
+    doc,
     addDoc,
+    updateDoc,
+    query,
+    where,
+    orderBy,
+    onSnapshot,
+    arrayUnion,
     Timestamp
 } from "firebase/firestore";
 import { db } from "./firebase";
+import { ChatEnvelope } from "./chatChannel";
+
+export type ReportCategory = 'harassment' | 'sexual-content' | 'hate-speech' | 'spam' | 'underage' | 'other';
+
+export type ReportStatus = 'pending' | 'reviewed' | 'rejected' | 'actioned';
+
+export const REPORT_CATEGORIES: { value: ReportCategory; label: string }[] = [
+    { value: 'harassment', label: 'Harassment or bullying' },
+    { value: 'sexual-content', label: 'Nudity or sexual content' },
+    { value: 'hate-speech', label: 'Hate speech' },
+    { value: 'spam', label: 'Spam or scams' },
+    { value: 'underage', label: 'Appears to be under age' },
+    { value: 'other', label: 'Something else' }
+];
+
+// How many of the latest chat messages a report can carry.
+// Keep in sync with the reports rules in firestore.rules.
+export const REPORT_CHAT_EXCERPT_LIMIT = 20;
+
+// Width the video snapshot is scaled down to, keeping the report document small
+export const REPORT_SNAPSHOT_MAX_WIDTH = 320;
+
+// Longest snapshot data URL a report can carry; firestore.rules refuses longer ones
+export const REPORT_SNAPSHOT_MAX_LENGTH = 100000;
+
+export interface ReportChatLine {
+    senderId: string;
+    content: string;
+    sentAt: number;
+}
+
+// What the reporter saw, captured on their device when the report was made. Nothing
+// checks it against the call, so moderators treat it as the reporter's word.
+export interface ReportEvidence {
+    roomId?: string;
+    chatExcerpt?: ReportChatLine[];
+    // JPEG data URL of the partner's video frame
+    snapshot?: string;
+}
+
+export interface ReportNote {
+    adminId: string;
+    text: string;
+    createdAt: Timestamp;
+}
 
 export interface Report {
     id: string;
     reporterId: string;
     reportedUserId: string;
+    // Reports made before categories existed have none
+    category?: ReportCategory;
     reason: string;
+    evidence?: ReportEvidence;
     timestamp: Timestamp;
-    status: 'pending' | 'reviewed' | 'rejected' | 'actioned';
+    status: ReportStatus;
+    notes?: ReportNote[];
+    reviewedBy?: string;
+    reviewedAt?: Timestamp;
 }
 
 export const reportCollection = collection(db, "reports");
@@ -20,13 +78,17 @@ export const reportCollection = collection(db, "reports");
 export const reportUser = async (
     reporterId: string,
     reportedUserId: string,
-    reason: string
+    category: ReportCategory,
+    reason: string,
+    evidence: ReportEvidence = {}
 ): Promise<string | null> => {
     try {
         const reportData = {
             reporterId,
             reportedUserId,
+            category,
             reason,
+            evidence,
             timestamp: Timestamp.now(),
             status: 'pending'
         };
@@ -37,4 +99,93 @@ export const reportUser = async (
         console.error("Error reporting user:", error);
         return null;
     }
-}; 
\ No newline at end of file
+};
+
+// The latest messages of a chat, oldest first, leaving out deleted ones. Off-the-record
+// messages were promised never to be stored, so they are never attached to a report.
+export const buildChatExcerpt = (
+    messages: (Pick<ChatEnvelope, 'senderId' | 'content' | 'sentAt' | 'deletedAt'> & { ephemeral?: boolean })[],
+    limit: number = REPORT_CHAT_EXCERPT_LIMIT
+): ReportChatLine[] => {
+    return messages
+        .filter(message => !message.deletedAt && !message.ephemeral && message.content)
+        .sort((a, b) => a.sentAt - b.sentAt)
+        .slice(-limit)
+        .map(({ senderId, content, sentAt }) => ({ senderId, content, sentAt }));
+};
+
+// Grab the current frame of a video as a small JPEG; null while nothing is playing
+export const captureVideoSnapshot = (
+    video: HTMLVideoElement,
+    maxWidth: number = REPORT_SNAPSHOT_MAX_WIDTH
+): string | null => {
+    if (!video.videoWidth || !video.videoHeight) return null;
+
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    try {
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const snapshot = canvas.toDataURL('image/jpeg', 0.7);
+        return snapshot.length <= REPORT_SNAPSHOT_MAX_LENGTH ? snapshot : null;
+    } catch (error) {
+        console.error("Error capturing video snapshot:", error);
+        return null;
+    }
+};
+
+// The moderator queue, newest first; every report when no status is given
+export const subscribeToReports = (
+    callback: (reports: Report[]) => void,
+    status?: ReportStatus
+): () => void => {
+    const q = status
+        ? query(reportCollection, where("status", "==", status), orderBy("timestamp", "desc"))
+        : query(reportCollection, orderBy("timestamp", "desc"));
+
+    return onSnapshot(q, (snapshot) => {
+        const reports = snapshot.docs.map(doc => ({
+            id: doc.id,
+            ...(doc.data() as Omit<Report, "id">)
+        }));
+        callback(reports);
+    }, (error) => {
+        console.error("Error subscribing to reports:", error);
+    });
+};
+
+// Move a report through triage, recording which admin did it
+export const updateReportStatus = async (
+    reportId: string,
+    status: ReportStatus,
+    adminId: string
+): Promise<boolean> => {
+    try {
+        await updateDoc(doc(reportCollection, reportId), {
+            status,
+            reviewedBy: adminId,
+            reviewedAt: Timestamp.now()
+        });
+        return true;
+    } catch (error) {
+        console.error("Error updating report status:", error);
+        return false;
+    }
+};
+
+// Add a moderator note to a report
+export const addReportNote = async (reportId: string, adminId: string, text: string): Promise<boolean> => {
+    try {
+        const note: ReportNote = { adminId, text, createdAt: Timestamp.now() };
+        await updateDoc(doc(reportCollection, reportId), { notes: arrayUnion(note) });
+        return true;
+    } catch (error) {
+        console.error("Error adding report note:", error);
+        return false;
+    }
+};
@@ -2,6 +2,7 @@ import {
     collection,
     doc,
     addDoc,
+    setDoc,
     getDoc,
     getDocs,
     updateDoc,
@@ -9,10 +10,18 @@ import {
     where,
     orderBy,
     Timestamp,
-    onSnapshot
+    onSnapshot,
+    runTransaction,
+    serverTimestamp,
+    deleteField,
+    DocumentChangeType
 } from "firebase/firestore";
 import { db } from "./firebase";
 import { UserData } from "./userService";
+import { getBlockedUserIds } from "./blockService";
+import { DEFAULT_ROOM_CONTENT_POLICY, ModerationFlag, RoomContentPolicy } from "./moderationService";
+
+export type RoomEndReason = 'hangup' | 'skipped' | 'connection-failed' | 'cancelled' | 'abandoned' | 'expired';
 
 export interface Room {
     id: string;
@@ -22,8 +31,37 @@ export interface Room {
     participant2?: UserData;
     isActive: boolean;
     createdAt: Timestamp;
-    offer?: RTCSessionDescriptionInit;
-    answer?: RTCSessionDescriptionInit;
+    // The room is closed at this time even if both participants are still heartbeating
+    expiresAt?: Timestamp;
+    // Latest heartbeat per participant, and the most recent one from either side
+    heartbeats?: { [userId: string]: Timestamp };
+    lastHeartbeatAt?: Timestamp;
+    endedAt?: Timestamp;
+    endReason?: RoomEndReason;
+    // Participant who ended the room; absent when the server closed it
+    endedBy?: string;
+    // Ended rooms are deleted by a Firestore TTL policy after this time
+    purgeAt?: Timestamp;
+    // Chat typing indicators and read receipts for when the data channel is down,
+    // in epoch milliseconds per participant (see ChatSignals in chatChannel.ts)
+    typingUntil?: { [userId: string]: number };
+    readUpTo?: { [userId: string]: number };
+    // How chat treats links, emails and phone numbers; fixed when the room is created
+    contentPolicy?: RoomContentPolicy;
+}
+
+// One offer or answer from one side of a call. Descriptions are append-only:
+// renegotiation (ICE restarts, added tracks) writes a new document with the next
+// version instead of overwriting the previous one.
+export interface SessionDescription {
+    id: string;
+    roomId: string;
+    senderId: string;
+    type: RTCSdpType;
+    sdp: string;
+    // Increases with every description the sender writes for this room
+    version: number;
+    timestamp: Timestamp;
 }
 
 export interface IceCandidate {
@@ -40,22 +78,54 @@ export interface ChatMessage {
     senderId: string;
     content: string;
     timestamp: Timestamp;
+    // Whether moderation masked part of the content, and what it found
+    filtered?: boolean;
+    moderationFlags?: ModerationFlag[];
+    editedAt?: Timestamp;
+    // Deleted messages are kept as tombstones with empty content
+    deletedAt?: Timestamp;
+    // Reaction per participant
+    reactions?: { [userId: string]: string };
     sender?: UserData;
 }
 
+// Participants refresh their room heartbeat this often while in a call
+export const ROOM_HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+// A room with no heartbeat from either participant for this long is closed as abandoned.
+// Keep in sync with functions/src/rooms.ts.
+export const ROOM_HEARTBEAT_TIMEOUT_MS = 60 * 1000;
+
+// Maximum lifetime of a room
+export const ROOM_TTL_MS = 4 * 60 * 60 * 1000;
+
+// How long an ended room is kept (e.g. for reviewing reports) before it is purged
+export const ROOM_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
 export const roomCollection = collection(db, "rooms");
 export const chatMessageCollection = collection(db, "chatMessages");
 export const iceCandidateCollection = collection(db, "iceCandidates");
+export const sessionDescriptionCollection = collection(db, "sessionDescriptions");
+
+// Fields for a newly opened room, including its lifecycle timestamps
+export const buildRoomData = (
+    participant1Id: string,
+    participant2Id: string,
+    now: Timestamp = Timestamp.now()
+): Omit<Room, "id"> => ({
+    participant1Id,
+    participant2Id,
+    isActive: true,
+    createdAt: now,
+    expiresAt: Timestamp.fromMillis(now.toMillis() + ROOM_TTL_MS),
+    lastHeartbeatAt: now,
+    contentPolicy: DEFAULT_ROOM_CONTENT_POLICY
+});
 
 // Create a new room
 export const createRoom = async (participant1Id: string, participant2Id: string): Promise<string | null> => {
     try {
-        const roomData = {
-            participant1Id,
-            participant2Id,
-            isActive: true,
-            createdAt: Timestamp.now()
-        };
+        const roomData = buildRoomData(participant1Id, participant2Id);
 
         const roomRef = await addDoc(roomCollection, roomData);
         return roomRef.id;
@@ -84,13 +154,79 @@ export const getRoomById = async (roomId: string): Promise<Room | null> => {
     }
 };
 
-// Update room active status
-export const updateRoomStatus = async (roomId: string, isActive: boolean): Promise<boolean> => {
+// End an active room. The first reason recorded wins; ending an already ended room is a no-op.
+// Signaling data for the room is deleted server-side once it ends.
+export const endRoom = async (roomId: string, reason: RoomEndReason, endedBy?: string): Promise<boolean> => {
+    try {
+        return await runTransaction(db, async (transaction) => {
+            const roomRef = doc(db, "rooms", roomId);
+            const roomDoc = await transaction.get(roomRef);
+            if (!roomDoc.exists() || !roomDoc.data().isActive) return false;
+
+            const now = Timestamp.now();
+            transaction.update(roomRef, {
+                isActive: false,
+                endedAt: now,
+                endReason: reason,
+                purgeAt: Timestamp.fromMillis(now.toMillis() + ROOM_RETENTION_MS),
+                ...(endedBy ? { endedBy } : {})
+            });
+
+            console.log(`Room ${roomId} ended: ${reason}`);
+            return true;
+        });
+    } catch (error) {
+        console.error("Error ending room:", error);
+        return false;
+    }
+};
+
+// Record that a participant is still in the room
+export const sendRoomHeartbeat = async (roomId: string, userId: string): Promise<boolean> => {
+    try {
+        await updateDoc(doc(db, "rooms", roomId), {
+            [`heartbeats.${userId}`]: serverTimestamp(),
+            lastHeartbeatAt: serverTimestamp()
+        });
+        return true;
+    } catch (error) {
+        console.error("Error sending room heartbeat:", error);
+        return false;
+    }
+};
+
+// Heartbeat for as long as the user stays in the room; returns a function that stops it
+export const startRoomHeartbeat = (roomId: string, userId: string): () => void => {
+    sendRoomHeartbeat(roomId, userId);
+    const timer = setInterval(() => {
+        sendRoomHeartbeat(roomId, userId);
+    }, ROOM_HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+};
+
+// Show or (with null) clear a participant's typing indicator
+export const setRoomTyping = async (roomId: string, userId: string, typingUntil: number | null): Promise<boolean> => {
+    try {
+        await updateDoc(doc(db, "rooms", roomId), {
+            [`typingUntil.${userId}`]: typingUntil === null ? deleteField() : typingUntil
+        });
+        return true;
+    } catch (error) {
+        console.error("Error updating typing state:", error);
+        return false;
+    }
+};
+
+// Record that a participant has read every message sent up to the given time
+export const markRoomRead = async (roomId: string, userId: string, readUpTo: number): Promise<boolean> => {
     try {
-        await updateDoc(doc(db, "rooms", roomId), { isActive });
+        await updateDoc(doc(db, "rooms", roomId), {
+            [`readUpTo.${userId}`]: readUpTo
+        });
         return true;
     } catch (error) {
-        console.error("Error updating room status:", error);
+        console.error("Error updating read receipt:", error);
         return false;
     }
 };
@@ -133,25 +269,28 @@ export const getActiveRoomsForUser = async (userId: string): Promise<Room[]> =>
 };
 
 // Improved WebRTC Signaling Functions
-export const addOfferToRoom = async (roomId: string, offer: RTCSessionDescriptionInit): Promise<boolean> => {
+export const addSessionDescription = async (
+    roomId: string,
+    senderId: string,
+    description: RTCSessionDescriptionInit,
+    version: number
+): Promise<string | null> => {
     try {
-        console.log("Adding offer to room:", roomId, offer);
-        await updateDoc(doc(db, "rooms", roomId), { offer });
-        return true;
-    } catch (error) {
-        console.error("Error adding offer to room:", error);
-        return false;
-    }
-};
+        console.log(`Adding ${description.type} v${version} to room:`, roomId);
+        const descriptionData: Omit<SessionDescription, "id"> = {
+            roomId,
+            senderId,
+            type: description.type,
+            sdp: description.sdp ?? "",
+            version,
+            timestamp: Timestamp.now()
+        };
 
-export const addAnswerToRoom = async (roomId: string, answer: RTCSessionDescriptionInit): Promise<boolean> => {
-    try {
-        console.log("Adding answer to room:", roomId, answer);
-        await updateDoc(doc(db, "rooms", roomId), { answer });
-        return true;
+        const descriptionRef = await addDoc(sessionDescriptionCollection, descriptionData);
+        return descriptionRef.id;
     } catch (error) {
-        console.error("Error adding answer to room:", error);
-        return false;
+        console.error("Error adding session description:", error);
+        return null;
     }
 };
 
@@ -235,16 +374,30 @@ export const subscribeToIceCandidates = (
     });
 };
 
-// Send a chat message
-export const sendChatMessage = async (roomId: string, senderId: string, content: string): Promise<string | null> => {
+// Send a chat message. Pass messageId to store it under an id chosen by the client,
+// e.g. one it was already sent under over the data channel.
+export const sendChatMessage = async (
+    roomId: string,
+    senderId: string,
+    content: string,
+    messageId?: string,
+    moderationFlags: ModerationFlag[] = []
+): Promise<string | null> => {
     try {
         const messageData = {
             roomId,
             senderId,
             content,
-            timestamp: Timestamp.now()
+            timestamp: Timestamp.now(),
+            filtered: moderationFlags.length > 0,
+            ...(moderationFlags.length > 0 && { moderationFlags })
         };
 
+        if (messageId) {
+            await setDoc(doc(chatMessageCollection, messageId), messageData);
+            return messageId;
+        }
+
         const messageRef = await addDoc(chatMessageCollection, messageData);
         return messageRef.id;
     } catch (error) {
@@ -253,6 +406,57 @@ export const sendChatMessage = async (roomId: string, senderId: string, content:
     }
 };
 
+// Replace the content of one of the sender's own messages
+export const editChatMessage = async (
+    messageId: string,
+    content: string,
+    moderationFlags: ModerationFlag[] = []
+): Promise<boolean> => {
+    try {
+        await updateDoc(doc(chatMessageCollection, messageId), {
+            content,
+            editedAt: serverTimestamp(),
+            filtered: moderationFlags.length > 0,
+            moderationFlags: moderationFlags.length > 0 ? moderationFlags : deleteField()
+        });
+        return true;
+    } catch (error) {
+        console.error("Error editing message:", error);
+        return false;
+    }
+};
+
+// Delete a message by emptying it; the document stays as a tombstone
+export const deleteChatMessage = async (messageId: string): Promise<boolean> => {
+    try {
+        await updateDoc(doc(chatMessageCollection, messageId), {
+            content: '',
+            deletedAt: serverTimestamp()
+        });
+        return true;
+    } catch (error) {
+        console.error("Error deleting message:", error);
+        return false;
+    }
+};
+
+// Set or (with null) remove a participant's reaction to a message
+export const setChatMessageReaction = async (
+    messageId: string,
+    userId: string,
+    reaction: string | null
+): Promise<boolean> => {
+    try {
+        await updateDoc(doc(chatMessageCollection, messageId), {
+            [`reactions.${userId}`]: reaction === null ? deleteField() : reaction
+        });
+        return true;
+    } catch (error) {
+        console.error("Error updating reaction:", error);
+        return false;
+    }
+};
+
 // Get chat messages for a room
 export const getChatMessagesForRoom = async (roomId: string): Promise<ChatMessage[]> => {
     try {
@@ -295,37 +499,29 @@ export const subscribeToChatMessages = (
     });
 };
 
-// Subscribe to offers for a room
-export const subscribeToOffers = (
+// Subscribe to offers and answers from a specific user, oldest version first
+export const subscribeToSessionDescriptions = (
     roomId: string,
-    callback: (offer: RTCSessionDescriptionInit) => void
+    senderId: string,
+    callback: (description: SessionDescription) => void
 ) => {
-    console.log("Subscribing to offers for room:", roomId);
-    return onSnapshot(doc(db, "rooms", roomId), (snapshot) => {
-        if (snapshot.exists()) {
-            const roomData = snapshot.data() as Omit<Room, "id">;
-            if (roomData.offer) {
-                console.log("Received offer from snapshot:", roomData.offer);
-                callback(roomData.offer);
-            }
-        }
-    });
-};
+    console.log(`Subscribing to session descriptions from user ${senderId} in room ${roomId}`);
+    const q = query(
+        sessionDescriptionCollection,
+        where("roomId", "==", roomId),
+        where("senderId", "==", senderId),
+        orderBy("version", "asc")
+    );
 
-// Subscribe to answers for a room
-export const subscribeToAnswers = (
-    roomId: string,
-    callback: (answer: RTCSessionDescriptionInit) => void
-) => {
-    console.log("Subscribing to answers for room:", roomId);
-    return onSnapshot(doc(db, "rooms", roomId), (snapshot) => {
-        if (snapshot.exists()) {
-            const roomData = snapshot.data() as Omit<Room, "id">;
-            if (roomData.answer) {
-                console.log("Received answer from snapshot:", roomData.answer);
-                callback(roomData.answer);
+    return onSnapshot(q, (snapshot) => {
+        snapshot.docChanges().forEach((change) => {
+            if (change.type === 'added') {
+                callback({
+                    id: change.doc.id,
+                    ...(change.doc.data() as Omit<SessionDescription, "id">)
+                });
             }
-        }
+        });
     });
 };
 
@@ -353,67 +549,20 @@ export const subscribeToUserIceCandidates = (
     });
 };
 
-// Find an existing room or create a new one
-export const findOrCreateRoom = async (userId: string): Promise<{ roomId: string; partnerId: string; isInitiator: boolean }> => {
-    try {
-        // First, look for an existing active room with only one participant
-        const q = query(
-            roomCollection,
-            where("isActive", "==", true),
-            where("participant2Id", "==", "")
-        );
-
-        const snapshot = await getDocs(q);
-
-        if (!snapshot.empty) {
-            // Found an existing room, join as participant2
-            const roomDoc = snapshot.docs[0];
-            const roomData = roomDoc.data() as Omit<Room, "id">;
-
-            // Make sure we're not joining our own room
-            if (roomData.participant1Id !== userId) {
-                await updateDoc(doc(db, "rooms", roomDoc.id), {
-                    participant2Id: userId
-                });
-
-                console.log("Joined existing room:", roomDoc.id);
-                return {
-                    roomId: roomDoc.id,
-                    partnerId: roomData.participant1Id,
-                    isInitiator: false
-                };
-            }
-        }
-
-        // No suitable room found, create a new one
-        const roomData = {
-            participant1Id: userId,
-            participant2Id: "",
-            isActive: true,
-            createdAt: Timestamp.now()
-        };
-
-        const roomRef = await addDoc(roomCollection, roomData);
-        console.log("Created new room:", roomRef.id);
-
-        return {
-            roomId: roomRef.id,
-            partnerId: "",
-            isInitiator: true
-        };
-    } catch (error) {
-        console.error("Error finding or creating room:", error);
-        throw new Error("Failed to find or create a room");
-    }
-};
-
-// Create a room with a specific user
+// Create a fresh room with a specific user. Any room the pair still has open is left
+// over from an earlier call, so it is ended rather than reused: its signaling data
+// belongs to that call and would be replayed into the new one.
 export const createRoomWithUser = async (
     userId: string,
     partnerId: string
 ): Promise<{ roomId: string; partnerId: string; isInitiator: boolean }> => {
     try {
-        // Check for existing active rooms between these users
+        // The rules refuse rooms the partner blocked us from; refuse our own blocks up front
+        const blockedIds = await getBlockedUserIds(userId);
+        if (blockedIds.includes(partnerId)) {
+            throw new Error("This user is blocked");
+        }
+
         const q1 = query(
             roomCollection,
             where("isActive", "==", true),
@@ -429,34 +578,12 @@ export const createRoomWithUser = async (
         );
 
         const [snapshot1, snapshot2] = await Promise.all([getDocs(q1), getDocs(q2)]);
+        await Promise.all([...snapshot1.docs, ...snapshot2.docs].map(roomDoc => {
+            console.log("Ending earlier room with partner:", roomDoc.id);
+            return endRoom(roomDoc.id, 'abandoned', userId);
+        }));
 
-        if (!snapshot1.empty) {
-            const roomDoc = snapshot1.docs[0];
-            console.log("Found existing room (as p1):", roomDoc.id);
-            return {
-                roomId: roomDoc.id,
-                partnerId,
-                isInitiator: true
-            };
-        }
-
-        if (!snapshot2.empty) {
-            const roomDoc = snapshot2.docs[0];
-            console.log("Found existing room (as p2):", roomDoc.id);
-            return {
-                roomId: roomDoc.id,
-                partnerId,
-                isInitiator: false
-            };
-        }
-
-        // Create a new room
-        const roomData = {
-            participant1Id: userId,
-            participant2Id: partnerId,
-            isActive: true,
-            createdAt: Timestamp.now()
-        };
+        const roomData = buildRoomData(userId, partnerId);
 
         const roomRef = await addDoc(roomCollection, roomData);
         console.log("Created new room with partner:", roomRef.id);
@@ -473,9 +600,10 @@ export const createRoomWithUser = async (
 };
 
 // Subscribe to messages in a room
+// Reports every message as it is added, changed (edits, deletions, reactions) or removed
 export const subscribeToRoomMessages = (
     roomId: string,
-    callback: (message: ChatMessage) => void
+    callback: (message: ChatMessage, changeType: DocumentChangeType) => void
 ) => {
     console.log("Subscribing to messages for room:", roomId);
     const q = query(
@@ -486,13 +614,12 @@ export const subscribeToRoomMessages = (
 
     return onSnapshot(q, (snapshot) => {
         snapshot.docChanges().forEach((change) => {
-            if (change.type === 'added') {
-                const messageData = {
-                    id: change.doc.id,
-                    ...(change.doc.data() as Omit<ChatMessage, "id">)
-                };
-                callback(messageData);
-            }
+            // Estimate pending server timestamps (editedAt, deletedAt) instead of reporting null
+            const messageData = {
+                id: change.doc.id,
+                ...(change.doc.data({ serverTimestamps: 'estimate' }) as Omit<ChatMessage, "id">)
+            };
+            callback(messageData, change.type);
         });
     });
 }; 
\ No newline at end of file
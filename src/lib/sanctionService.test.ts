@@ -0,0 +1,55 @@
+import { Timestamp } from 'firebase/firestore';
+import { remainingSanctionEffect, Sanction, sanctionEffectAfterIssuing } from './sanctionService';
+
+jest.mock('./firebase', () => ({ db: {} }));
+jest.mock('firebase/firestore', () => ({
+    ...jest.requireActual('firebase/firestore'),
+    collection: (_db: unknown, path: string) => ({ path })
+}));
+
+const sanction = (id: string, type: Sanction['type'], issuedAt: number, overrides: Partial<Sanction> = {}): Sanction => ({
+    id,
+    userId: 'mallory',
+    type,
+    reason: 'test',
+    issuedBy: 'admin',
+    issuedAt: Timestamp.fromMillis(issuedAt),
+    ...overrides
+});
+
+test('revoking one suspension keeps the longest other one running', () => {
+    const sanctions = [
+        sanction('short', 'suspension', 0, { expiresAt: Timestamp.fromMillis(2000) }),
+        sanction('long', 'suspension', 100, { expiresAt: Timestamp.fromMillis(5000) }),
+        sanction('revoked', 'suspension', 200, { expiresAt: Timestamp.fromMillis(9000), revokedAt: Timestamp.fromMillis(300) }),
+        sanction('over', 'suspension', 0, { expiresAt: Timestamp.fromMillis(500) })
+    ];
+
+    expect(remainingSanctionEffect(sanctions, 'short', 1000).suspendedUntil?.toMillis()).toBe(5000);
+    expect(remainingSanctionEffect(sanctions, 'long', 1000).suspendedUntil?.toMillis()).toBe(2000);
+    expect(remainingSanctionEffect(sanctions, 'long', 3000).suspendedUntil).toBeNull();
+});
+
+test('revoking one ban keeps the user banned while another stands', () => {
+    const sanctions = [sanction('first', 'ban', 1000), sanction('second', 'ban', 2000)];
+
+    expect(remainingSanctionEffect(sanctions, 'second').bannedAt?.toMillis()).toBe(1000);
+    expect(remainingSanctionEffect([sanctions[0]], 'first').bannedAt).toBeNull();
+});
+
+test('a new suspension never shortens a longer one in force', () => {
+    const longer = { suspendedUntil: Timestamp.fromMillis(9000) };
+    const shorter = sanction('new', 'suspension', 1000, { expiresAt: Timestamp.fromMillis(5000) });
+
+    expect(sanctionEffectAfterIssuing(longer, shorter)).toEqual({});
+    expect(sanctionEffectAfterIssuing({ suspendedUntil: Timestamp.fromMillis(2000) }, shorter).suspendedUntil?.toMillis()).toBe(5000);
+    expect(sanctionEffectAfterIssuing({}, shorter).suspendedUntil?.toMillis()).toBe(5000);
+});
+
+test('a new ban keeps the date of one already in force', () => {
+    const ban = sanction('new', 'ban', 2000);
+
+    expect(sanctionEffectAfterIssuing({ bannedAt: Timestamp.fromMillis(1000) }, ban)).toEqual({});
+    expect(sanctionEffectAfterIssuing({}, ban).bannedAt?.toMillis()).toBe(2000);
+    expect(sanctionEffectAfterIssuing({}, sanction('note', 'warning', 2000))).toEqual({});
+});
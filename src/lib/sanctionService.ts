@@ -0,0 +1,224 @@
+import {
+    collection,
+    doc,
+    getDocs,
+    updateDoc,
+    query,
+    where,
+    orderBy,
+    onSnapshot,
+    runTransaction,
+    writeBatch,
+    deleteField,
+    Timestamp
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { UserData } from "./userService";
+
+export type SanctionType = 'warning' | 'suspension' | 'ban';
+
+// One moderation decision against a user. The current effect of suspensions and
+// bans is mirrored onto the user document, where the rules and the app check it.
+export interface Sanction {
+    id: string;
+    userId: string;
+    type: SanctionType;
+    reason: string;
+    issuedBy: string;
+    issuedAt: Timestamp;
+    // When a suspension ends
+    expiresAt?: Timestamp;
+    // The report that led to it, if any
+    reportId?: string;
+    // When the user confirmed they read a warning
+    acknowledgedAt?: Timestamp;
+    revokedAt?: Timestamp;
+    revokedBy?: string;
+}
+
+export interface SanctionRequest {
+    userId: string;
+    type: SanctionType;
+    reason: string;
+    issuedBy: string;
+    // Required for suspensions
+    durationMs?: number;
+    reportId?: string;
+}
+
+export const SUSPENSION_DURATIONS: { label: string; ms: number }[] = [
+    { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+    { label: '3 days', ms: 3 * 24 * 60 * 60 * 1000 },
+    { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+    { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 }
+];
+
+export const sanctionCollection = collection(db, "sanctions");
+
+export const isBanned = (user: Pick<UserData, "bannedAt">): boolean => !!user.bannedAt;
+
+export const isSuspended = (user: Pick<UserData, "suspendedUntil">, now: number = Date.now()): boolean =>
+    !!user.suspendedUntil && user.suspendedUntil.toMillis() > now;
+
+// Record a sanction and apply it to the user in one write
+export const issueSanction = async (request: SanctionRequest): Promise<string | null> => {
+    try {
+        const now = Timestamp.now();
+        const sanctionRef = doc(sanctionCollection);
+        const userRef = doc(db, "users", request.userId);
+
+        const sanctionData: Omit<Sanction, "id"> = {
+            userId: request.userId,
+            type: request.type,
+            reason: request.reason,
+            issuedBy: request.issuedBy,
+            issuedAt: now,
+            ...(request.reportId ? { reportId: request.reportId } : {})
+        };
+
+        if (request.type === 'suspension') {
+            if (!request.durationMs) {
+                throw new Error("Suspensions need a duration");
+            }
+            sanctionData.expiresAt = Timestamp.fromMillis(now.toMillis() + request.durationMs);
+        }
+
+        await runTransaction(db, async (transaction) => {
+            const userSnap = await transaction.get(userRef);
+            const changes = sanctionEffectAfterIssuing((userSnap.data() as UserData | undefined) ?? {}, sanctionData);
+            if (Object.keys(changes).length > 0) {
+                transaction.update(userRef, changes);
+            }
+            transaction.set(sanctionRef, sanctionData);
+        });
+        return sanctionRef.id;
+    } catch (error) {
+        console.error("Error issuing sanction:", error);
+        return null;
+    }
+};
+
+// What a new sanction changes on the user document: a suspension only extends the one
+// in force, never shortens it, and a ban keeps the date of an earlier ban still in force
+export const sanctionEffectAfterIssuing = (
+    user: Pick<UserData, "suspendedUntil" | "bannedAt">,
+    sanction: Pick<Sanction, "type" | "issuedAt" | "expiresAt">
+): { suspendedUntil?: Timestamp; bannedAt?: Timestamp } => {
+    if (sanction.type === 'suspension' && sanction.expiresAt) {
+        const current = user.suspendedUntil;
+        return !current || current.toMillis() < sanction.expiresAt.toMillis()
+            ? { suspendedUntil: sanction.expiresAt }
+            : {};
+    }
+    if (sanction.type === 'ban' && !user.bannedAt) {
+        return { bannedAt: sanction.issuedAt };
+    }
+    return {};
+};
+
+// What is left of a user's suspensions and bans once one sanction is revoked: the
+// latest end of the other suspensions still running, and the other bans in force
+export const remainingSanctionEffect = (
+    sanctions: Sanction[],
+    revokedId: string,
+    now: number = Date.now()
+): { suspendedUntil: Timestamp | null; bannedAt: Timestamp | null } => {
+    const inForce = sanctions.filter(sanction => sanction.id !== revokedId && !sanction.revokedAt);
+
+    const suspendedUntil = inForce
+        .filter(sanction => sanction.type === 'suspension' && sanction.expiresAt && sanction.expiresAt.toMillis() > now)
+        .map(sanction => sanction.expiresAt as Timestamp)
+        .reduce<Timestamp | null>((latest, expiresAt) => !latest || expiresAt.toMillis() > latest.toMillis() ? expiresAt : latest, null);
+    const bannedAt = inForce
+        .filter(sanction => sanction.type === 'ban')
+        .map(sanction => sanction.issuedAt)
+        .reduce<Timestamp | null>((earliest, issuedAt) => !earliest || issuedAt.toMillis() < earliest.toMillis() ? issuedAt : earliest, null);
+
+    return { suspendedUntil, bannedAt };
+};
+
+// Lift a sanction; the history keeps it, marked revoked. The user stays suspended or
+// banned if another sanction of the same kind is still in force.
+export const revokeSanction = async (sanction: Sanction, adminId: string): Promise<boolean> => {
+    try {
+        const batch = writeBatch(db);
+        batch.update(doc(sanctionCollection, sanction.id), {
+            revokedAt: Timestamp.now(),
+            revokedBy: adminId
+        });
+
+        if (sanction.type !== 'warning') {
+            const snapshot = await getDocs(query(
+                sanctionCollection,
+                where("userId", "==", sanction.userId),
+                where("type", "==", sanction.type),
+                orderBy("issuedAt", "asc")
+            ));
+            const remaining = remainingSanctionEffect(
+                snapshot.docs.map(doc => ({ id: doc.id, ...(doc.data() as Omit<Sanction, "id">) })),
+                sanction.id
+            );
+
+            const userRef = doc(db, "users", sanction.userId);
+            if (sanction.type === 'suspension') {
+                batch.update(userRef, { suspendedUntil: remaining.suspendedUntil ?? deleteField() });
+            } else {
+                batch.update(userRef, { bannedAt: remaining.bannedAt ?? deleteField() });
+            }
+        }
+
+        await batch.commit();
+        return true;
+    } catch (error) {
+        console.error("Error revoking sanction:", error);
+        return false;
+    }
+};
+
+// Every sanction a user has received, newest first
+export const subscribeToSanctions = (
+    userId: string,
+    callback: (sanctions: Sanction[]) => void
+): () => void => {
+    const q = query(sanctionCollection, where("userId", "==", userId), orderBy("issuedAt", "desc"));
+
+    return onSnapshot(q, (snapshot) => {
+        const sanctions = snapshot.docs.map(doc => ({
+            id: doc.id,
+            ...(doc.data() as Omit<Sanction, "id">)
+        }));
+        callback(sanctions);
+    }, (error) => {
+        console.error("Error subscribing to sanctions:", error);
+    });
+};
+
+// Warnings the user has not confirmed reading yet, oldest first
+export const getUnacknowledgedWarnings = async (userId: string): Promise<Sanction[]> => {
+    try {
+        const q = query(
+            sanctionCollection,
+            where("userId", "==", userId),
+            where("type", "==", "warning"),
+            orderBy("issuedAt", "asc")
+        );
+
+        const snapshot = await getDocs(q);
+        return snapshot.docs
+            .map(doc => ({ id: doc.id, ...(doc.data() as Omit<Sanction, "id">) }))
+            .filter(warning => !warning.acknowledgedAt && !warning.revokedAt);
+    } catch (error) {
+        console.error("Error getting warnings:", error);
+        return [];
+    }
+};
+
+export const acknowledgeWarning = async (sanctionId: string): Promise<boolean> => {
+    try {
+        await updateDoc(doc(sanctionCollection, sanctionId), { acknowledgedAt: Timestamp.now() });
+        return true;
+    } catch (error) {
+        console.error("Error acknowledging warning:", error);
+        return false;
+    }
+};
@@ -0,0 +1,65 @@
+import { createInMemorySignalingPair } from './signaling';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('in-memory signaling pair', () => {
+    test('delivers descriptions and candidates to the other side only', async () => {
+        const [alice, bob] = createInMemorySignalingPair();
+        const aliceDescriptions: RTCSessionDescriptionInit[] = [];
+        const bobDescriptions: RTCSessionDescriptionInit[] = [];
+        const bobCandidates: RTCIceCandidateInit[] = [];
+
+        alice.onDescription(description => aliceDescriptions.push(description));
+        bob.onDescription(description => bobDescriptions.push(description));
+        bob.onCandidate(candidate => bobCandidates.push(candidate));
+
+        await alice.sendDescription({ type: 'offer', sdp: 'offer-sdp' });
+        await bob.sendDescription({ type: 'answer', sdp: 'answer-sdp' });
+        await alice.sendCandidate({ candidate: 'candidate:1', sdpMid: '0' });
+        await flush();
+
+        expect(bobDescriptions).toEqual([{ type: 'offer', sdp: 'offer-sdp' }]);
+        expect(aliceDescriptions).toEqual([{ type: 'answer', sdp: 'answer-sdp' }]);
+        expect(bobCandidates).toEqual([{ candidate: 'candidate:1', sdpMid: '0' }]);
+    });
+
+    test('keeps every description in order instead of only the latest', async () => {
+        const [alice, bob] = createInMemorySignalingPair();
+
+        await alice.sendDescription({ type: 'offer', sdp: 'first' });
+        await alice.sendDescription({ type: 'offer', sdp: 'second' });
+        await flush();
+
+        const received: RTCSessionDescriptionInit[] = [];
+        bob.onDescription(description => received.push(description));
+
+        expect(received.map(d => d.sdp)).toEqual(['first', 'second']);
+    });
+
+    test('replays earlier signals to late subscribers', async () => {
+        const [alice, bob] = createInMemorySignalingPair();
+
+        await alice.sendCandidate({ candidate: 'candidate:1' });
+        await alice.sendCandidate({ candidate: 'candidate:2' });
+        await flush();
+
+        const received: RTCIceCandidateInit[] = [];
+        bob.onCandidate(candidate => received.push(candidate));
+
+        expect(received.map(c => c.candidate)).toEqual(['candidate:1', 'candidate:2']);
+    });
+
+    test('stops delivering after unsubscribe and close', async () => {
+        const [alice, bob] = createInMemorySignalingPair();
+        const received: RTCSessionDescriptionInit[] = [];
+
+        const unsubscribe = bob.onDescription(description => received.push(description));
+        unsubscribe();
+        await alice.sendDescription({ type: 'offer', sdp: 'ignored' });
+        await flush();
+        expect(received).toEqual([]);
+
+        alice.close();
+        await expect(alice.sendDescription({ type: 'offer', sdp: 'late' })).rejects.toThrow('closed');
+    });
+});
@@ -0,0 +1,137 @@
+// Transport-agnostic signaling for PeerSession. Firestore is the production
+// backend (see firestoreSignaling.ts); the in-memory and BroadcastChannel
+// backends let two peers talk without any server, e.g. in tests or two tabs.
+
+// Either side may send an offer or an answer at any time (see the perfect negotiation
+// handling in peerSession.ts). Transports must deliver each remote description exactly
+// once and in the order it was sent; earlier ones are never overwritten.
+export interface SignalingTransport {
+    sendDescription(description: RTCSessionDescriptionInit): Promise<void>;
+    sendCandidate(candidate: RTCIceCandidateInit): Promise<void>;
+    // Each subscription returns a function that removes it
+    onDescription(callback: (description: RTCSessionDescriptionInit) => void): () => void;
+    onCandidate(callback: (candidate: RTCIceCandidateInit) => void): () => void;
+    close(): void;
+}
+
+export type SignalMessage =
+    | { kind: 'description'; description: RTCSessionDescriptionInit }
+    | { kind: 'candidate'; candidate: RTCIceCandidateInit };
+
+type SignalListener = (message: SignalMessage) => void;
+
+// Base for message-passing transports. Everything received is kept so a listener
+// that subscribes late still sees earlier signals, the same way a Firestore
+// snapshot listener receives existing documents.
+export abstract class BufferedSignalingTransport implements SignalingTransport {
+    private received: SignalMessage[] = [];
+    private listeners = new Set<SignalListener>();
+    protected closed = false;
+
+    // Hand a message to the remote side
+    protected abstract post(message: SignalMessage): void;
+
+    // Called by subclasses when a message from the remote side arrives
+    protected receive(message: SignalMessage): void {
+        if (this.closed) return;
+        this.received.push(message);
+        this.listeners.forEach(listener => listener(message));
+    }
+
+    async sendDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        this.send({ kind: 'description', description });
+    }
+
+    async sendCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+        this.send({ kind: 'candidate', candidate });
+    }
+
+    onDescription(callback: (description: RTCSessionDescriptionInit) => void): () => void {
+        return this.listen(message => {
+            if (message.kind === 'description') callback(message.description);
+        });
+    }
+
+    onCandidate(callback: (candidate: RTCIceCandidateInit) => void): () => void {
+        return this.listen(message => {
+            if (message.kind === 'candidate') callback(message.candidate);
+        });
+    }
+
+    close(): void {
+        this.closed = true;
+        this.listeners.clear();
+        this.received = [];
+    }
+
+    private send(message: SignalMessage): void {
+        if (this.closed) {
+            throw new Error("Signaling transport is closed");
+        }
+        this.post(message);
+    }
+
+    private listen(listener: SignalListener): () => void {
+        this.received.forEach(listener);
+        this.listeners.add(listener);
+
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+// One end of an in-process pair. Delivery is asynchronous, like a real network.
+export class InMemorySignalingTransport extends BufferedSignalingTransport {
+    private peer: InMemorySignalingTransport | null = null;
+
+    connect(peer: InMemorySignalingTransport): void {
+        this.peer = peer;
+    }
+
+    protected post(message: SignalMessage): void {
+        const peer = this.peer;
+        if (!peer) {
+            throw new Error("In-memory signaling transport is not connected");
+        }
+
+        // Copy so neither side can mutate what the other received
+        const copy = JSON.parse(JSON.stringify(message)) as SignalMessage;
+        Promise.resolve().then(() => peer.receive(copy));
+    }
+}
+
+// Create two connected in-memory transports, one per peer
+export const createInMemorySignalingPair = (): [InMemorySignalingTransport, InMemorySignalingTransport] => {
+    const a = new InMemorySignalingTransport();
+    const b = new InMemorySignalingTransport();
+    a.connect(b);
+    b.connect(a);
+    return [a, b];
+};
+
+// Signaling between browsing contexts of the same origin (e.g. two tabs)
+export class BroadcastChannelSignalingTransport extends BufferedSignalingTransport {
+    private readonly channel: BroadcastChannel;
+    private readonly localPeerId: string;
+
+    constructor(roomId: string, localPeerId: string) {
+        super();
+        this.localPeerId = localPeerId;
+        this.channel = new BroadcastChannel(`world-connect-signaling-${roomId}`);
+        this.channel.onmessage = (event: MessageEvent<{ senderId: string; message: SignalMessage }>) => {
+            if (event.data.senderId !== this.localPeerId) {
+                this.receive(event.data.message);
+            }
+        };
+    }
+
+    protected post(message: SignalMessage): void {
+        this.channel.postMessage({ senderId: this.localPeerId, message });
+    }
+
+    close(): void {
+        super.close();
+        this.channel.close();
+    }
+}
@@ -9,10 +9,12 @@ import {
     Timestamp,
     serverTimestamp,
     onSnapshot,
-    writeBatch,
-    where
+    where,
+    orderBy,
+    Query
 } from "firebase/firestore";
 import { db } from "./firebase";
+import { subscribeToBlocks } from "./blockService";
 
 export interface UserData {
     uid: string;
@@ -21,13 +23,26 @@ export interface UserData {
     avatarUrl?: string;
     gender?: string;
     interests?: string;
+    language?: string;
+    region?: string;
     isOnline?: boolean;
     lastActive?: Timestamp;
     createdAt?: Timestamp;
+    // Moderation state, only ever written by admins (see sanctionService)
+    suspendedUntil?: Timestamp;
+    bannedAt?: Timestamp;
 }
 
 export const userCollection = collection(db, "users");
 
+// Users whose last heartbeat is older than this are considered offline.
+// Keep in sync with functions/src/presence.ts.
+export const PRESENCE_TIMEOUT_MS = 90 * 1000;
+
+// Cutoff before which a lastActive timestamp counts as stale
+export const getPresenceCutoff = (now: number = Date.now()): Timestamp =>
+    Timestamp.fromMillis(now - PRESENCE_TIMEOUT_MS);
+
 // Get user by ID
 export const getUserById = async (uid: string): Promise<UserData | null> => {
     try {
@@ -164,40 +179,79 @@ export const getAllUsers = async (): Promise<UserData[]> => {
     }
 };
 
-// Set all users as online (for testing purposes)
-export const setAllUsersOnline = async (): Promise<boolean> => {
+// Get users with a recent heartbeat, most recently active first
+export const getOnlineUsers = async (): Promise<UserData[]> => {
     try {
-        const batch = writeBatch(db);
-        const querySnapshot = await getDocs(userCollection);
-
-        querySnapshot.docs.forEach(doc => {
-            batch.update(doc.ref, {
-                isOnline: true,
-                lastActive: serverTimestamp()
-            });
-        });
+        const q = query(
+            userCollection,
+            where("isOnline", "==", true),
+            where("lastActive", ">=", getPresenceCutoff()),
+            orderBy("lastActive", "desc")
+        );
 
-        await batch.commit();
-        console.log(`Set ${querySnapshot.size} users as online`);
-        return true;
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.docs.map(doc => ({
+            uid: doc.id,
+            ...(doc.data() as Omit<UserData, "uid">)
+        }));
     } catch (error) {
-        console.error("Error setting all users online:", error);
-        return false;
+        console.error("Error getting online users:", error);
+        return [];
     }
 };
 
-// Legacy function - now returns all users for better compatibility
-export const getOnlineUsers = async (): Promise<UserData[]> => {
-    return getAllUsers();
-};
+// Follow a user query, leaving out anyone the viewer has blocked
+const subscribeToVisibleUsers = (
+    q: Query,
+    callback: (users: UserData[]) => void,
+    viewerId?: string
+): () => void => {
+    let users: UserData[] = [];
+    let blockedIds = new Set<string>();
+
+    const emit = () => callback(users.filter(u => !blockedIds.has(u.uid)));
 
-// Subscribe to user changes - for real-time monitoring if needed
-export const subscribeToUsers = (callback: (users: UserData[]) => void): () => void => {
-    return onSnapshot(userCollection, (snapshot) => {
-        const users = snapshot.docs.map(doc => ({
+    const unsubscribeUsers = onSnapshot(q, (snapshot) => {
+        users = snapshot.docs.map(doc => ({
             uid: doc.id,
             ...(doc.data() as Omit<UserData, "uid">)
         }));
-        callback(users);
+        emit();
+    });
+
+    if (!viewerId) return unsubscribeUsers;
+
+    const unsubscribeBlocks = subscribeToBlocks(viewerId, (blocks) => {
+        blockedIds = new Set(blocks.map(block => block.blockedId));
+        emit();
     });
-}; 
\ No newline at end of file
+
+    return () => {
+        unsubscribeUsers();
+        unsubscribeBlocks();
+    };
+};
+
+// Subscribe to users marked online. Lapsed heartbeats drop out once the sweeper runs.
+// Given a viewer, users they have blocked are left out.
+export const subscribeToOnlineUsers = (
+    callback: (users: UserData[]) => void,
+    viewerId?: string
+): () => void => {
+    const q = query(
+        userCollection,
+        where("isOnline", "==", true),
+        orderBy("lastActive", "desc")
+    );
+
+    return subscribeToVisibleUsers(q, callback, viewerId);
+};
+
+// Subscribe to user changes - for real-time monitoring if needed.
+// Given a viewer, users they have blocked are left out.
+export const subscribeToUsers = (
+    callback: (users: UserData[]) => void,
+    viewerId?: string
+): () => void => {
+    return subscribeToVisibleUsers(userCollection, callback, viewerId);
+};
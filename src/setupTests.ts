@@ -3,3 +3,17 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { Blob, File } from 'buffer';
+import * as streamWeb from 'stream/web';
+
+// Jest's environments do not expose Node's web streams, which the Firebase SDK's
+// Node build needs when the Firestore rules tests load it
+Object.entries(streamWeb).forEach(([name, value]) => {
+  if (!(name in globalThis)) {
+    Object.assign(globalThis, { [name]: value });
+  }
+});
+
+// jsdom's File and Blob lack arrayBuffer() and text(), which the file transfer
+// tests read chunks and received files with, so use Node's in their place
+Object.assign(globalThis, { Blob, File });
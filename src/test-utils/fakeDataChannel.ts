@@ -0,0 +1,66 @@
+// Test doubles for the data channel classes' tests: a linked pair of fake RTCDataChannels
+// that deliver each other's messages asynchronously, like the real thing.
+
+export type FakeChannelData = string | ArrayBuffer;
+
+// One end of a data channel pair. It can start out connecting, be told to lose
+// everything it sends, and counts the binary chunks it sent.
+export class FakeDataChannel {
+    readyState: RTCDataChannelState = 'open';
+    binaryType = 'blob';
+    bufferedAmount = 0;
+    bufferedAmountLowThreshold = 0;
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: FakeChannelData }) => void) | null = null;
+    onclose: (() => void) | null = null;
+    onbufferedamountlow: (() => void) | null = null;
+    peer: FakeDataChannel | null = null;
+    dropOutgoing = false;
+    sentChunks = 0;
+
+    send(data: FakeChannelData): void {
+        if (this.readyState !== 'open') throw new Error('Channel is not open');
+        if (typeof data !== 'string') this.sentChunks++;
+
+        const peer = this.peer;
+        if (this.dropOutgoing || !peer) return;
+        setTimeout(() => peer.onmessage?.({ data }), 0);
+    }
+
+    open(): void {
+        this.readyState = 'open';
+        this.onopen?.();
+    }
+
+    close(): void {
+        this.readyState = 'closed';
+        this.onclose?.();
+    }
+
+    // What the classes under test are given
+    asChannel(): RTCDataChannel {
+        return this as unknown as RTCDataChannel;
+    }
+}
+
+// Alice's and Bob's ends of one channel
+export const createChannelPair = (readyState: RTCDataChannelState = 'open') => {
+    const aliceChannel = new FakeDataChannel();
+    const bobChannel = new FakeDataChannel();
+    aliceChannel.readyState = readyState;
+    bobChannel.readyState = readyState;
+    aliceChannel.peer = bobChannel;
+    bobChannel.peer = aliceChannel;
+
+    return { aliceChannel, bobChannel };
+};
+
+export const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Poll until the condition holds, for exchanges whose length depends on how busy the machine is
+export const waitUntil = async (condition: () => boolean, timeoutMs = 1000): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition() && Date.now() < deadline) {
+        await wait(5);
+    }
+};